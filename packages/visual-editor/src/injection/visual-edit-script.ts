@@ -51,7 +51,20 @@ type MessageType =
   | 'EDIT_MODE_ENABLED'
   | 'EDIT_MODE_DISABLED'
   | 'FULL_HTML'
-  | 'ELEMENT_INFO_REFRESHED';
+  | 'ELEMENT_INFO_REFRESHED'
+  | 'RUNTIME_ERROR';
+
+type RuntimeErrorKind = 'error' | 'unhandledrejection' | 'resource' | 'react' | 'vite';
+
+interface RuntimeErrorPayload {
+  kind: RuntimeErrorKind;
+  message: string;
+  stack?: string;
+  /** Project-relative source location (e.g. src/App.tsx:12:5) */
+  source?: { file: string; line?: number; column?: number };
+  url: string;
+  timestamp: string;
+}
 
 type HandleDirection = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
 
@@ -852,6 +865,187 @@ ${clone.innerHTML}
   }
 }
 
+/**
+ * Runtime Error Reporter
+ * Captures uncaught errors, unhandled rejections, React render errors and Vite
+ * error overlays, then reports them to the parent frame (RUNTIME_ERROR) and the server
+ */
+export class RuntimeErrorReporter {
+  private static readonly MAX_REPORTS = 50;
+  private projectId: string | null;
+  private reported: Set<string> = new Set();
+
+  constructor() {
+    this.projectId = window.location.pathname.match(/^\/p\/([^/]+)\//)?.[1] ?? null;
+    this.setupErrorListeners();
+    this.hookConsoleError();
+    this.observeViteOverlay();
+  }
+
+  private setupErrorListeners(): void {
+    // Capture phase also receives resource load errors (<script>, <link>, <img>)
+    window.addEventListener('error', (e: Event) => {
+      if (e instanceof ErrorEvent) {
+        this.report({
+          kind: 'error',
+          message: e.message || String(e.error),
+          stack: e.error instanceof Error ? e.error.stack : undefined,
+          source: this.toSource(e.filename, e.lineno, e.colno) ?? this.sourceFromStack(e.error?.stack),
+        });
+        return;
+      }
+
+      const target = e.target as HTMLElement | null;
+      if (target && target !== (window as unknown as HTMLElement)) {
+        const url = (target as HTMLScriptElement).src || (target as HTMLLinkElement).href || '';
+        this.report({
+          kind: 'resource',
+          message: `Failed to load ${target.tagName.toLowerCase()}: ${url}`,
+          source: this.toSource(url),
+        });
+      }
+    }, true);
+
+    window.addEventListener('unhandledrejection', (e) => {
+      const reason = e.reason;
+      this.report({
+        kind: 'unhandledrejection',
+        message: reason instanceof Error ? reason.message : String(reason),
+        stack: reason instanceof Error ? reason.stack : undefined,
+        source: this.sourceFromStack(reason instanceof Error ? reason.stack : undefined),
+      });
+    });
+  }
+
+  /**
+   * React logs render errors (with component stack) via console.error;
+   * Vite logs server errors there when the overlay is disabled
+   */
+  private hookConsoleError(): void {
+    const original = console.error.bind(console);
+
+    console.error = (...args: unknown[]) => {
+      original(...args);
+      try {
+        const text = args.map((arg) => (arg instanceof Error ? arg.message : String(arg))).join(' ');
+        if (/(The above|An) error occurred in the <\w+> component/.test(text)) {
+          const error = args.find((arg): arg is Error => arg instanceof Error);
+          this.report({
+            kind: 'react',
+            message: text.slice(0, 2000),
+            stack: error?.stack,
+            source: this.sourceFromStack(error?.stack ?? text),
+          });
+        } else if (text.startsWith('[vite] Internal Server Error')) {
+          this.report({ kind: 'vite', message: text, source: this.sourceFromText(text) });
+        }
+      } catch {
+        // Never break the page's own logging
+      }
+    };
+  }
+
+  /**
+   * Vite shows compile errors (vite:error) in a <vite-error-overlay> element
+   */
+  private observeViteOverlay(): void {
+    const inspect = (node: Node) => {
+      if (!(node instanceof HTMLElement) || node.tagName.toLowerCase() !== 'vite-error-overlay') return;
+      // Overlay renders into an open shadow root after construction
+      setTimeout(() => {
+        const root = node.shadowRoot;
+        const message = root?.querySelector('.message-body')?.textContent?.trim() || 'Vite error';
+        const file = root?.querySelector('.file')?.textContent?.trim() || '';
+        const frame = root?.querySelector('.frame')?.textContent || undefined;
+        this.report({
+          kind: 'vite',
+          message,
+          stack: frame,
+          source: this.sourceFromText(file),
+        });
+      }, 0);
+    };
+
+    const observer = new MutationObserver((mutations) => {
+      for (const mutation of mutations) {
+        mutation.addedNodes.forEach(inspect);
+      }
+    });
+    observer.observe(document.documentElement, { childList: true, subtree: true });
+  }
+
+  private report(error: Omit<RuntimeErrorPayload, 'url' | 'timestamp'>): void {
+    const key = `${error.kind}|${error.message}|${error.source?.file}:${error.source?.line}`;
+    if (this.reported.has(key) || this.reported.size >= RuntimeErrorReporter.MAX_REPORTS) return;
+    this.reported.add(key);
+
+    const payload: RuntimeErrorPayload = {
+      ...error,
+      url: window.location.href,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      window.parent.postMessage({ type: 'RUNTIME_ERROR', payload }, '*');
+    } catch {
+      // Not embedded or parent unreachable
+    }
+
+    if (this.projectId) {
+      fetch(`/p/${this.projectId}/__runtime-error`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        keepalive: true,
+      }).catch(() => {});
+    }
+  }
+
+  /**
+   * Convert a script URL to a project-relative path (strips origin, /p/{id}/ and query)
+   */
+  private toSource(url?: string, line?: number, column?: number): RuntimeErrorPayload['source'] | undefined {
+    if (!url) return undefined;
+    let file = url;
+    try {
+      file = new URL(url, window.location.href).pathname;
+    } catch {
+      // Not a URL, keep as is
+    }
+    file = file.replace(/^\/p\/[^/]+\//, '').replace(/^\/+/, '');
+    return { file, line: line || undefined, column: column || undefined };
+  }
+
+  /**
+   * First stack frame that points into the project (skips node_modules and Vite internals)
+   */
+  private sourceFromStack(stack?: string): RuntimeErrorPayload['source'] | undefined {
+    if (!stack) return undefined;
+    const frames = stack.matchAll(/(https?:\/\/[^\s)]+?):(\d+):(\d+)/g);
+    for (const [, url, line, column] of frames) {
+      if (url.includes('/node_modules/') || url.includes('/@vite/') || url.includes('/static/')) continue;
+      return this.toSource(url, Number(line), Number(column));
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse `/path/to/file.tsx:12:5` style locations in Vite error text
+   */
+  private sourceFromText(text: string): RuntimeErrorPayload['source'] | undefined {
+    const match = text.match(/([^\s:()]+\.[a-z]+):(\d+):(\d+)/i);
+    if (!match) return undefined;
+    const srcIndex = match[1].search(/(^|\/)src\//);
+    const file = srcIndex >= 0 ? match[1].slice(srcIndex).replace(/^\//, '') : match[1];
+    return { file, line: Number(match[2]), column: Number(match[3]) };
+  }
+}
+
+// Start capturing errors immediately (before the app's modules run)
+if (typeof window !== 'undefined') {
+  new RuntimeErrorReporter();
+}
+
 // Initialize controller when DOM is ready
 if (typeof window !== 'undefined') {
   const initController = () => {
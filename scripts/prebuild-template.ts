@@ -5,11 +5,14 @@
  */
 
 import { mkdir, writeFile } from 'fs/promises';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { execSync } from 'child_process';
+import { listTemplates, getTemplate, DEFAULT_TEMPLATE } from '../src/services/template-registry';
+import { generateScaffold, generateDefaultApp } from '../src/services/scaffolder';
 
 // Build to /app/template (persistent), copy to /data/sites/_template at runtime
 const TEMPLATE_DIR = '/app/template';
+const defaultTemplate = getTemplate(DEFAULT_TEMPLATE)!;
 
 // Template package.json with npm package (not file: symlink)
 const packageJson = {
@@ -22,86 +25,9 @@ const packageJson = {
     build: 'tsc && vite build',
     preview: 'vite preview',
   },
-  dependencies: {
-    // Core React
-    'react': '^18.2.0',
-    'react-dom': '^18.2.0',
-    'react-router-dom': '^6.0.0',
-
-    // Styling utilities
-    'clsx': '^2.0.0',
-    'tailwind-merge': '^2.0.0',
-    'class-variance-authority': '^0.7.0',
-    'tw-animate-css': '^1.0.0',
-
-    // Radix UI primitives (shadcn/ui base)
-    '@radix-ui/react-accordion': '^1.0.0',
-    '@radix-ui/react-alert-dialog': '^1.0.0',
-    '@radix-ui/react-aspect-ratio': '^1.0.0',
-    '@radix-ui/react-avatar': '^1.0.0',
-    '@radix-ui/react-checkbox': '^1.0.0',
-    '@radix-ui/react-collapsible': '^1.0.0',
-    '@radix-ui/react-context-menu': '^2.0.0',
-    '@radix-ui/react-dialog': '^1.0.0',
-    '@radix-ui/react-dropdown-menu': '^2.0.0',
-    '@radix-ui/react-hover-card': '^1.0.0',
-    '@radix-ui/react-icons': '^1.0.0',
-    '@radix-ui/react-label': '^2.0.0',
-    '@radix-ui/react-menubar': '^1.0.0',
-    '@radix-ui/react-navigation-menu': '^1.0.0',
-    '@radix-ui/react-popover': '^1.0.0',
-    '@radix-ui/react-progress': '^1.0.0',
-    '@radix-ui/react-radio-group': '^1.0.0',
-    '@radix-ui/react-scroll-area': '^1.0.0',
-    '@radix-ui/react-select': '^2.0.0',
-    '@radix-ui/react-separator': '^1.0.0',
-    '@radix-ui/react-slider': '^1.0.0',
-    '@radix-ui/react-slot': '^1.0.0',
-    '@radix-ui/react-switch': '^1.0.0',
-    '@radix-ui/react-tabs': '^1.0.0',
-    '@radix-ui/react-toast': '^1.0.0',
-    '@radix-ui/react-toggle': '^1.0.0',
-    '@radix-ui/react-toggle-group': '^1.0.0',
-    '@radix-ui/react-tooltip': '^1.0.0',
-
-    // Common shadcn/ui dependencies
-    'lucide-react': '^0.400.0',
-    'cmdk': '^1.0.0',
-    'sonner': '^1.0.0',
-    'vaul': '^0.9.0',
-    'input-otp': '^1.0.0',
-    'embla-carousel-react': '^8.0.0',
-    'react-resizable-panels': '^2.0.0',
-    'react-day-picker': '^8.0.0',
-    'recharts': '^2.0.0',
-
-    // Form & validation
-    'react-hook-form': '^7.0.0',
-    '@hookform/resolvers': '^3.0.0',
-    'zod': '^3.0.0',
-
-    // State & utilities
-    'zustand': '^4.0.0',
-    'date-fns': '^3.0.0',
-    'axios': '^1.0.0',
-    'framer-motion': '^11.0.0',
-    'next-themes': '^0.3.0',
-  },
-  devDependencies: {
-    '@babel/core': '^7.23.0',
-    '@babel/plugin-syntax-typescript': '^7.23.0',
-    '@types/react': '^18.2.37',
-    '@types/react-dom': '^18.2.15',
-    '@vitejs/plugin-react': '^4.2.0',
-    '@tailwindcss/postcss': '^4.0.0',
-    '@tailwindcss/vite': '^4.0.0',
-    '@tailwindcss/typography': '^0.5.0',
-    'tailwindcss': '^4.0.0',
-    'postcss-import': '^16.0.0',
-    'typescript': '^5.2.2',
-    'vite': '^5.0.0',
-    '@lookfree0822/vite-plugin-jsx-tagger': '^0.1.0',
-  },
+  // Pre-installed set comes from the template registry (also protects them from user overrides)
+  dependencies: defaultTemplate.dependencies,
+  devDependencies: defaultTemplate.devDependencies,
 };
 
 // Placeholder vite.config.ts (will be overwritten per project)
@@ -268,6 +194,23 @@ async function main() {
   execSync('bun install', { cwd: TEMPLATE_DIR, stdio: 'inherit' });
 
   console.log('[Prebuild] Template ready!');
+
+  // Other named templates: /app/templates/{name}, copied to /data/sites/_template-{name} at runtime
+  for (const template of listTemplates()) {
+    if (template.name === DEFAULT_TEMPLATE) continue;
+    console.log(`[Prebuild] Creating template ${template.name}...`);
+
+    const scaffold = generateScaffold({ projectId: '_template', projectName: template.name, template: template.name });
+    const app = generateDefaultApp(template, template.name);
+    for (const file of [...scaffold.files, app]) {
+      const fullPath = join(template.prebuiltDir, file.path);
+      await mkdir(dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, file.content, 'utf-8');
+    }
+
+    execSync('bun install', { cwd: template.prebuiltDir, stdio: 'inherit' });
+    console.log(`[Prebuild] Template ${template.name} ready!`);
+  }
 }
 
 main().catch(console.error);
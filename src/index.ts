@@ -7,21 +7,36 @@ import { serve } from '@hono/node-server';
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
+import { bodyLimit } from 'hono/body-limit';
 import { serveStatic } from '@hono/node-server/serve-static';
+import { getMimeType } from 'hono/utils/mime';
 import { mkdir, readdir, readFile } from 'fs/promises';
 import { join } from 'path';
 import type { Server } from 'http';
 
 import projectRoutes from './routes/projects';
 import healthRoutes from './routes/health';
-import { HmrWebSocketProxy } from './services/hmr-proxy';
-import { viteManager } from './services/vite-manager';
+import adminRoutes from './routes/admin';
+import { hmrProxy } from './services/hmr-proxy';
+import { viteManager, isServing, PoolExhaustedError } from './services/vite-manager';
 import { projectManager } from './services/project-manager';
 import { templateManager } from './services/template-manager';
+import { buildManager } from './services/build-manager';
+import { projectRegistry } from './services/project-registry';
+import { retentionManager } from './services/retention-manager';
+import { runtimeErrorStore } from './services/runtime-error-store';
+import { crashSupervisor } from './services/crash-supervisor';
+import { warmPool } from './services/warm-pool';
+import { resourceMonitor } from './services/resource-monitor';
+import { keyring } from './services/keyring';
 import { authMiddleware } from './middleware/auth';
+import { isProjectId } from './lib/safe-path';
+import { previewAuthMiddleware } from './middleware/preview-auth';
+import { projectIdGuard } from './middleware/project-id';
 
 const DATA_DIR = process.env.DATA_DIR || '/data/sites';
 const PORT = parseInt(process.env.PORT || '3000', 10);
+const KEEP_PREVIEWS_ON_RESTART = process.env.KEEP_PREVIEWS_ON_RESTART !== 'false';
 
 // Create Hono app
 const app = new Hono();
@@ -34,9 +49,16 @@ app.use('*', logger());
 // Apply auth middleware to /projects routes (requires API Key + HMAC signature)
 app.use('/projects/*', authMiddleware);
 app.route('/projects', projectRoutes);
+app.use('/admin/*', authMiddleware);
+app.route('/admin', adminRoutes);
 // Health routes are public (no auth required)
 app.route('/health', healthRoutes);
 app.get('/metrics', (c) => c.redirect('/health/metrics'));
+// Only project directories can be previewed, never internal state or ids with other characters
+app.use('/p/:projectId', projectIdGuard('projectId'));
+app.use('/p/:projectId/*', projectIdGuard('projectId'));
+// Previews of private projects need a preview token (see services/preview-access)
+app.use('/p/*', previewAuthMiddleware);
 
 // Static file server - visual-edit-script (local copy from packages/visual-editor)
 // Before deployment, run: cp ../packages/visual-editor/dist/injection/visual-edit-script.js static/injection/
@@ -83,34 +105,81 @@ app.get('/p/:projectId', (c) => {
   return c.redirect(`/p/${projectId}/`);
 });
 
+// Runtime error reports from visual-edit-script in the preview page (public, same origin as preview)
+// The limit applies while reading (Content-Length up front, chunked bodies as they stream)
+app.post('/p/:projectId/__runtime-error', bodyLimit({
+  maxSize: 32 * 1024,
+  onError: (c) => c.json({ success: false, error: 'Report too large' }, 413),
+}), async (c) => {
+  const projectId = c.req.param('projectId');
+
+  const raw = await c.req.text();
+
+  let report;
+  try {
+    report = runtimeErrorStore.parseReport(JSON.parse(raw));
+  } catch {
+    report = null;
+  }
+  if (!report) {
+    return c.json({ success: false, error: 'Invalid error report' }, 400);
+  }
+
+  const status = await projectManager.getStatus(projectId);
+  if (!status.exists) {
+    return c.json({ success: false, error: 'Project not found' }, 404);
+  }
+
+  runtimeErrorStore.record(projectId, report);
+  return c.body(null, 204);
+});
+
 // Project preview proxy - Forward /p/{projectId}/* to corresponding Vite Dev Server
 app.all('/p/:projectId/*', async (c) => {
   const projectId = c.req.param('projectId');
   let instance = viteManager.getInstance(projectId);
 
   // If Vite is not running, try to auto-start it
-  if (!instance || instance.status !== 'running') {
+  if (!instance || !isServing(instance.status)) {
     const status = await projectManager.getStatus(projectId);
 
     if (!status.exists) {
       return c.json({ success: false, error: 'Project not found' }, 404);
     }
 
+    // Crash loop: fail fast instead of restarting Vite on every page load
+    const crash = crashSupervisor.getState(projectId);
+    if (crash?.gaveUp) {
+      return c.json({ success: false, error: crash.reason, code: 'CRASH_LOOP' }, 503);
+    }
+    if (crash?.restarting && crash.nextRestartAt) {
+      const retryAfter = Math.max(1, Math.ceil((new Date(crash.nextRestartAt).getTime() - Date.now()) / 1000));
+      c.header('Retry-After', String(retryAfter));
+      return c.json({ success: false, error: 'Project preview crashed, restarting', code: 'RESTARTING' }, 503);
+    }
+
     // Project exists but Vite is not running, auto-start it
     console.log(`[Server] Auto-starting Vite for project: ${projectId}`);
     try {
       await projectManager.startPreview(projectId);
       instance = viteManager.getInstance(projectId);
 
-      if (!instance || instance.status !== 'running') {
+      if (!instance || !isServing(instance.status)) {
         return c.json({ success: false, error: 'Failed to start project preview' }, 500);
       }
     } catch (error) {
+      if (error instanceof PoolExhaustedError) {
+        c.header('Retry-After', String(error.retryAfter));
+        return c.json({ success: false, error: 'All preview servers are busy, please retry shortly', code: 'POOL_EXHAUSTED' }, 503);
+      }
       console.error(`[Server] Failed to auto-start project ${projectId}:`, error);
       return c.json({ success: false, error: 'Failed to start project' }, 500);
     }
   }
 
+  // Preview traffic keeps the instance from idle cleanup and memory eviction
+  viteManager.markActive(projectId);
+
   // Get full path - Vite is configured with base: '/p/{projectId}/', need to forward full path
   const fullPath = c.req.path;
   const queryString = new URL(c.req.url).search;
@@ -169,6 +238,36 @@ app.all('/p/:projectId/*', async (c) => {
   }
 });
 
+// Published site route without trailing slash - redirect to version with slash
+app.get('/s/:projectId', (c) => {
+  const projectId = c.req.param('projectId');
+  return c.redirect(`/s/${projectId}/`);
+});
+
+// Published site - Serve active production build of /s/{projectId}/* (no Vite instance needed)
+app.get('/s/:projectId/*', async (c) => {
+  const projectId = c.req.param('projectId');
+  const assetPath = c.req.path.replace(`/s/${projectId}`, '') || '/';
+
+  const filePath = await buildManager.resolveAssetPath(projectId, assetPath);
+  if (!filePath) {
+    return c.json({ success: false, error: 'Published site not found' }, 404);
+  }
+
+  const content = await readFile(filePath);
+  // Vite emits content-hashed files under /assets/, safe to cache forever
+  const cacheControl = assetPath.startsWith('/assets/')
+    ? 'public, max-age=31536000, immutable'
+    : 'no-cache';
+
+  return new Response(content, {
+    headers: {
+      'Content-Type': getMimeType(filePath) || 'application/octet-stream',
+      'Cache-Control': cacheControl,
+    },
+  });
+});
+
 // Helper function: Inject <base> tag and visual-edit-script into HTML response
 async function injectScripts(response: Response, projectId: string): Promise<Response> {
   const contentType = response.headers.get('content-type') || '';
@@ -267,27 +366,33 @@ async function countProjects(): Promise<number> {
   try {
     await mkdir(DATA_DIR, { recursive: true });
     const entries = await readdir(DATA_DIR, { withFileTypes: true });
-    return entries.filter(e => e.isDirectory()).length;
+    // Internal state (_builds, _snapshots, _warm-*, ...) shares DATA_DIR
+    return entries.filter(e => e.isDirectory() && isProjectId(e.name)).length;
   } catch {
     return 0;
   }
 }
 
-// HMR proxy instance
-let hmrProxy: HmrWebSocketProxy | null = null;
-
 // Graceful shutdown
 async function shutdown(): Promise<void> {
   console.log('\n[Server] Shutting down...');
 
   // Close HMR proxy
-  if (hmrProxy) {
-    hmrProxy.close();
+  hmrProxy.close();
+
+  retentionManager.stop();
+  resourceMonitor.stop();
+  keyring.stop();
+  crashSupervisor.destroy();
+  warmPool.destroy();
+
+  // Leave Vite running for the next server process to adopt (or stop everything)
+  if (KEEP_PREVIEWS_ON_RESTART) {
+    await viteManager.detach();
+  } else {
+    await viteManager.destroy();
   }
 
-  // Close all Vite instances
-  await viteManager.destroy();
-
   console.log('[Server] Shutdown complete');
   process.exit(0);
 }
@@ -300,14 +405,44 @@ async function start(): Promise<void> {
   // Ensure data directory exists
   await mkdir(DATA_DIR, { recursive: true });
 
+  // API keys for /projects and /admin (reloaded when API_KEYS_FILE changes)
+  await keyring.start();
+
+  // Take over previews still running from the previous server process
+  if (KEEP_PREVIEWS_ON_RESTART) {
+    const adopted = await viteManager.adoptInstances().catch((err) => {
+      console.error('[Server] Failed to adopt running Vite processes:', err.message);
+      return [];
+    });
+    if (adopted.length > 0) {
+      console.log(`[Server] Adopted ${adopted.length} running preview(s)`);
+    }
+  }
+
+  // Kill Vite processes a crashed previous server left behind (they hold pool ports)
+  await viteManager.reapOrphans(DATA_DIR).catch((err) => {
+    console.error('[Server] Failed to reap orphaned Vite processes:', err.message);
+  });
+
   // Initialize template project in background (speeds up subsequent project creation)
   // Does not block server startup, but will be ready for first project creation
   templateManager.initialize().then(() => {
     console.log('[Server] Template project initialized (fast project creation enabled)');
+    // Pre-start Vite for upcoming projects (after adoption, so warm instances are re-used)
+    return warmPool.initialize();
   }).catch((err) => {
     console.error('[Server] Failed to initialize template (will use slow path):', err.message);
+  }).then(() => templateManager.initializeAll());  // Remaining named templates, after the default
+
+  // Sync project registry with directories on disk (picks up pre-registry projects)
+  await projectRegistry.reconcile(DATA_DIR).catch((err) => {
+    console.error('[Server] Failed to reconcile project registry:', err.message);
   });
 
+  // Delete expired projects per retention policy (idle dev servers are only stopped)
+  retentionManager.start();
+  resourceMonitor.start();
+
   const projectCount = await countProjects();
 
   // Use Hono's Node.js adapter
@@ -329,7 +464,7 @@ async function start(): Promise<void> {
   });
 
   // Initialize HMR WebSocket proxy
-  hmrProxy = new HmrWebSocketProxy(server as Server, '/hmr');
+  hmrProxy.attach(server as Server, '/hmr');
 }
 
 start().catch((error) => {
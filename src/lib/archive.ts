@@ -0,0 +1,410 @@
+/**
+ * Archive Utilities
+ *
+ * Minimal tar.gz / zip writer and reader for project source trees.
+ * Implemented in-process so archives behave the same on every host
+ * (the Alpine image only ships busybox tar and no zip).
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip, gunzipSync, deflateRawSync, inflateRawSync } from 'zlib';
+import { join } from 'path';
+
+export type ArchiveFormat = 'tar.gz' | 'zip';
+
+/** File extracted from an archive */
+export interface ArchiveEntry {
+  path: string;
+  content: Buffer;
+}
+
+export interface ArchiveOptions {
+  /** Directory names skipped at any depth (e.g. node_modules) */
+  excludes?: string[];
+  /** Path prefix for every entry (e.g. the projectId) */
+  prefix?: string;
+}
+
+interface SourceFile {
+  path: string;
+  absolutePath: string;
+  mtime: Date;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * Stream an archive of a directory (files are read one at a time)
+ */
+export function createArchiveStream(
+  rootDir: string,
+  format: ArchiveFormat,
+  options: ArchiveOptions = {}
+): Readable {
+  const files = listFiles(rootDir, options);
+  if (format === 'zip') {
+    return Readable.from(zipChunks(files));
+  }
+  return Readable.from(tarChunks(files)).pipe(createGzip());
+}
+
+/**
+ * Write a gzipped tarball of `parentDir/entry` (entries are prefixed with `entry/`)
+ */
+export async function createTarball(
+  parentDir: string,
+  entry: string,
+  outFile: string,
+  excludes: string[] = []
+): Promise<void> {
+  await pipeline(
+    createArchiveStream(join(parentDir, entry), 'tar.gz', { excludes, prefix: entry }),
+    createWriteStream(outFile)
+  );
+}
+
+/**
+ * Detect archive format from magic bytes
+ */
+export function detectArchiveFormat(data: Buffer): ArchiveFormat | null {
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) return 'tar.gz';
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) return 'zip';
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x06054b50) return 'zip';
+  return null;
+}
+
+/**
+ * Extract regular files from a tar.gz or zip archive held in memory
+ * Directories, symlinks and other special entries are ignored
+ *
+ * @param maxBytes - Limit for the total uncompressed size
+ * @throws ArchiveError if the archive is malformed, unsupported or too large
+ */
+export function extractArchive(data: Buffer, maxBytes = 100 * 1024 * 1024): ArchiveEntry[] {
+  const format = detectArchiveFormat(data);
+  if (format === 'zip') return readZip(data, maxBytes);
+  if (format === 'tar.gz') {
+    let tar: Buffer;
+    try {
+      tar = gunzipSync(data, { maxOutputLength: maxBytes + 1024 * 1024 });
+    } catch (error) {
+      throw new ArchiveError(`Invalid gzip data: ${error instanceof Error ? error.message : error}`);
+    }
+    return readTar(tar, maxBytes);
+  }
+  throw new ArchiveError('Unsupported archive format (expected .tar.gz or .zip)');
+}
+
+// ============ Writing ============
+
+async function* listFiles(rootDir: string, options: ArchiveOptions): AsyncGenerator<SourceFile> {
+  const excludes = new Set(options.excludes ?? []);
+  const prefix = options.prefix ? `${options.prefix}/` : '';
+
+  async function* walk(subPath: string): AsyncGenerator<SourceFile> {
+    const entries = await readdir(join(rootDir, subPath), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (excludes.has(entry.name)) continue;
+      const relativePath = subPath ? `${subPath}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        yield* walk(relativePath);
+      } else if (entry.isFile()) {
+        const absolutePath = join(rootDir, relativePath);
+        const { mtime } = await stat(absolutePath);
+        yield { path: prefix + relativePath, absolutePath, mtime };
+      }
+    }
+  }
+
+  yield* walk('');
+}
+
+async function* tarChunks(files: AsyncIterable<SourceFile>): AsyncGenerator<Buffer> {
+  for await (const file of files) {
+    const content = await readFile(file.absolutePath);
+    const mtime = Math.floor(file.mtime.getTime() / 1000);
+
+    // Names over 100 bytes go into a PAX extended header
+    if (Buffer.byteLength(file.path) > 100) {
+      const record = paxRecord('path', file.path);
+      yield tarHeader('PaxHeader', record.length, mtime, 'x');
+      yield padBlock(record);
+    }
+
+    yield tarHeader(file.path, content.length, mtime, '0');
+    yield padBlock(content);
+  }
+
+  // End of archive: two zero blocks
+  yield Buffer.alloc(1024);
+}
+
+function tarHeader(name: string, size: number, mtime: number, type: string): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(truncateUtf8(name, 100), 0, 'utf-8');
+  header.write('0000644\0', 100, 'ascii');
+  header.write('0000000\0', 108, 'ascii');
+  header.write('0000000\0', 116, 'ascii');
+  header.write(size.toString(8).padStart(11, '0') + '\0', 124, 'ascii');
+  header.write(mtime.toString(8).padStart(11, '0') + '\0', 136, 'ascii');
+  header.write('        ', 148, 'ascii');
+  header.write(type, 156, 'ascii');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 'ascii');
+
+  return header;
+}
+
+function paxRecord(key: string, value: string): Buffer {
+  // Record length includes its own decimal digits
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body) + 1;
+  while (String(length).length + Buffer.byteLength(body) !== length) length++;
+  return Buffer.from(`${length}${body}`, 'utf-8');
+}
+
+function padBlock(content: Buffer): Buffer {
+  const remainder = content.length % 512;
+  return remainder === 0 ? content : Buffer.concat([content, Buffer.alloc(512 - remainder)]);
+}
+
+function truncateUtf8(value: string, maxBytes: number): string {
+  const buffer = Buffer.from(value, 'utf-8');
+  return buffer.length <= maxBytes ? value : buffer.subarray(0, maxBytes).toString('utf-8');
+}
+
+async function* zipChunks(files: AsyncIterable<SourceFile>): AsyncGenerator<Buffer> {
+  const central: Buffer[] = [];
+  let offset = 0;
+  let count = 0;
+
+  for await (const file of files) {
+    const content = await readFile(file.absolutePath);
+    const name = Buffer.from(file.path, 'utf-8');
+    const deflated = deflateRawSync(content);
+    // Store incompressible files as-is
+    const method = deflated.length < content.length ? 8 : 0;
+    const data = method === 8 ? deflated : content;
+    const crc = Bun.hash.crc32(content);
+    const { time, date } = toDosTime(file.mtime);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);  // UTF-8 names
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt16LE(time, 12);
+    entry.writeUInt16LE(date, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    yield Buffer.concat([local, name, data]);
+    offset += local.length + name.length + data.length;
+    count++;
+  }
+
+  const centralDir = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(count, 8);
+  end.writeUInt16LE(count, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield Buffer.concat([centralDir, end]);
+}
+
+function toDosTime(value: Date): { time: number; date: number } {
+  const year = Math.max(value.getFullYear(), 1980);
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
+
+// ============ Reading ============
+
+function readTar(tar: Buffer, maxBytes: number): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    if (isNaN(size) || size < 0) {
+      throw new ArchiveError('Invalid tar header');
+    }
+    const type = String.fromCharCode(header[156]);
+    const dataStart = offset + 512;
+    const data = tar.subarray(dataStart, dataStart + size);
+    if (data.length !== size) {
+      throw new ArchiveError('Truncated tar archive');
+    }
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (type === 'x') {
+      longName = parsePaxPath(data) ?? longName;
+      continue;
+    }
+    if (type === 'L') {
+      longName = data.toString('utf-8').replace(/\0+$/, '');
+      continue;
+    }
+
+    let name = longName ?? readString(header, 0, 100);
+    // POSIX ustar stores long names split into prefix + name (GNU uses these bytes differently)
+    if (!longName && readString(header, 257, 6) === 'ustar') {
+      const prefix = readString(header, 345, 155);
+      if (prefix) name = `${prefix}/${name}`;
+    }
+    longName = null;
+
+    // Regular files only
+    if (type !== '0' && type !== '\0' && type !== '7') continue;
+
+    total += size;
+    if (total > maxBytes) {
+      throw new ArchiveError(`Archive exceeds ${maxBytes} bytes uncompressed`);
+    }
+    entries.push({ path: name, content: Buffer.from(data) });
+  }
+
+  return entries;
+}
+
+function parsePaxPath(data: Buffer): string | null {
+  let path: string | null = null;
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString('ascii'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf-8');
+    const eq = record.indexOf('=');
+    if (record.slice(0, eq) === 'path') path = record.slice(eq + 1);
+    offset += length;
+  }
+
+  return path;
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const field = buffer.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+function readZip(zip: Buffer, maxBytes: number): ArchiveEntry[] {
+  // End of central directory record (followed by up to 64KB comment)
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new ArchiveError('Invalid zip archive: end of central directory not found');
+  }
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new ArchiveError('Invalid zip archive: corrupt central directory');
+    }
+
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const externalAttrs = zip.readUInt32LE(offset + 38);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories and symlinks (unix mode in the high 16 bits)
+    const unixType = (externalAttrs >>> 16) & 0o170000;
+    if (name.endsWith('/') || unixType === 0o120000) continue;
+
+    if (flags & 0x1) {
+      throw new ArchiveError(`Encrypted zip entries are not supported: ${name}`);
+    }
+    if (compressedSize === 0xffffffff || size === 0xffffffff) {
+      throw new ArchiveError('ZIP64 archives are not supported');
+    }
+
+    total += size;
+    if (total > maxBytes) {
+      throw new ArchiveError(`Archive exceeds ${maxBytes} bytes uncompressed`);
+    }
+
+    if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new ArchiveError(`Invalid zip archive: bad local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = Buffer.from(data);
+    } else if (method === 8) {
+      try {
+        content = inflateRawSync(data, { maxOutputLength: size || 1 });
+      } catch (error) {
+        throw new ArchiveError(`Failed to inflate ${name}: ${error instanceof Error ? error.message : error}`);
+      }
+    } else {
+      throw new ArchiveError(`Unsupported zip compression method ${method}: ${name}`);
+    }
+
+    entries.push({ path: name, content });
+  }
+
+  return entries;
+}
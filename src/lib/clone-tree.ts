@@ -0,0 +1,114 @@
+/**
+ * Tree Cloning
+ *
+ * Copies a project tree while sharing the content of `node_modules` between
+ * copies, so every project does not pay for its own copy of the template's
+ * dependencies.
+ *
+ * - hardlink: files under node_modules are hard-linked, everything else is copied.
+ *   Safe because node_modules is never written in place: the file API refuses
+ *   it and bun replaces package directories rather than rewriting files.
+ * - reflink: every file is cloned copy-on-write (btrfs, xfs); falls back to a
+ *   plain copy on filesystems without reflink support.
+ * - copy: full copy.
+ */
+
+import { copyFile, link, lstat, mkdir, readdir, readlink, symlink, constants } from 'fs/promises';
+import { join } from 'path';
+import type { DiskUsage } from '../types';
+
+export type CloneStrategy = 'hardlink' | 'reflink' | 'copy';
+
+// Directories whose files are shared by hard links
+const SHARED_DIRS = new Set(['node_modules']);
+// Per-project caches inside node_modules (Vite's dependency pre-bundling), never shared or copied
+const CACHE_DIRS = new Set(['.vite', '.cache']);
+
+export function isCloneStrategy(value: string): value is CloneStrategy {
+  return value === 'hardlink' || value === 'reflink' || value === 'copy';
+}
+
+/**
+ * Clone `source` into `dest` (created if missing)
+ * Symlinks are recreated verbatim; hard links that fail (other filesystem,
+ * link limit) fall back to copying
+ */
+export async function cloneTree(source: string, dest: string, strategy: CloneStrategy): Promise<void> {
+  await cloneDir(source, dest, strategy, false);
+}
+
+async function cloneDir(source: string, dest: string, strategy: CloneStrategy, shared: boolean): Promise<void> {
+  await mkdir(dest, { recursive: true });
+  const entries = await readdir(source, { withFileTypes: true });
+
+  await Promise.all(entries.map(async (entry) => {
+    const from = join(source, entry.name);
+    const to = join(dest, entry.name);
+
+    if (entry.isDirectory()) {
+      if (shared && CACHE_DIRS.has(entry.name)) return;
+      await cloneDir(from, to, strategy, shared || SHARED_DIRS.has(entry.name));
+    } else if (entry.isSymbolicLink()) {
+      await symlink(await readlink(from), to);
+    } else if (entry.isFile()) {
+      await cloneFile(from, to, strategy, shared);
+    }
+  }));
+}
+
+async function cloneFile(from: string, to: string, strategy: CloneStrategy, shared: boolean): Promise<void> {
+  if (strategy === 'hardlink' && shared) {
+    try {
+      await link(from, to);
+      return;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'EXDEV' && code !== 'EMLINK' && code !== 'EPERM') throw error;
+    }
+  }
+
+  // FICLONE tries a copy-on-write clone first and copies if unsupported
+  await copyFile(from, to, strategy === 'reflink' ? constants.COPYFILE_FICLONE : 0);
+}
+
+/**
+ * Disk usage of a tree; files also linked from elsewhere (e.g. the template) count as shared
+ * Reflinked blocks cannot be told apart from copies and count as own usage
+ */
+export async function measureDiskUsage(root: string): Promise<DiskUsage> {
+  const usage: DiskUsage = { files: 0, apparentBytes: 0, diskBytes: 0, sharedBytes: 0, ownBytes: 0 };
+  // Inodes already counted, for files linked twice within the tree
+  const seen = new Set<string>();
+
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(path);
+        continue;
+      }
+      if (!entry.isFile()) continue;
+
+      const stats = await lstat(path).catch(() => null);
+      if (!stats) continue;  // Removed meanwhile
+
+      const inode = `${stats.dev}:${stats.ino}`;
+      if (seen.has(inode)) continue;
+      seen.add(inode);
+
+      const bytes = stats.blocks * 512;
+      usage.files++;
+      usage.apparentBytes += stats.size;
+      usage.diskBytes += bytes;
+      if (stats.nlink > 1) {
+        usage.sharedBytes += bytes;
+      } else {
+        usage.ownBytes += bytes;
+      }
+    }
+  };
+
+  await walk(root);
+  return usage;
+}
@@ -0,0 +1,98 @@
+/**
+ * File Tail
+ *
+ * Follows a log file another process appends to, by polling its size.
+ * Used for Vite output, which goes to files instead of pipes so the
+ * process can outlive the server that spawned it.
+ */
+
+import { open, stat, truncate } from 'fs/promises';
+
+const POLL_INTERVAL = 200;
+const MAX_READ_BYTES = 256 * 1024;
+
+export class FileTail {
+  private offset = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private reading: Promise<void> | null = null;
+
+  /**
+   * @param maxBytes File is truncated once it grows beyond this (writer must use O_APPEND)
+   */
+  constructor(
+    private path: string,
+    private onData: (text: string) => void,
+    private maxBytes = 5 * 1024 * 1024
+  ) {}
+
+  /**
+   * Start following; `fromEnd` skips content written before now
+   */
+  async start(fromEnd = false): Promise<void> {
+    if (this.timer) return;
+    if (fromEnd) {
+      this.offset = await stat(this.path).then(s => s.size, () => 0);
+    }
+    this.timer = setInterval(() => {
+      this.flush().catch(() => {});
+    }, POLL_INTERVAL);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Keep following the same file after it was renamed (read position is kept)
+   */
+  moveTo(path: string): void {
+    this.path = path;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Read everything appended since the last read
+   */
+  flush(): Promise<void> {
+    if (!this.reading) {
+      this.reading = this.read().finally(() => {
+        this.reading = null;
+      });
+    }
+    return this.reading;
+  }
+
+  private async read(): Promise<void> {
+    let size: number;
+    try {
+      size = (await stat(this.path)).size;
+    } catch {
+      return;  // Not created yet or removed
+    }
+
+    // Truncated by someone else
+    if (size < this.offset) this.offset = 0;
+
+    while (this.offset < size) {
+      const length = Math.min(size - this.offset, MAX_READ_BYTES);
+      const handle = await open(this.path, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, this.offset);
+        if (bytesRead === 0) break;
+        this.offset += bytesRead;
+        this.onData(buffer.subarray(0, bytesRead).toString());
+      } finally {
+        await handle.close();
+      }
+    }
+
+    if (this.offset > this.maxBytes) {
+      await truncate(this.path, 0).catch(() => {});
+      this.offset = 0;
+    }
+  }
+}
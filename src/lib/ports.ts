@@ -0,0 +1,20 @@
+/**
+ * Port Utilities
+ */
+
+import { createServer } from 'net';
+
+/**
+ * Whether a TCP port can be bound right now (nothing else listens on it)
+ * Vite listens on 0.0.0.0, which also collides with listeners on a single interface
+ */
+export function isPortBindable(port: number, host = '0.0.0.0'): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = createServer();
+    server.unref();
+    server.once('error', () => resolve(false));
+    server.listen({ port, host, exclusive: true }, () => {
+      server.close(() => resolve(true));
+    });
+  });
+}
@@ -0,0 +1,158 @@
+/**
+ * Process Resource Statistics
+ *
+ * Reads memory and CPU usage of process trees and finds processes by working
+ * directory from /proc (Linux only).
+ * `bun run vite` spawns Vite as a child process, so usage is summed over
+ * the spawned process and all of its descendants.
+ */
+
+import { readFile, readdir, readlink } from 'fs/promises';
+import { resolve } from 'path';
+
+// Kernel USER_HZ, fixed at 100 on all mainstream Linux architectures
+const CLOCK_TICKS_PER_SECOND = 100;
+
+export interface ProcessTreeUsage {
+  /** Root pid followed by descendants */
+  pids: number[];
+  /** Resident set size summed over the tree */
+  rssBytes: number;
+  /** utime + stime summed over the tree, in seconds */
+  cpuSeconds: number;
+}
+
+interface ProcessStat {
+  ppid: number;
+  cpuSeconds: number;
+}
+
+/**
+ * Usage of each root pid's process tree (one /proc scan for all roots)
+ * Roots that no longer exist are missing from the result
+ */
+export async function sampleProcessTrees(rootPids: number[], procRoot = '/proc'): Promise<Map<number, ProcessTreeUsage>> {
+  const result = new Map<number, ProcessTreeUsage>();
+  if (rootPids.length === 0) return result;
+
+  let entries: string[];
+  try {
+    entries = await readdir(procRoot);
+  } catch {
+    return result;  // No procfs (non-Linux)
+  }
+
+  const stats = new Map<number, ProcessStat>();
+  const children = new Map<number, number[]>();
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    const pid = parseInt(entry, 10);
+    const stat = await readProcessStat(pid, procRoot);
+    if (!stat) continue;  // Exited meanwhile
+
+    stats.set(pid, stat);
+    const siblings = children.get(stat.ppid) ?? [];
+    siblings.push(pid);
+    children.set(stat.ppid, siblings);
+  }
+
+  for (const root of rootPids) {
+    if (!stats.has(root)) continue;
+
+    const usage: ProcessTreeUsage = { pids: [], rssBytes: 0, cpuSeconds: 0 };
+    const queue = [root];
+    while (queue.length > 0) {
+      const pid = queue.shift()!;
+      if (usage.pids.includes(pid)) continue;
+
+      usage.pids.push(pid);
+      usage.cpuSeconds += stats.get(pid)!.cpuSeconds;
+      usage.rssBytes += await readRss(pid, procRoot);
+      queue.push(...(children.get(pid) ?? []));
+    }
+
+    result.set(root, usage);
+  }
+
+  return result;
+}
+
+/**
+ * Parse ppid and CPU time from /proc/<pid>/stat
+ */
+async function readProcessStat(pid: number, procRoot: string): Promise<ProcessStat | null> {
+  try {
+    const stat = await readFile(`${procRoot}/${pid}/stat`, 'utf-8');
+
+    // comm (field 2) may contain spaces and parentheses; fields after it are space separated.
+    // fields[0] is state (field 3): ppid (4) is at 1, utime (14) and stime (15) at 11 and 12
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const ticks = parseInt(fields[11], 10) + parseInt(fields[12], 10);
+
+    return {
+      ppid: parseInt(fields[1], 10),
+      cpuSeconds: Number.isFinite(ticks) ? ticks / CLOCK_TICKS_PER_SECOND : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resident set size from /proc/<pid>/status (0 if unavailable)
+ */
+async function readRss(pid: number, procRoot: string): Promise<number> {
+  try {
+    const status = await readFile(`${procRoot}/${pid}/status`, 'utf-8');
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? parseInt(match[1], 10) * 1024 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export interface ProcessInfo {
+  pid: number;
+  cwd: string;
+  /** argv joined with spaces */
+  command: string;
+}
+
+/**
+ * Processes whose working directory is `rootDir` or below it
+ * Processes of other users (unreadable cwd) are skipped
+ */
+export async function findProcessesUnder(rootDir: string, procRoot = '/proc'): Promise<ProcessInfo[]> {
+  const root = resolve(rootDir);
+  const found: ProcessInfo[] = [];
+
+  let entries: string[];
+  try {
+    entries = await readdir(procRoot);
+  } catch {
+    return found;
+  }
+
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    const info = await readProcessInfo(parseInt(entry, 10), procRoot);
+    if (info && (info.cwd === root || info.cwd.startsWith(`${root}/`))) {
+      found.push(info);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Working directory and command line of a process, null if gone or not ours
+ */
+export async function readProcessInfo(pid: number, procRoot = '/proc'): Promise<ProcessInfo | null> {
+  try {
+    const cwd = await readlink(`${procRoot}/${pid}/cwd`);
+    const cmdline = await readFile(`${procRoot}/${pid}/cmdline`, 'utf-8');
+    return { pid, cwd, command: cmdline.split('\0').filter(Boolean).join(' ') };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Safe Path Resolution
+ *
+ * Single resolution layer for every user-supplied file path inside a project.
+ * Rejects absolute paths, `..` escapes, symlinks pointing outside the project,
+ * writes into node_modules/.git and writes matching the configured deny-list.
+ */
+
+import { realpath, lstat } from 'fs/promises';
+import { resolve, normalize, dirname, basename, join, sep, isAbsolute } from 'path';
+import type { PathErrorCode } from '../types';
+
+export type PathAccessMode = 'read' | 'write';
+
+// Directories that may never be written through the API
+const PROTECTED_SEGMENTS = new Set(['node_modules', '.git']);
+
+/**
+ * Deny-list for writes/deletes, comma-separated in FILE_WRITE_DENYLIST
+ * Entries are project-relative paths; `*` matches within a segment, `**` across segments
+ * Example: FILE_WRITE_DENYLIST=vite.config.ts,bun.lock,public/**
+ */
+const DEFAULT_DENY_LIST = (process.env.FILE_WRITE_DENYLIST || '')
+  .split(',')
+  .map(entry => entry.trim())
+  .filter(Boolean);
+
+// DATA_DIR entries that are never projects (internal state uses `_`-prefixed names: _builds, _snapshots, ...)
+const RESERVED_PROJECT_IDS = new Set([
+  'template',
+  'node_modules',
+  '.git',
+  '.cache',
+  'dist',
+  'build',
+]);
+
+export class InvalidProjectIdError extends Error {
+  readonly code = 'INVALID_PROJECT_ID';
+
+  constructor(projectId: string) {
+    super(`Invalid projectId: ${projectId} (letters, digits, - and _, not starting with _)`);
+    this.name = 'InvalidProjectIdError';
+  }
+}
+
+export class PathSecurityError extends Error {
+  constructor(message: string, public readonly code: PathErrorCode) {
+    super(message);
+    this.name = 'PathSecurityError';
+  }
+}
+
+/**
+ * Resolve a user-supplied path to an absolute path inside the project
+ *
+ * @throws PathSecurityError if the path is not allowed for the given mode
+ */
+export async function resolveProjectPath(
+  projectPath: string,
+  userPath: string,
+  mode: PathAccessMode,
+  denyList: string[] = DEFAULT_DENY_LIST
+): Promise<string> {
+  const relativePath = normalizeRelativePath(userPath);
+  const root = resolve(projectPath);
+  const target = resolve(root, relativePath);
+
+  if (!isInside(root, target)) {
+    throw new PathSecurityError(`Path escapes project directory: ${userPath}`, 'PATH_TRAVERSAL');
+  }
+
+  if (mode === 'write') {
+    const segments = relativePath.split('/');
+    if (segments.some(segment => PROTECTED_SEGMENTS.has(segment.toLowerCase()))) {
+      throw new PathSecurityError(`Writing to protected directory is not allowed: ${userPath}`, 'PATH_PROTECTED');
+    }
+
+    if (denyList.some(pattern => matchesPattern(relativePath, pattern))) {
+      throw new PathSecurityError(`Path is on the write deny-list: ${userPath}`, 'PATH_DENIED');
+    }
+  }
+
+  // Symlinks (on the target itself or any existing parent) must stay inside the project
+  const realRoot = await resolveExistingRealPath(root);
+  const realTarget = await resolveExistingRealPath(target);
+  if (!isInside(realRoot, realTarget)) {
+    throw new PathSecurityError(`Path resolves outside project directory: ${userPath}`, 'PATH_SYMLINK_ESCAPE');
+  }
+
+  return target;
+}
+
+/**
+ * Validate path syntax and return a normalized project-relative path (forward slashes)
+ */
+function normalizeRelativePath(userPath: string): string {
+  if (typeof userPath !== 'string' || !userPath.trim() || userPath.includes('\0')) {
+    throw new PathSecurityError('Invalid file path', 'PATH_INVALID');
+  }
+
+  const slashed = userPath.replace(/\\/g, '/');
+  if (isAbsolute(slashed) || /^[a-zA-Z]:/.test(slashed)) {
+    throw new PathSecurityError(`Absolute paths are not allowed: ${userPath}`, 'PATH_ABSOLUTE');
+  }
+
+  const normalized = normalize(slashed).split(sep).join('/').replace(/\/+$/, '');
+  if (normalized === '..' || normalized.startsWith('../')) {
+    throw new PathSecurityError(`Path escapes project directory: ${userPath}`, 'PATH_TRAVERSAL');
+  }
+  if (normalized === '.' || normalized === '') {
+    throw new PathSecurityError('Path must point to a file inside the project', 'PATH_INVALID');
+  }
+
+  return normalized;
+}
+
+/**
+ * Real path of the target, or of its deepest existing ancestor joined with the rest
+ */
+async function resolveExistingRealPath(target: string): Promise<string> {
+  let current = target;
+  const rest: string[] = [];
+
+  while (true) {
+    const exists = await lstat(current).then(() => true, () => false);
+    if (exists) {
+      try {
+        return join(await realpath(current), ...rest);
+      } catch {
+        // Dangling or looping symlink, cannot prove it stays inside
+        return '\0';
+      }
+    }
+
+    const parent = dirname(current);
+    if (parent === current) return target;
+    rest.unshift(basename(current));
+    current = parent;
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  return target === root || target.startsWith(root + sep);
+}
+
+function matchesPattern(relativePath: string, pattern: string): boolean {
+  const normalizedPattern = pattern.replace(/\\/g, '/').replace(/^\.?\//, '');
+  const regex = normalizedPattern
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(chunk => chunk.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(relativePath);
+}
+
+/**
+ * Whether an id names a project directory in DATA_DIR (not internal state or a reserved name)
+ */
+export function isProjectId(projectId: string): boolean {
+  return /^[a-zA-Z0-9-][a-zA-Z0-9_-]*$/.test(projectId) && !RESERVED_PROJECT_IDS.has(projectId);
+}
+
+/**
+ * @throws InvalidProjectIdError unless isProjectId(projectId)
+ */
+export function assertProjectId(projectId: string): void {
+  if (!isProjectId(projectId)) {
+    throw new InvalidProjectIdError(projectId);
+  }
+}
+
+/**
+ * Decode a URL path segment the way the router decodes route params (kept as-is if malformed)
+ * Use it wherever a project id is read from a raw URL, so checks see the id the route will use
+ */
+export function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -52,21 +52,71 @@ export function verifySignature(
   secret: string
 ): boolean {
   try {
-    const expectedSignature = generateSignature(params, secret);
+    return safeEqualHex(signature, generateSignature(params, secret));
+  } catch {
+    return false;
+  }
+}
 
-    // Use timing-safe comparison to prevent timing attacks
-    const signatureBuffer = Buffer.from(signature, 'hex');
-    const expectedBuffer = Buffer.from(expectedSignature, 'hex');
+/**
+ * Generate a preview token granting access to one project's preview until expiresAt
+ *
+ * Token format: {expiresAt}.{signature}
+ * Signature payload format: preview\n{projectId}\n{expiresAt}
+ *
+ * @param expiresAt - Unix timestamp in seconds
+ */
+export function generatePreviewToken(
+  projectId: string,
+  expiresAt: number,
+  secret: string
+): string {
+  return `${expiresAt}.${previewSignature(projectId, expiresAt, secret)}`;
+}
 
-    // Ensure both buffers have the same length
-    if (signatureBuffer.length !== expectedBuffer.length) {
-      return false;
-    }
+/**
+ * Verify a preview token for a project (signature and expiry)
+ *
+ * @returns true if the token is valid and not expired, false otherwise
+ */
+export function verifyPreviewToken(
+  token: string,
+  projectId: string,
+  secret: string
+): boolean {
+  const match = token.match(/^(\d+)\.([0-9a-f]{64})$/);
+  if (!match) {
+    return false;
+  }
 
-    return crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
-  } catch {
+  const expiresAt = parseInt(match[1], 10);
+  if (expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  return safeEqualHex(match[2], previewSignature(projectId, expiresAt, secret));
+}
+
+function previewSignature(projectId: string, expiresAt: number, secret: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(['preview', projectId, expiresAt].join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Timing-safe comparison of two signatures (prevents timing attacks)
+ */
+function safeEqualHex(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual, 'hex');
+  const expectedBuffer = Buffer.from(expected, 'hex');
+
+  // Ensure both buffers have the same length
+  if (actualBuffer.length !== expectedBuffer.length) {
     return false;
   }
+
+  return crypto.timingSafeEqual(actualBuffer, expectedBuffer);
 }
 
 /**
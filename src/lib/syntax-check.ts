@@ -0,0 +1,148 @@
+/**
+ * Syntax Check Utilities
+ *
+ * Lightweight parse checks for generated source files before they are written.
+ * Only detects syntax errors; type errors are left to the diagnostics endpoint.
+ */
+
+import { extname } from 'path';
+
+export interface SyntaxIssue {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+const TRANSPILER_LOADERS: Record<string, 'ts' | 'tsx' | 'js' | 'jsx'> = {
+  '.ts': 'ts',
+  '.tsx': 'tsx',
+  '.js': 'js',
+  '.jsx': 'jsx',
+  '.mjs': 'js',
+};
+
+/**
+ * Check whether a file path has a syntax checker
+ */
+export function isSyntaxCheckable(filePath: string): boolean {
+  const ext = extname(filePath).toLowerCase();
+  return ext in TRANSPILER_LOADERS || ext === '.json' || ext === '.css';
+}
+
+/**
+ * Check file content for syntax errors
+ *
+ * @returns null if content parses (or file type is not checked), otherwise the first issue
+ */
+export function checkSyntax(filePath: string, content: string): SyntaxIssue | null {
+  const ext = extname(filePath).toLowerCase();
+
+  if (ext in TRANSPILER_LOADERS) {
+    return checkScript(content, TRANSPILER_LOADERS[ext]);
+  }
+  if (ext === '.json') {
+    return checkJson(content);
+  }
+  if (ext === '.css') {
+    return checkCss(content);
+  }
+
+  return null;
+}
+
+function checkScript(content: string, loader: 'ts' | 'tsx' | 'js' | 'jsx'): SyntaxIssue | null {
+  try {
+    new Bun.Transpiler({ loader }).transformSync(content);
+    return null;
+  } catch (error) {
+    // Bun throws a BuildMessage (or AggregateError of them) with position info
+    const first = error instanceof AggregateError ? error.errors[0] : error;
+    const { message, position } = first as { message?: string; position?: { line?: number; column?: number } | null };
+    return {
+      message: message || 'Syntax error',
+      line: position?.line,
+      column: position?.column,
+    };
+  }
+}
+
+function checkJson(content: string): SyntaxIssue | null {
+  try {
+    JSON.parse(content);
+    return null;
+  } catch (error) {
+    return { message: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+}
+
+/**
+ * Check CSS for unbalanced braces/parentheses and unterminated strings or comments
+ * Tailwind directives (@apply, @layer, ...) are plain at-rules and pass through
+ */
+function checkCss(content: string): SyntaxIssue | null {
+  const stack: Array<{ char: string; line: number; column: number }> = [];
+  const pairs: Record<string, string> = { '}': '{', ')': '(' };
+  let line = 1;
+  let column = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    column++;
+
+    if (char === '\n') {
+      line++;
+      column = 0;
+      continue;
+    }
+
+    // Comments
+    if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      if (end === -1) {
+        return { message: 'Unterminated comment', line, column };
+      }
+      for (const skipped of content.slice(i, end + 2)) {
+        if (skipped === '\n') {
+          line++;
+          column = 0;
+        } else {
+          column++;
+        }
+      }
+      column--;
+      i = end + 1;
+      continue;
+    }
+
+    // Strings
+    if (char === '"' || char === "'") {
+      let j = i + 1;
+      while (j < content.length && content[j] !== char && content[j] !== '\n') {
+        if (content[j] === '\\') j++;
+        j++;
+      }
+      if (content[j] !== char) {
+        return { message: 'Unterminated string', line, column };
+      }
+      column += j - i;
+      i = j;
+      continue;
+    }
+
+    if (char === '{' || char === '(') {
+      stack.push({ char, line, column });
+    } else if (char === '}' || char === ')') {
+      const open = stack.pop();
+      if (!open || open.char !== pairs[char]) {
+        return { message: `Unexpected "${char}"`, line, column };
+      }
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    return { message: `Unclosed "${unclosed.char}"`, line: unclosed.line, column: unclosed.column };
+  }
+
+  return null;
+}
@@ -0,0 +1,136 @@
+/**
+ * WebSocket Frames
+ *
+ * Lets the HMR proxy push its own messages into a raw TCP passthrough to Vite.
+ * Bytes from Vite are forwarded unchanged; the gate only tracks where frames
+ * end, so injected frames are written between two of Vite's frames and never
+ * inside one.
+ */
+
+/**
+ * Unmasked text frame, as sent from server to client
+ */
+export function encodeTextFrame(text: string): Buffer {
+  const payload = Buffer.from(text, 'utf-8');
+  let header: Buffer;
+
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Server-to-client side of a proxied WebSocket connection
+ * Feed it the upstream bytes (HTTP upgrade response first) with push()
+ */
+export class WebSocketFrameGate {
+  // Upgrade response seen: null while waiting for it
+  private upgraded: boolean | null = null;
+  // Bytes of an incomplete upgrade response or frame header
+  private partial: Buffer = Buffer.alloc(0);
+  // Payload bytes of the current frame still to come
+  private remaining = 0;
+  private queue: Buffer[] = [];
+
+  constructor(private write: (chunk: Buffer) => void) {}
+
+  /**
+   * Whether the upstream accepted the upgrade (injected frames are dropped otherwise)
+   */
+  isOpen(): boolean {
+    return this.upgraded === true;
+  }
+
+  push(chunk: Buffer): void {
+    let data = this.partial.length > 0 ? Buffer.concat([this.partial, chunk]) : chunk;
+    this.partial = Buffer.alloc(0);
+
+    if (this.upgraded === null) {
+      const end = data.indexOf('\r\n\r\n');
+      if (end === -1) {
+        this.partial = data;
+        return;
+      }
+      const response = data.subarray(0, end + 4);
+      this.upgraded = / 101 /.test(response.subarray(0, response.indexOf('\r\n')).toString('latin1'));
+      this.write(response);
+      data = data.subarray(end + 4);
+      if (!this.upgraded) {
+        if (data.length > 0) this.write(data);
+        return;
+      }
+    } else if (!this.upgraded) {
+      this.write(data);
+      return;
+    }
+
+    let offset = 0;
+    while (offset < data.length) {
+      if (this.remaining > 0) {
+        const length = Math.min(this.remaining, data.length - offset);
+        this.write(data.subarray(offset, offset + length));
+        this.remaining -= length;
+        offset += length;
+        continue;
+      }
+
+      this.flush();
+      const headerLength = frameHeaderLength(data.subarray(offset));
+      if (headerLength === null || data.length - offset < headerLength) {
+        this.partial = Buffer.from(data.subarray(offset));
+        return;
+      }
+
+      const header = data.subarray(offset, offset + headerLength);
+      this.remaining = framePayloadLength(header);
+      this.write(header);
+      offset += headerLength;
+    }
+
+    if (this.remaining === 0) this.flush();
+  }
+
+  /**
+   * Send a frame to the client at the next frame boundary
+   */
+  inject(frame: Buffer): void {
+    if (this.upgraded === false) return;
+    this.queue.push(frame);
+    if (this.upgraded && this.remaining === 0 && this.partial.length === 0) this.flush();
+  }
+
+  private flush(): void {
+    for (const frame of this.queue.splice(0)) {
+      this.write(frame);
+    }
+  }
+}
+
+/**
+ * Header size from its first bytes, null if too few bytes to tell
+ */
+function frameHeaderLength(data: Buffer): number | null {
+  if (data.length < 2) return null;
+  const length = data[1] & 0x7f;
+  const masked = (data[1] & 0x80) !== 0;
+  return 2 + (length === 126 ? 2 : length === 127 ? 8 : 0) + (masked ? 4 : 0);
+}
+
+function framePayloadLength(header: Buffer): number {
+  const length = header[1] & 0x7f;
+  if (length === 126) return header.readUInt16BE(2);
+  if (length === 127) return Number(header.readBigUInt64BE(2));
+  return length;
+}
@@ -2,23 +2,25 @@
  * Authentication Middleware
  *
  * Validates API requests using API Key + HMAC-SHA256 signature.
- * Protects all /projects routes from unauthorized access.
+ * Protects all /projects and /admin routes from unauthorized access.
+ *
+ * Keys, their secrets, scopes and project allowlists come from the keyring
+ * (see services/keyring).
  */
 
 import { createMiddleware } from 'hono/factory';
 import type { Context, Next } from 'hono';
-import {
-  generateSignature,
-  verifySignature,
-  isTimestampValid,
-} from '../lib/signature';
-
-const FLY_API_KEY = process.env.FLY_API_KEY || '';
-const FLY_API_SECRET = process.env.FLY_API_SECRET || '';
+import { isTimestampValid } from '../lib/signature';
+import { decodePathSegment } from '../lib/safe-path';
+import { keyring as defaultKeyring, hasScope, type Keyring } from '../services/keyring';
+import type { ApiKey, ApiKeyScope } from '../types';
 
 // Time tolerance for request timestamps (5 minutes)
 const TIMESTAMP_TOLERANCE_SECONDS = 300;
 
+// /projects/{segment} paths whose segment is not a project id
+const NON_PROJECT_SEGMENTS = new Set(['import']);
+
 interface AuthError {
   success: false;
   error: string;
@@ -33,89 +35,140 @@ function authError(message: string, code: string): AuthError {
   };
 }
 
+/**
+ * Scope a request needs: admin for /admin, read-only for reads, project-write otherwise
+ */
+function requiredScope(method: string, pathname: string): ApiKeyScope {
+  if (pathname === '/admin' || pathname.startsWith('/admin/')) return 'admin';
+  return method === 'GET' || method === 'HEAD' ? 'read-only' : 'project-write';
+}
+
+/**
+ * Projects a request touches: the id in the path and, for create/import/fork,
+ * the projectId in the body
+ */
+function requestProjectIds(pathname: string, body: string): string[] {
+  const ids: string[] = [];
+  const match = pathname.match(/^\/projects\/([^/]+)/);
+  if (match && !NON_PROJECT_SEGMENTS.has(match[1])) {
+    // Compare the id the route will see (%-encoded ids must not bypass the allowlist)
+    ids.push(decodePathSegment(match[1]));
+  }
+
+  if (body) {
+    try {
+      const projectId = (JSON.parse(body) as { projectId?: unknown } | null)?.projectId;
+      if (typeof projectId === 'string') ids.push(projectId);
+    } catch {
+      // Not JSON, no project in the body
+    }
+  }
+  return ids;
+}
+
 /**
  * Authentication middleware for API routes
  *
  * Validates:
  * 1. Required headers exist (X-API-Key, X-Timestamp, X-Signature)
- * 2. API key matches configured value
+ * 2. API key is in the keyring and enabled
  * 3. Timestamp is within acceptable range (prevents replay attacks)
- * 4. Signature is valid (ensures request integrity and authenticity)
+ * 4. Signature is valid for one of the key's active secrets
+ * 5. Key's scope and project allowlist cover the request (403 otherwise)
  */
-export const authMiddleware = createMiddleware(async (c: Context, next: Next) => {
-  // Skip auth if credentials are not configured (development mode)
-  if (!FLY_API_KEY || !FLY_API_SECRET) {
-    console.warn('[Auth] API credentials not configured, skipping authentication');
-    await next();
-    return;
-  }
+export function createAuthMiddleware(keyring: Keyring = defaultKeyring) {
+  return createMiddleware(async (c: Context, next: Next) => {
+    // Skip auth if credentials are not configured (development mode)
+    if (!keyring.isConfigured()) {
+      console.warn('[Auth] API credentials not configured, skipping authentication');
+      await next();
+      return;
+    }
 
-  const apiKey = c.req.header('X-API-Key');
-  const timestampStr = c.req.header('X-Timestamp');
-  const signature = c.req.header('X-Signature');
+    const apiKey = c.req.header('X-API-Key');
+    const timestampStr = c.req.header('X-Timestamp');
+    const signature = c.req.header('X-Signature');
+
+    // 1. Verify required headers exist
+    if (!apiKey || !timestampStr || !signature) {
+      console.warn('[Auth] Missing authentication headers');
+      return c.json(
+        authError('Missing authentication headers', 'AUTH_MISSING_HEADERS'),
+        401
+      );
+    }
 
-  // 1. Verify required headers exist
-  if (!apiKey || !timestampStr || !signature) {
-    console.warn('[Auth] Missing authentication headers');
-    return c.json(
-      authError('Missing authentication headers', 'AUTH_MISSING_HEADERS'),
-      401
-    );
-  }
+    // 2. Verify API key
+    const key = keyring.get(apiKey);
+    if (!key) {
+      console.warn('[Auth] Invalid API key');
+      return c.json(authError('Invalid API key', 'AUTH_INVALID_KEY'), 401);
+    }
 
-  // 2. Verify API key
-  if (apiKey !== FLY_API_KEY) {
-    console.warn('[Auth] Invalid API key');
-    return c.json(authError('Invalid API key', 'AUTH_INVALID_KEY'), 401);
-  }
+    // 3. Verify timestamp
+    const timestamp = parseInt(timestampStr, 10);
+    if (isNaN(timestamp)) {
+      console.warn('[Auth] Invalid timestamp format');
+      return c.json(
+        authError('Invalid timestamp format', 'AUTH_INVALID_TIMESTAMP'),
+        401
+      );
+    }
 
-  // 3. Verify timestamp
-  const timestamp = parseInt(timestampStr, 10);
-  if (isNaN(timestamp)) {
-    console.warn('[Auth] Invalid timestamp format');
-    return c.json(
-      authError('Invalid timestamp format', 'AUTH_INVALID_TIMESTAMP'),
-      401
-    );
-  }
+    if (!isTimestampValid(timestamp, TIMESTAMP_TOLERANCE_SECONDS)) {
+      console.warn(
+        `[Auth] Timestamp expired or invalid: ${timestamp} (current: ${Math.floor(Date.now() / 1000)})`
+      );
+      return c.json(
+        authError('Request timestamp expired', 'AUTH_TIMESTAMP_EXPIRED'),
+        401
+      );
+    }
 
-  if (!isTimestampValid(timestamp, TIMESTAMP_TOLERANCE_SECONDS)) {
-    console.warn(
-      `[Auth] Timestamp expired or invalid: ${timestamp} (current: ${Math.floor(Date.now() / 1000)})`
+    // 4. Verify signature
+    // We need to read the body for signature verification
+    const url = new URL(c.req.url);
+    const body = await c.req.text();
+
+    const isValid = keyring.verify(
+      key,
+      {
+        method: c.req.method,
+        path: url.pathname,
+        body: body || undefined,
+        timestamp,
+      },
+      signature
     );
-    return c.json(
-      authError('Request timestamp expired', 'AUTH_TIMESTAMP_EXPIRED'),
-      401
-    );
-  }
 
-  // 4. Verify signature
-  // We need to read the body for signature verification
-  const url = new URL(c.req.url);
-  const body = await c.req.text();
-
-  const isValid = verifySignature(
-    {
-      method: c.req.method,
-      path: url.pathname,
-      body: body || undefined,
-      timestamp,
-    },
-    signature,
-    FLY_API_SECRET
-  );
-
-  if (!isValid) {
-    console.warn('[Auth] Invalid signature');
-    return c.json(authError('Invalid signature', 'AUTH_INVALID_SIGNATURE'), 401);
-  }
+    if (!isValid) {
+      console.warn(`[Auth] Invalid signature (key: ${key.keyId})`);
+      return c.json(authError('Invalid signature', 'AUTH_INVALID_SIGNATURE'), 401);
+    }
 
-  // Store raw body for later use (since we already consumed it)
-  c.set('rawBody', body);
+    // 5. Verify scope and project allowlist
+    const scope = requiredScope(c.req.method, url.pathname);
+    if (!hasScope(key.scope, scope)) {
+      console.warn(`[Auth] Key ${key.keyId} (${key.scope}) lacks scope ${scope}: ${c.req.method} ${url.pathname}`);
+      return c.json(authError(`API key lacks the ${scope} scope`, 'AUTH_INSUFFICIENT_SCOPE'), 403);
+    }
 
-  // Authentication successful
-  await next();
-});
+    const forbidden = requestProjectIds(url.pathname, body).find(id => !keyring.canAccessProject(key, id));
+    if (forbidden) {
+      console.warn(`[Auth] Key ${key.keyId} may not access project ${forbidden}`);
+      return c.json(authError('API key may not access this project', 'AUTH_PROJECT_FORBIDDEN'), 403);
+    }
+
+    // Store raw body for later use (since we already consumed it)
+    c.set('rawBody', body);
+    c.set('apiKey', key);
+
+    // Authentication successful
+    await next();
+  });
+}
+
+export const authMiddleware = createAuthMiddleware();
 
 /**
  * Helper middleware to parse JSON body from stored raw body
@@ -144,6 +197,13 @@ export function getParsedBody<T>(c: Context): T | undefined {
   return c.get('parsedBody') as T | undefined;
 }
 
+/**
+ * Get the authenticated API key (undefined when auth is not configured)
+ */
+export function getApiKey(c: Context): ApiKey | undefined {
+  return c.get('apiKey') as ApiKey | undefined;
+}
+
 /**
  * Get raw body from context
  */
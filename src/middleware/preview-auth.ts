@@ -0,0 +1,57 @@
+/**
+ * Preview Authentication Middleware
+ *
+ * Guards /p/{projectId}/* for private projects (see services/preview-access).
+ * A valid ?token= is stored in the project's preview cookie so the page's
+ * assets and its HMR socket, which carry no token, are authorized too.
+ */
+
+import { createMiddleware } from 'hono/factory';
+import { setCookie } from 'hono/cookie';
+import type { Context, Next } from 'hono';
+import { previewAccess as defaultPreviewAccess, type PreviewAccess } from '../services/preview-access';
+import { decodePathSegment } from '../lib/safe-path';
+
+export function createPreviewAuthMiddleware(previewAccess: PreviewAccess = defaultPreviewAccess) {
+  return createMiddleware(async (c: Context, next: Next) => {
+    const match = new URL(c.req.url).pathname.match(/^\/p\/([^/]+)/);
+    if (!match) {
+      await next();
+      return;
+    }
+
+    // The preview route proxies by the decoded id, check that one (/p/%61bc/ is project abc)
+    const projectId = decodePathSegment(match[1]);
+    const queryToken = c.req.query('token');
+    const token = await previewAccess.authorize(projectId, {
+      token: queryToken,
+      cookieHeader: c.req.header('Cookie'),
+    });
+
+    if (token === null) {
+      console.warn(`[PreviewAuth] Denied preview of private project: ${projectId}`);
+      return c.json({
+        success: false,
+        error: queryToken ? 'Preview token invalid or expired' : 'Preview token required',
+        code: queryToken ? 'PREVIEW_TOKEN_INVALID' : 'PREVIEW_TOKEN_REQUIRED',
+      }, 401);
+    }
+
+    if (token && token === queryToken) {
+      const secure = new URL(c.req.url).protocol === 'https:' || c.req.header('X-Forwarded-Proto') === 'https';
+      // Path=/ so the HMR socket (/hmr/{projectId}) gets it as well; the preview is
+      // usually embedded cross-site, which needs SameSite=None (and therefore Secure)
+      setCookie(c, previewAccess.cookieName(projectId), token, {
+        path: '/',
+        httpOnly: true,
+        secure,
+        sameSite: secure ? 'None' : 'Lax',
+        maxAge: previewAccess.secondsLeft(token),
+      });
+    }
+
+    await next();
+  });
+}
+
+export const previewAuthMiddleware = createPreviewAuthMiddleware();
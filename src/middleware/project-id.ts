@@ -0,0 +1,27 @@
+/**
+ * Project Id Guard
+ *
+ * Rejects requests whose project id route param is not a project directory
+ * name (see lib/safe-path isProjectId), before any handler looks the id up.
+ */
+
+import { createMiddleware } from 'hono/factory';
+import type { Context, Next } from 'hono';
+import { isProjectId, InvalidProjectIdError } from '../lib/safe-path';
+import type { ApiResponse } from '../types';
+
+export function projectIdGuard(param: string) {
+  return createMiddleware(async (c: Context, next: Next) => {
+    const projectId = c.req.param(param);
+    if (projectId !== undefined && !isProjectId(projectId)) {
+      const error = new InvalidProjectIdError(projectId);
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
+
+    await next();
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Admin API Routes
+ *
+ * Server-wide maintenance operations. Requires an API key with the admin scope.
+ */
+
+import { Hono } from 'hono';
+import { retentionManager } from '../services/retention-manager';
+import { keyring } from '../services/keyring';
+import { templateManager } from '../services/template-manager';
+import { getTemplate, DEFAULT_TEMPLATE } from '../services/template-registry';
+import { warmPool } from '../services/warm-pool';
+import type { ApiResponse } from '../types';
+
+const app = new Hono();
+
+/**
+ * GET /admin/retention/preview - Dry run: projects the retention policy would remove now
+ */
+app.get('/retention/preview', async (c) => {
+  try {
+    const candidates = await retentionManager.preview();
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { count: candidates.length, projects: candidates },
+    });
+  } catch (error) {
+    console.error('[API] Retention preview error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /admin/retention/run - Archive and remove expired projects now
+ */
+app.post('/retention/run', async (c) => {
+  try {
+    const result = await retentionManager.run();
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('[API] Retention run error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /admin/rebuild-template?template=name - Force rebuild a template (default template if omitted)
+ * Use this when template becomes corrupted or after dependency updates
+ */
+app.post('/rebuild-template', async (c) => {
+  const templateName = c.req.query('template') || DEFAULT_TEMPLATE;
+  if (!getTemplate(templateName)) {
+    return c.json<ApiResponse>({
+      success: false,
+      error: `Unknown template: ${templateName}`,
+      code: 'UNKNOWN_TEMPLATE',
+    }, 400);
+  }
+
+  try {
+    console.log(`[Admin] Rebuilding template ${templateName}...`);
+    const start = Date.now();
+    await templateManager.rebuild(templateName);
+    // Warm instances were copied from the old default template
+    if (templateName === DEFAULT_TEMPLATE) {
+      await warmPool.drain();
+    }
+    const duration = Date.now() - start;
+
+    console.log(`[Admin] Template ${templateName} rebuilt in ${duration}ms`);
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        message: 'Template rebuilt successfully',
+        template: templateName,
+        duration,
+      },
+    });
+  } catch (error) {
+    console.error('[Admin] Failed to rebuild template:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to rebuild template',
+    }, 500);
+  }
+});
+
+/**
+ * GET /admin/template-status - Check template status
+ */
+app.get('/template-status', (c) => {
+  return c.json<ApiResponse>({
+    success: true,
+    data: {
+      ready: templateManager.isReady(),
+      path: templateManager.getTemplatePath(),
+      templates: templateManager.getStatus(),
+    },
+  });
+});
+
+/**
+ * GET /admin/keys - API keys in the keyring (scopes, allowlists and secret windows, no secrets)
+ */
+app.get('/keys', (c) => {
+  const keys = keyring.list();
+
+  return c.json<ApiResponse>({
+    success: true,
+    data: { count: keys.length, keys },
+  });
+});
+
+export default app;
@@ -4,7 +4,8 @@
 
 import { Hono } from 'hono';
 import { viteManager } from '../services/vite-manager';
-import { templateManager } from '../services/template-manager';
+import { resourceMonitor } from '../services/resource-monitor';
+import { warmPool } from '../services/warm-pool';
 import type { ApiResponse } from '../types';
 
 const app = new Hono();
@@ -44,20 +45,35 @@ app.get('/live', (c) => {
  */
 app.get('/metrics', (c) => {
   const instances = viteManager.getAllInstances();
+  const resources = resourceMonitor.getSnapshot();
 
   const metrics = {
     vite: {
       running: instances.filter(i => i.status === 'running').length,
+      degraded: instances.filter(i => i.status === 'degraded').length,
       starting: instances.filter(i => i.status === 'starting').length,
       error: instances.filter(i => i.status === 'error').length,
       total: instances.length,
+      queued: viteManager.getQueueLength(),
+      quarantinedPorts: viteManager.getQuarantinedPorts().map(q => q.port),
     },
     instances: instances.map(i => ({
       projectId: i.projectId,
       port: i.port,
       status: i.status,
       lastActive: i.lastActive.toISOString(),
+      pid: i.pid,
+      rssBytes: resourceMonitor.getUsage(i.projectId)?.rssBytes,
+      cpuPercent: resourceMonitor.getUsage(i.projectId)?.cpuPercent,
     })),
+    resources: {
+      memoryBudgetBytes: resources.memoryBudgetBytes,
+      instanceMemoryLimitBytes: resources.instanceMemoryLimitBytes,
+      totalRssBytes: resources.totalRssBytes,
+      sampledAt: resources.sampledAt,
+      evictions: resources.evictions,
+    },
+    warmPool: warmPool.getStatus(),
     uptime: process.uptime(),
     memory: process.memoryUsage(),
     timestamp: new Date().toISOString(),
@@ -81,45 +97,4 @@ app.get('/debug/instances', (c) => {
   });
 });
 
-/**
- * POST /admin/rebuild-template - Force rebuild template
- * Use this when template becomes corrupted or after dependency updates
- */
-app.post('/admin/rebuild-template', async (c) => {
-  try {
-    console.log('[Admin] Rebuilding template...');
-    const start = Date.now();
-    await templateManager.rebuild();
-    const duration = Date.now() - start;
-
-    console.log(`[Admin] Template rebuilt in ${duration}ms`);
-    return c.json<ApiResponse>({
-      success: true,
-      data: {
-        message: 'Template rebuilt successfully',
-        duration,
-      },
-    });
-  } catch (error) {
-    console.error('[Admin] Failed to rebuild template:', error);
-    return c.json<ApiResponse>({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to rebuild template',
-    }, 500);
-  }
-});
-
-/**
- * GET /admin/template-status - Check template status
- */
-app.get('/admin/template-status', (c) => {
-  return c.json<ApiResponse>({
-    success: true,
-    data: {
-      ready: templateManager.isReady(),
-      path: templateManager.getTemplatePath(),
-    },
-  });
-});
-
 export default app;
@@ -5,12 +5,32 @@
  * The auth middleware stores the raw request body in context after verification.
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { stream, streamSSE } from 'hono/streaming';
 import { projectManager } from '../services/project-manager';
-import type { ProjectConfig, FileUpdate, ApiResponse } from '../types';
+import { buildManager } from '../services/build-manager';
+import { logBuffer } from '../services/log-buffer';
+import { snapshotManager } from '../services/snapshot-manager';
+import { projectRegistry } from '../services/project-registry';
+import { diagnosticsManager } from '../services/diagnostics-manager';
+import { runtimeErrorStore } from '../services/runtime-error-store';
+import { crashSupervisor } from '../services/crash-supervisor';
+import { hmrProxy } from '../services/hmr-proxy';
+import { previewAccess } from '../services/preview-access';
+import { getApiKey } from '../middleware/auth';
+import { projectIdGuard } from '../middleware/project-id';
+import { PoolExhaustedError } from '../services/vite-manager';
+import { PathSecurityError, InvalidProjectIdError, assertProjectId } from '../lib/safe-path';
+import { UnknownTemplateError, listTemplates } from '../services/template-registry';
+import { ArchiveError, type ArchiveFormat } from '../lib/archive';
+import type { ProjectConfig, ForkConfig, FileUpdate, ApiResponse, LogEntry, ViteStatus } from '../types';
 
 const app = new Hono();
 
+// Internal directories (_template, _runtime, ...) and reserved names are never projects
+app.use('/:id', projectIdGuard('id'));
+app.use('/:id/*', projectIdGuard('id'));
+
 /**
  * Helper to get parsed JSON body from context
  * Auth middleware consumes the body for signature verification,
@@ -26,6 +46,53 @@ function getBody<T>(c: { get: (key: string) => unknown }): T | null {
   }
 }
 
+/**
+ * 503 with Retry-After for callers whose Vite start timed out in the port queue
+ * (create, import and fork have registered the project by then)
+ */
+function poolExhausted(c: Context, error: PoolExhaustedError) {
+  c.header('Retry-After', String(error.retryAfter));
+  return c.json<ApiResponse>({
+    success: false,
+    error: error.message,
+    code: 'POOL_EXHAUSTED',
+  }, 503);
+}
+
+/**
+ * GET /projects?owner=&status=&q=&template=&templateVersion=&outdated=&limit=&offset= - List projects from registry
+ * outdated=true lists projects copied from an older template version (see POST /:id/upgrade-template)
+ */
+app.get('/', async (c) => {
+  try {
+    const limit = c.req.query('limit');
+    const offset = c.req.query('offset');
+    const result = await projectRegistry.list({
+      owner: c.req.query('owner') || undefined,
+      status: (c.req.query('status') as ViteStatus) || undefined,
+      search: c.req.query('q') || undefined,
+      template: c.req.query('template') || undefined,
+      templateVersion: c.req.query('templateVersion') || undefined,
+      outdated: c.req.query('outdated') === 'true',
+      // Keys with a project allowlist only see their projects
+      projectIds: getApiKey(c)?.projects,
+      limit: limit ? parseInt(limit, 10) || undefined : undefined,
+      offset: offset ? parseInt(offset, 10) || undefined : undefined,
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('[API] List projects error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 /**
  * POST /projects - Create project
  */
@@ -47,6 +114,30 @@ app.post('/', async (c) => {
       data: result,
     });
   } catch (error) {
+    if (error instanceof PathSecurityError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
+    if (error instanceof UnknownTemplateError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `${error.message} (available: ${listTemplates().map(t => t.name).join(', ')})`,
+        code: 'UNKNOWN_TEMPLATE',
+      }, 400);
+    }
+    if (error instanceof InvalidProjectIdError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
+    if (error instanceof PoolExhaustedError) {
+      return poolExhausted(c, error);
+    }
     console.error('[API] Create project error:', error);
     return c.json<ApiResponse>({
       success: false,
@@ -55,6 +146,69 @@ app.post('/', async (c) => {
   }
 });
 
+/**
+ * POST /projects/import - Create project from an exported archive
+ * Body: { projectId, projectName?, description?, owner?, archive: base64 .tar.gz or .zip }
+ */
+app.post('/import', async (c) => {
+  try {
+    const body = getBody<Omit<ProjectConfig, 'files' | 'projectName'> & { projectName?: string; archive?: string }>(c);
+
+    if (!body || !body.projectId || !body.archive) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Missing required fields: projectId, archive',
+      }, 400);
+    }
+
+    const status = await projectManager.getStatus(body.projectId);
+    if (status.exists) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project already exists',
+      }, 409);
+    }
+
+    const { archive, ...config } = body;
+    const result = await projectManager.importProject(config, Buffer.from(archive, 'base64'));
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: 'ARCHIVE_INVALID',
+      }, 400);
+    }
+    if (error instanceof PathSecurityError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
+    if (error instanceof InvalidProjectIdError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
+    if (error instanceof PoolExhaustedError) {
+      return poolExhausted(c, error);
+    }
+    console.error('[API] Import project error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 /**
  * GET /projects/:id - Get project status
  */
@@ -62,10 +216,11 @@ app.get('/:id', async (c) => {
   try {
     const projectId = c.req.param('id');
     const status = await projectManager.getStatus(projectId);
+    const metadata = await projectRegistry.get(projectId);
 
     return c.json<ApiResponse>({
       success: true,
-      data: status,
+      data: { ...status, metadata },
     });
   } catch (error) {
     console.error('[API] Get project error:', error);
@@ -88,6 +243,13 @@ app.delete('/:id', async (c) => {
       success: true,
     });
   } catch (error) {
+    if (error instanceof InvalidProjectIdError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
     console.error('[API] Delete project error:', error);
     return c.json<ApiResponse>({
       success: false,
@@ -96,13 +258,270 @@ app.delete('/:id', async (c) => {
   }
 });
 
+/**
+ * POST /projects/:id/fork - Duplicate project under a new projectId
+ * Body: { projectId, projectName?, description?, owner? }
+ */
+app.post('/:id/fork', async (c) => {
+  try {
+    const sourceId = c.req.param('id');
+    const config = getBody<ForkConfig>(c);
+
+    if (!config || !config.projectId) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Missing required field: projectId',
+      }, 400);
+    }
+    if (config.projectId === sourceId) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Fork must use a different projectId',
+      }, 400);
+    }
+
+    // Before the existence check: internal directories (_builds, ...) exist too
+    assertProjectId(config.projectId);
+
+    const [source, target] = await Promise.all([
+      projectManager.getStatus(sourceId),
+      projectManager.getStatus(config.projectId),
+    ]);
+    if (!source.exists) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+    if (target.exists) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project already exists',
+      }, 409);
+    }
+
+    const result = await projectManager.forkProject(sourceId, config);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof InvalidProjectIdError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
+    if (error instanceof PoolExhaustedError) {
+      return poolExhausted(c, error);
+    }
+    console.error('[API] Fork project error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /projects/:id/export?format=tar.gz|zip - Download project source
+ * node_modules and build output are excluded
+ */
+app.get('/:id/export', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const format = (c.req.query('format') || 'tar.gz') as ArchiveFormat;
+
+    if (format !== 'tar.gz' && format !== 'zip') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'format must be tar.gz or zip',
+      }, 400);
+    }
+
+    const status = await projectManager.getStatus(projectId);
+    if (!status.exists) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+
+    const archive = projectManager.exportProject(projectId, format);
+    const filename = `${projectId.replace(/[^a-zA-Z0-9_-]/g, '')}.${format}`;
+
+    c.header('Content-Type', format === 'zip' ? 'application/zip' : 'application/gzip');
+    c.header('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return stream(c, async (s) => {
+      s.onAbort(() => {
+        archive.destroy();
+      });
+      for await (const chunk of archive) {
+        await s.write(chunk);
+      }
+    }, async (error, s) => {
+      console.error(`[API] Export stream error for ${projectId}:`, error);
+      s.abort();
+    });
+  } catch (error) {
+    console.error('[API] Export project error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * PUT /projects/:id/retention - Update retention policy
+ * Body: { pinned?: boolean, ttlSeconds?: number | null } - null resets TTL to server default
+ */
+app.put('/:id/retention', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const body = getBody<{ pinned?: boolean; ttlSeconds?: number | null }>(c);
+
+    if (!body || (body.pinned === undefined && body.ttlSeconds === undefined)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Missing required fields: pinned or ttlSeconds',
+      }, 400);
+    }
+    if (body.pinned !== undefined && typeof body.pinned !== 'boolean') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'pinned must be a boolean',
+      }, 400);
+    }
+    if (body.ttlSeconds !== undefined && body.ttlSeconds !== null
+      && (typeof body.ttlSeconds !== 'number' || !Number.isFinite(body.ttlSeconds) || body.ttlSeconds < 0)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'ttlSeconds must be a non-negative number',
+      }, 400);
+    }
+
+    const changes: { pinned?: boolean; ttlSeconds?: number } = {};
+    if (body.pinned !== undefined) changes.pinned = body.pinned;
+    if (body.ttlSeconds !== undefined) changes.ttlSeconds = body.ttlSeconds ?? undefined;
+
+    const record = await projectRegistry.update(projectId, changes);
+    if (!record) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { pinned: !!record.pinned, ttlSeconds: record.ttlSeconds ?? null },
+    });
+  } catch (error) {
+    console.error('[API] Update retention error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * PUT /projects/:id/visibility - Make the preview private (token required) or public
+ * Body: { private: boolean }
+ */
+app.put('/:id/visibility', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const body = getBody<{ private?: boolean }>(c);
+
+    if (!body || typeof body.private !== 'boolean') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'private must be a boolean',
+      }, 400);
+    }
+
+    const record = await projectRegistry.update(projectId, { private: body.private });
+    if (!record) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { private: await previewAccess.isPrivate(projectId) },
+    });
+  } catch (error) {
+    console.error('[API] Update visibility error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /projects/:id/preview-token - Mint a token for the project's preview
+ * Body: { ttlSeconds?: number } - defaults to PREVIEW_TOKEN_TTL_SECONDS, capped at 24h
+ */
+app.post('/:id/preview-token', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const body = getBody<{ ttlSeconds?: number }>(c);
+
+    if (body?.ttlSeconds !== undefined
+      && (typeof body.ttlSeconds !== 'number' || !Number.isFinite(body.ttlSeconds) || body.ttlSeconds <= 0)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'ttlSeconds must be a positive number',
+      }, 400);
+    }
+    if (!(await projectRegistry.get(projectId))) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+    if (!previewAccess.isEnabled()) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Preview tokens are not configured (set PREVIEW_TOKEN_SECRET)',
+        code: 'PREVIEW_TOKENS_DISABLED',
+      }, 400);
+    }
+
+    const { token, expiresAt } = previewAccess.mintToken(projectId, body?.ttlSeconds);
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        token,
+        expiresAt,
+        previewUrl: `/p/${projectId}/?token=${token}`,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Preview token error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 /**
  * PUT /projects/:id/files - Update project files
+ * Body: { updates: FileUpdate[], validate?: boolean } - applied all-or-nothing
  */
 app.put('/:id/files', async (c) => {
   try {
     const projectId = c.req.param('id');
-    const body = getBody<{ updates: FileUpdate[] }>(c);
+    const body = getBody<{ updates: FileUpdate[]; validate?: boolean }>(c);
 
     if (!body || !body.updates || !Array.isArray(body.updates)) {
       return c.json<ApiResponse>({
@@ -111,10 +530,21 @@ app.put('/:id/files', async (c) => {
       }, 400);
     }
 
-    await projectManager.updateFiles(projectId, body.updates);
+    const result = await projectManager.updateFiles(projectId, body.updates, {
+      validate: body.validate ?? false,
+    });
+
+    if (!result.success) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Update batch rejected: ${result.errors.length} file(s) failed`,
+        data: { errors: result.errors },
+      }, 422);
+    }
 
     return c.json<ApiResponse>({
       success: true,
+      data: { applied: result.applied },
     });
   } catch (error) {
     console.error('[API] Update files error:', error);
@@ -175,6 +605,13 @@ app.get('/:id/files/*', async (c) => {
       data: { path: filePath, content },
     });
   } catch (error) {
+    if (error instanceof PathSecurityError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: error.code,
+      }, 400);
+    }
     console.error('[API] Read file error:', error);
     return c.json<ApiResponse>({
       success: false,
@@ -189,6 +626,9 @@ app.get('/:id/files/*', async (c) => {
 app.post('/:id/preview/start', async (c) => {
   try {
     const projectId = c.req.param('id');
+
+    // Explicit start clears a crash loop so the supervisor restarts it again
+    crashSupervisor.reset(projectId);
     const result = await projectManager.startPreview(projectId);
 
     return c.json<ApiResponse>({
@@ -196,6 +636,9 @@ app.post('/:id/preview/start', async (c) => {
       data: result,
     });
   } catch (error) {
+    if (error instanceof PoolExhaustedError) {
+      return poolExhausted(c, error);
+    }
     console.error('[API] Start preview error:', error);
     return c.json<ApiResponse>({
       success: false,
@@ -245,21 +688,60 @@ app.post('/:id/reinstall', async (c) => {
 });
 
 /**
- * POST /projects/:id/dependencies - Add dependency
+ * POST /projects/:id/upgrade-template?dryRun=true - Upgrade config files and template
+ * dependencies (including jsx-tagger) to the installed template version
+ * dryRun=true only returns the changes; otherwise a snapshot is taken first (snapshotId)
  */
-app.post('/:id/dependencies', async (c) => {
+app.post('/:id/upgrade-template', async (c) => {
   try {
     const projectId = c.req.param('id');
-    const body = getBody<{ package: string; dev?: boolean }>(c);
+    const status = await projectManager.getStatus(projectId);
 
-    if (!body || !body.package) {
+    if (!status.exists) {
       return c.json<ApiResponse>({
         success: false,
-        error: 'Missing package name',
-      }, 400);
+        error: 'Project not found',
+      }, 404);
     }
 
-    await projectManager.addDependency(projectId, body.package, body.dev ?? false);
+    const result = await projectManager.upgradeTemplate(projectId, c.req.query('dryRun') === 'true');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnknownTemplateError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: error.message,
+        code: 'UNKNOWN_TEMPLATE',
+      }, 400);
+    }
+    console.error('[API] Upgrade template error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /projects/:id/dependencies - Add dependency
+ */
+app.post('/:id/dependencies', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const body = getBody<{ package: string; dev?: boolean }>(c);
+
+    if (!body || !body.package) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Missing package name',
+      }, 400);
+    }
+
+    await projectManager.addDependency(projectId, body.package, body.dev ?? false);
 
     return c.json<ApiResponse>({
       success: true,
@@ -295,4 +777,476 @@ app.delete('/:id/dependencies/:package', async (c) => {
   }
 });
 
+/**
+ * POST /projects/:id/build - Run production build and publish to /s/:id/
+ */
+app.post('/:id/build', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const status = await projectManager.getStatus(projectId);
+
+    if (!status.exists) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+
+    const record = await projectManager.buildProject(projectId);
+
+    if (record.status !== 'success') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: record.error || 'Build failed',
+        data: record,
+      }, 422);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        ...record,
+        publishedUrl: `/s/${projectId}/`,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Build error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /projects/:id/builds - List builds (logs omitted)
+ */
+app.get('/:id/builds', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const manifest = await buildManager.listBuilds(projectId);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        activeVersion: manifest.activeVersion,
+        building: buildManager.isBuilding(projectId),
+        builds: manifest.builds.map(({ logs, ...build }) => build),
+      },
+    });
+  } catch (error) {
+    console.error('[API] List builds error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /projects/:id/builds/:version - Get build details including logs
+ */
+app.get('/:id/builds/:version', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const version = c.req.param('version');
+    const record = await buildManager.getBuild(projectId, version);
+
+    if (!record) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Build not found',
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: record,
+    });
+  } catch (error) {
+    console.error('[API] Get build error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /projects/:id/builds/:version/activate - Switch published version
+ */
+app.post('/:id/builds/:version/activate', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const version = c.req.param('version');
+    const record = await buildManager.activate(projectId, version);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        activeVersion: record.version,
+        publishedUrl: `/s/${projectId}/`,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Activate build error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 400);
+  }
+});
+
+/**
+ * GET /projects/:id/diagnostics?eslint=true - Type-check (and lint) project
+ * Returns per-file, per-line diagnostics
+ */
+app.get('/:id/diagnostics', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const status = await projectManager.getStatus(projectId);
+
+    if (!status.exists) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+
+    const result = await diagnosticsManager.check(projectId, projectManager.getProjectPath(projectId), {
+      eslint: c.req.query('eslint') === 'true',
+    });
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('[API] Diagnostics error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /projects/:id/disk - Disk usage (own vs. shared with the template)
+ */
+app.get('/:id/disk', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const usage = await projectManager.getDiskUsage(projectId);
+
+    if (!usage) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: usage,
+    });
+  } catch (error) {
+    console.error('[API] Disk usage error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * Respond to an HMR push: 404 for unknown projects, otherwise the number of clients reached
+ */
+async function pushHmr(c: Context, projectId: string, push: () => number): Promise<Response> {
+  const status = await projectManager.getStatus(projectId);
+  if (!status.exists) {
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Project not found',
+    }, 404);
+  }
+
+  return c.json<ApiResponse>({
+    success: true,
+    data: { delivered: push() },
+  });
+}
+
+/**
+ * POST /projects/:id/hmr/reload - Full reload of every open preview
+ * Body (optional): { path } - only pages showing this HTML file reload
+ */
+app.post('/:id/hmr/reload', async (c) => {
+  const body = getBody<{ path?: string }>(c);
+  return pushHmr(c, c.req.param('id'), () => hmrProxy.reload(c.req.param('id'), body?.path || undefined));
+});
+
+/**
+ * POST /projects/:id/hmr/update - Hot-update specific modules
+ * Body: { paths: string[] } - project-relative, e.g. ["src/App.tsx"]
+ */
+app.post('/:id/hmr/update', async (c) => {
+  const body = getBody<{ paths?: unknown }>(c);
+  const paths = body?.paths;
+
+  if (!Array.isArray(paths) || paths.length === 0 ||
+      !paths.every(path => typeof path === 'string' && path.length > 0 && !path.split('/').includes('..'))) {
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'paths must be a non-empty array of project-relative paths',
+    }, 400);
+  }
+
+  return pushHmr(c, c.req.param('id'), () => hmrProxy.update(c.req.param('id'), paths));
+});
+
+/**
+ * POST /projects/:id/hmr/custom - Send a custom event (vite:custom)
+ * Body: { event: string, data?: unknown } - received by import.meta.hot.on(event)
+ */
+app.post('/:id/hmr/custom', async (c) => {
+  const body = getBody<{ event?: unknown; data?: unknown }>(c);
+
+  if (!body || typeof body.event !== 'string' || body.event.length === 0) {
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Missing required field: event',
+    }, 400);
+  }
+
+  const event = body.event;
+  return pushHmr(c, c.req.param('id'), () => hmrProxy.custom(c.req.param('id'), event, body.data));
+});
+
+/**
+ * GET /projects/:id/sessions - Collaborators connected over /hmr (identity, role, selection)
+ */
+app.get('/:id/sessions', (c) => {
+  const sessions = hmrProxy.getSessions(c.req.param('id'));
+
+  return c.json<ApiResponse>({
+    success: true,
+    data: {
+      count: sessions.length,
+      viewers: sessions.filter(session => session.role === 'viewer').length,
+      editors: sessions.filter(session => session.role === 'editor').length,
+      sessions,
+    },
+  });
+});
+
+/**
+ * GET /projects/:id/runtime-errors?since= - Errors reported by the preview page
+ * `since` (ISO timestamp) limits the result to errors seen after it
+ */
+app.get('/:id/runtime-errors', (c) => {
+  const projectId = c.req.param('id');
+  const errors = runtimeErrorStore.list(projectId, c.req.query('since') || undefined);
+
+  return c.json<ApiResponse>({
+    success: true,
+    data: {
+      count: errors.length,
+      errors,
+    },
+  });
+});
+
+/**
+ * DELETE /projects/:id/runtime-errors - Clear reported errors (e.g. after a fix)
+ */
+app.delete('/:id/runtime-errors', (c) => {
+  runtimeErrorStore.clear(c.req.param('id'));
+
+  return c.json<ApiResponse>({
+    success: true,
+  });
+});
+
+/**
+ * GET /projects/:id/logs?since= - Read buffered Vite logs
+ */
+app.get('/:id/logs', (c) => {
+  const projectId = c.req.param('id');
+  const since = parseInt(c.req.query('since') || '0', 10) || 0;
+  const entries = logBuffer.getLogs(projectId, since);
+
+  return c.json<ApiResponse>({
+    success: true,
+    data: {
+      entries,
+      lastSeq: entries.length > 0 ? entries[entries.length - 1].seq : since,
+    },
+  });
+});
+
+/**
+ * GET /projects/:id/logs/stream - Stream Vite logs via Server-Sent Events
+ * Replays buffered entries after Last-Event-ID (or ?since=) before streaming live ones
+ */
+app.get('/:id/logs/stream', (c) => {
+  const projectId = c.req.param('id');
+  const since = parseInt(c.req.header('Last-Event-ID') || c.req.query('since') || '0', 10) || 0;
+
+  return streamSSE(c, async (stream) => {
+    const pending: LogEntry[] = logBuffer.getLogs(projectId, since);
+    let wake: (() => void) | null = null;
+
+    const unsubscribe = logBuffer.subscribe(projectId, (entry) => {
+      pending.push(entry);
+      wake?.();
+    });
+    stream.onAbort(() => {
+      unsubscribe();
+      wake?.();
+    });
+
+    try {
+      while (!stream.aborted) {
+        while (pending.length > 0) {
+          const entry = pending.shift()!;
+          await stream.writeSSE({
+            id: String(entry.seq),
+            event: 'log',
+            data: JSON.stringify(entry),
+          });
+        }
+
+        // Wait for new entries, send keep-alive every 15s so proxies keep the connection open
+        const timedOut = await new Promise<boolean>((resolve) => {
+          const timer = setTimeout(() => resolve(true), 15000);
+          wake = () => {
+            clearTimeout(timer);
+            resolve(false);
+          };
+        });
+        wake = null;
+
+        if (timedOut && !stream.aborted) {
+          await stream.writeSSE({ event: 'ping', data: '' });
+        }
+      }
+    } finally {
+      unsubscribe();
+    }
+  });
+});
+
+/**
+ * GET /projects/:id/snapshots - List snapshots (newest first)
+ */
+app.get('/:id/snapshots', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const snapshots = await snapshotManager.list(projectId);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { snapshots },
+    });
+  } catch (error) {
+    console.error('[API] List snapshots error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * POST /projects/:id/snapshots - Create snapshot on demand
+ */
+app.post('/:id/snapshots', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const body = getBody<{ label?: string }>(c);
+    const status = await projectManager.getStatus(projectId);
+
+    if (!status.exists) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Project not found',
+      }, 404);
+    }
+
+    const snapshot = await projectManager.createSnapshot(projectId, body?.label);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: snapshot,
+    });
+  } catch (error) {
+    console.error('[API] Create snapshot error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+/**
+ * GET /projects/:id/snapshots/diff?from=&to=&content=true - Diff two snapshots
+ */
+app.get('/:id/snapshots/diff', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+
+    if (!from || !to) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Missing required query parameters: from, to',
+      }, 400);
+    }
+
+    const diff = await snapshotManager.diff(projectId, from, to, c.req.query('content') === 'true');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    console.error('[API] Diff snapshots error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 400);
+  }
+});
+
+/**
+ * POST /projects/:id/snapshots/:snapId/restore - Restore project to snapshot
+ */
+app.post('/:id/snapshots/:snapId/restore', async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const snapshotId = c.req.param('snapId');
+
+    if (!(await snapshotManager.get(projectId, snapshotId))) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Snapshot not found',
+      }, 404);
+    }
+
+    const result = await projectManager.restoreSnapshot(projectId, snapshotId);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('[API] Restore snapshot error:', error);
+    return c.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
 export default app;
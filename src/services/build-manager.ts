@@ -0,0 +1,299 @@
+/**
+ * Build Manager
+ * Runs production `vite build` for projects and stores the output as versioned artifacts
+ *
+ * Layout:
+ *   {BUILDS_DIR}/{projectId}/manifest.json - build history and active version
+ *   {BUILDS_DIR}/{projectId}/{version}/    - dist output of a single build
+ *
+ * Published versions are served from /s/{projectId}/ without a running Vite instance.
+ */
+
+import { spawn } from 'child_process';
+import { mkdir, readFile, writeFile, rm, stat } from 'fs/promises';
+import { join, resolve, normalize, extname, sep } from 'path';
+import type { BuildManifest, BuildRecord } from '../types';
+
+const DATA_DIR = process.env.DATA_DIR || '/data/sites';
+// Stored next to project directories; has no package.json so idle cleanup never touches it
+const BUILDS_DIR = process.env.BUILDS_DIR || join(DATA_DIR, '_builds');
+
+const BUILD_TIMEOUT = 5 * 60 * 1000;      // 5 minutes
+const MAX_BUILDS_PER_PROJECT = 5;         // Older successful builds are pruned
+const MAX_LOG_LINES = 500;
+
+export class BuildManager {
+  private bunBinary = process.env.BUN_BINARY || process.execPath;
+  private building: Map<string, Promise<BuildRecord>> = new Map();
+  private manifests: Map<string, BuildManifest> = new Map();
+
+  constructor(private buildsDir: string = BUILDS_DIR) {}
+
+  /**
+   * Build project and publish the result as the active version
+   * Concurrent calls for the same project share one build
+   */
+  async build(projectId: string, projectPath: string): Promise<BuildRecord> {
+    const existing = this.building.get(projectId);
+    if (existing) {
+      console.log(`[BuildManager] Waiting for existing build: ${projectId}`);
+      return existing;
+    }
+
+    const promise = this.runBuild(projectId, projectPath);
+    this.building.set(projectId, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.building.delete(projectId);
+    }
+  }
+
+  private async runBuild(projectId: string, projectPath: string): Promise<BuildRecord> {
+    const manifest = await this.getManifest(projectId);
+    const version = this.nextVersion(manifest);
+    const outDir = join(this.getProjectBuildsDir(projectId), version);
+    const start = Date.now();
+
+    const record: BuildRecord = {
+      version,
+      status: 'building',
+      startedAt: new Date(start).toISOString(),
+      logs: [],
+    };
+    manifest.builds.push(record);
+    await this.saveManifest(manifest);
+
+    console.log(`[BuildManager] Building ${projectId} (${version})...`);
+
+    const code = await this.runViteBuild(projectId, projectPath, outDir, record.logs);
+
+    record.finishedAt = new Date().toISOString();
+    record.duration = Date.now() - start;
+    if (record.logs.length > MAX_LOG_LINES) {
+      record.logs.splice(0, record.logs.length - MAX_LOG_LINES);
+    }
+
+    if (code === 0) {
+      record.status = 'success';
+      manifest.activeVersion = version;
+      console.log(`[BuildManager] Built ${projectId} (${version}) in ${record.duration}ms`);
+    } else {
+      record.status = 'failed';
+      record.error = this.extractError(record.logs) || `vite build exited with code ${code}`;
+      console.error(`[BuildManager] Build failed for ${projectId} (${version}): ${record.error}`);
+      await rm(outDir, { recursive: true, force: true }).catch(() => {});
+    }
+
+    await this.pruneBuilds(manifest);
+    await this.saveManifest(manifest);
+
+    return record;
+  }
+
+  /**
+   * Spawn `vite build` with the published base path, resolving with the exit code
+   */
+  private runViteBuild(
+    projectId: string,
+    projectPath: string,
+    outDir: string,
+    logs: string[]
+  ): Promise<number | null> {
+    return new Promise((resolve) => {
+      const proc = spawn(this.bunBinary, [
+        'run', 'vite', 'build',
+        '--base', `/s/${projectId}/`,
+        '--outDir', outDir,
+        '--emptyOutDir',
+      ], {
+        cwd: projectPath,
+        env: { ...process.env, NODE_ENV: 'production', CI: 'true' },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      const timer = setTimeout(() => {
+        logs.push(`Build timeout after ${BUILD_TIMEOUT}ms`);
+        proc.kill('SIGKILL');
+      }, BUILD_TIMEOUT);
+
+      const collect = (data: Buffer) => {
+        for (const line of data.toString().split('\n')) {
+          if (line.trim()) logs.push(line);
+        }
+      };
+      proc.stdout?.on('data', collect);
+      proc.stderr?.on('data', collect);
+
+      proc.on('close', (code) => {
+        clearTimeout(timer);
+        resolve(code);
+      });
+
+      proc.on('error', (error) => {
+        clearTimeout(timer);
+        logs.push(`Error: ${error.message}`);
+        resolve(null);
+      });
+    });
+  }
+
+  /**
+   * List builds of a project (newest first)
+   */
+  async listBuilds(projectId: string): Promise<BuildManifest> {
+    const manifest = await this.getManifest(projectId);
+    return {
+      ...manifest,
+      builds: [...manifest.builds].reverse(),
+    };
+  }
+
+  /**
+   * Get single build record
+   */
+  async getBuild(projectId: string, version: string): Promise<BuildRecord | null> {
+    const manifest = await this.getManifest(projectId);
+    return manifest.builds.find(b => b.version === version) ?? null;
+  }
+
+  /**
+   * Switch the published version to a previous successful build
+   */
+  async activate(projectId: string, version: string): Promise<BuildRecord> {
+    const manifest = await this.getManifest(projectId);
+    const record = manifest.builds.find(b => b.version === version);
+
+    if (!record) {
+      throw new Error(`Build not found: ${version}`);
+    }
+    if (record.status !== 'success') {
+      throw new Error(`Build ${version} is not a successful build (status: ${record.status})`);
+    }
+
+    manifest.activeVersion = version;
+    await this.saveManifest(manifest);
+    console.log(`[BuildManager] Activated ${projectId} (${version})`);
+
+    return record;
+  }
+
+  /**
+   * Resolve a request path under /s/{projectId}/ to a file in the active build
+   * Returns null if nothing is published or the path escapes the build directory
+   */
+  async resolveAssetPath(projectId: string, requestPath: string): Promise<string | null> {
+    const manifest = await this.getManifest(projectId);
+    if (!manifest.activeVersion) return null;
+
+    const root = join(this.getProjectBuildsDir(projectId), manifest.activeVersion);
+    const target = resolve(root, '.' + normalize('/' + requestPath));
+
+    if (target !== root && !target.startsWith(root + sep)) {
+      return null;
+    }
+
+    try {
+      const stats = await stat(target);
+      if (stats.isFile()) return target;
+      if (stats.isDirectory()) return await this.existingFile(join(target, 'index.html'));
+    } catch {
+      // Fall through to SPA fallback
+    }
+
+    // SPA fallback: extension-less paths are client-side routes
+    if (!extname(target)) {
+      return await this.existingFile(join(root, 'index.html'));
+    }
+
+    return null;
+  }
+
+  /**
+   * Remove all builds of a project
+   */
+  async removeBuilds(projectId: string): Promise<void> {
+    this.manifests.delete(projectId);
+    await rm(this.getProjectBuildsDir(projectId), { recursive: true, force: true });
+  }
+
+  /**
+   * Check if a build is currently running
+   */
+  isBuilding(projectId: string): boolean {
+    return this.building.has(projectId);
+  }
+
+  private getProjectBuildsDir(projectId: string): string {
+    const safeId = projectId.replace(/[^a-zA-Z0-9_-]/g, '');
+    return join(this.buildsDir, safeId);
+  }
+
+  private async getManifest(projectId: string): Promise<BuildManifest> {
+    const cached = this.manifests.get(projectId);
+    if (cached) return cached;
+
+    let manifest: BuildManifest;
+    try {
+      const content = await readFile(join(this.getProjectBuildsDir(projectId), 'manifest.json'), 'utf-8');
+      manifest = JSON.parse(content);
+    } catch {
+      manifest = { projectId, activeVersion: null, builds: [] };
+    }
+
+    this.manifests.set(projectId, manifest);
+    return manifest;
+  }
+
+  private async saveManifest(manifest: BuildManifest): Promise<void> {
+    const dir = this.getProjectBuildsDir(manifest.projectId);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+  }
+
+  private nextVersion(manifest: BuildManifest): string {
+    const latest = manifest.builds.reduce((max, b) => {
+      const n = parseInt(b.version.slice(1), 10);
+      return isNaN(n) ? max : Math.max(max, n);
+    }, 0);
+    return `v${latest + 1}`;
+  }
+
+  /**
+   * Keep the newest successful builds (plus the active one), drop the rest
+   */
+  private async pruneBuilds(manifest: BuildManifest): Promise<void> {
+    const successful = manifest.builds.filter(b => b.status === 'success');
+    const excess = successful.slice(0, Math.max(0, successful.length - MAX_BUILDS_PER_PROJECT));
+
+    for (const record of excess) {
+      if (record.version === manifest.activeVersion) continue;
+      await rm(join(this.getProjectBuildsDir(manifest.projectId), record.version), { recursive: true, force: true });
+      manifest.builds = manifest.builds.filter(b => b !== record);
+    }
+
+    // Failed builds only keep their logs; cap history length as well
+    const failed = manifest.builds.filter(b => b.status === 'failed');
+    if (failed.length > MAX_BUILDS_PER_PROJECT) {
+      const drop = new Set(failed.slice(0, failed.length - MAX_BUILDS_PER_PROJECT));
+      manifest.builds = manifest.builds.filter(b => !drop.has(b));
+    }
+  }
+
+  private extractError(logs: string[]): string | undefined {
+    const errorLine = logs.find(line => /error/i.test(line));
+    return errorLine?.trim();
+  }
+
+  private async existingFile(filePath: string): Promise<string | null> {
+    try {
+      const stats = await stat(filePath);
+      return stats.isFile() ? filePath : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const buildManager = new BuildManager();
@@ -0,0 +1,212 @@
+/**
+ * Crash Supervisor
+ * Restarts Vite processes that exit unexpectedly, with exponential backoff
+ *
+ * Fed by ViteDevServerManager 'exit' (unexpected) and 'log' (stderr) events.
+ * After `maxCrashes` crashes within `window` the project is given up on and
+ * marked as crash-looping until it is started manually or its files change.
+ */
+
+import { EventEmitter } from 'events';
+import { viteManager, isServing } from './vite-manager';
+import type { CrashState, ExitEvent, LogEvent } from '../types';
+
+// Vite colors its terminal output, strip escape codes for UI consumption
+const ANSI_PATTERN = /\x1b\[[0-9;]*[a-zA-Z]/g;
+
+export interface CrashSupervisorOptions {
+  /** Crashes within `window` before giving up */
+  maxCrashes: number;
+  /** Sliding window for counting crashes (ms) */
+  window: number;
+  /** First restart delay (ms), doubled per consecutive crash */
+  baseDelay: number;
+  maxDelay: number;
+  /** stderr lines kept per project */
+  stderrLines: number;
+}
+
+const DEFAULT_OPTIONS: CrashSupervisorOptions = {
+  maxCrashes: 5,
+  window: 10 * 60 * 1000,  // 10 minutes
+  baseDelay: 1000,
+  maxDelay: 30 * 1000,
+  stderrLines: 20,
+};
+
+interface SupervisedProject {
+  crashes: number[];
+  totalCrashes: number;
+  lastExitCode: number | null;
+  lastCrashAt?: number;
+  stderr: string[];
+  /** Directory of the crashed process, where it is restarted */
+  projectPath?: string;
+  timer: NodeJS.Timeout | null;
+  nextRestartAt?: number;
+  gaveUp: boolean;
+  reason?: string;
+}
+
+export class CrashSupervisor extends EventEmitter {
+  private options: CrashSupervisorOptions;
+  private projects: Map<string, SupervisedProject> = new Map();
+
+  constructor(
+    source: EventEmitter,
+    options: Partial<CrashSupervisorOptions> = {},
+    private restart: (projectId: string, projectPath: string) => Promise<unknown> = (projectId, projectPath) => viteManager.start(projectId, projectPath),
+    // Skip if something else (proxy auto-start, manual start) already brought it back
+    private canRestart: (projectId: string) => boolean = (projectId) =>
+      !viteManager.isProjectActive(projectId) && !isServing(viteManager.getInstance(projectId)?.status)
+  ) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    source.on('log', (event: LogEvent) => {
+      if (event.type === 'stderr') this.recordStderr(event.projectId, event.message);
+    });
+
+    source.on('exit', (event: ExitEvent) => {
+      if (event.unexpected) this.handleCrash(event.projectId, event.projectPath, event.code);
+    });
+  }
+
+  /**
+   * Crash state of a project, null if it never crashed
+   */
+  getState(projectId: string): CrashState | null {
+    const project = this.projects.get(projectId);
+    if (!project || project.totalCrashes === 0) return null;
+
+    return {
+      recentCrashes: this.recentCrashes(project).length,
+      totalCrashes: project.totalCrashes,
+      lastExitCode: project.lastExitCode,
+      lastCrashAt: project.lastCrashAt ? new Date(project.lastCrashAt).toISOString() : undefined,
+      stderrTail: [...project.stderr],
+      restarting: project.timer !== null,
+      nextRestartAt: project.nextRestartAt ? new Date(project.nextRestartAt).toISOString() : undefined,
+      gaveUp: project.gaveUp,
+      reason: project.reason,
+    };
+  }
+
+  /**
+   * Whether the supervisor gave up on a crash-looping project
+   */
+  isGivenUp(projectId: string): boolean {
+    return this.projects.get(projectId)?.gaveUp ?? false;
+  }
+
+  /**
+   * Forget crash history (manual start or changed files may have fixed the cause)
+   */
+  reset(projectId: string): void {
+    const project = this.projects.get(projectId);
+    if (!project) return;
+
+    this.cancelRestart(project);
+    project.crashes = [];
+    project.gaveUp = false;
+    project.reason = undefined;
+  }
+
+  /**
+   * Drop all state of a project (deleted)
+   */
+  clear(projectId: string): void {
+    const project = this.projects.get(projectId);
+    if (project) this.cancelRestart(project);
+    this.projects.delete(projectId);
+  }
+
+  /**
+   * Cancel all pending restarts (shutdown)
+   */
+  destroy(): void {
+    for (const project of this.projects.values()) {
+      this.cancelRestart(project);
+    }
+  }
+
+  private handleCrash(projectId: string, projectPath: string, code: number | null): void {
+    const project = this.getProject(projectId);
+    const now = Date.now();
+
+    project.projectPath = projectPath;
+    project.crashes.push(now);
+    project.totalCrashes++;
+    project.lastExitCode = code;
+    project.lastCrashAt = now;
+    project.crashes = this.recentCrashes(project);
+
+    if (project.crashes.length >= this.options.maxCrashes) {
+      this.cancelRestart(project);
+      project.gaveUp = true;
+      project.reason = `Crashed ${project.crashes.length} times within ${Math.round(this.options.window / 1000)}s (last exit code ${code})`
+        + (project.stderr.length > 0 ? `: ${project.stderr[project.stderr.length - 1]}` : '');
+      console.error(`[CrashSupervisor] Giving up on ${projectId}: ${project.reason}`);
+      this.emit('gave-up', { projectId, reason: project.reason });
+      return;
+    }
+
+    if (project.timer) return;
+
+    const delay = Math.min(
+      this.options.baseDelay * 2 ** (project.crashes.length - 1),
+      this.options.maxDelay
+    );
+    project.nextRestartAt = now + delay;
+    console.warn(`[CrashSupervisor] ${projectId} crashed (code ${code}), restarting in ${delay}ms (${project.crashes.length}/${this.options.maxCrashes})`);
+
+    project.timer = setTimeout(() => {
+      project.timer = null;
+      project.nextRestartAt = undefined;
+      if (project.gaveUp || !this.canRestart(projectId)) return;
+
+      this.restart(projectId, project.projectPath!).then(() => {
+        this.emit('restarted', { projectId });
+      }).catch((error) => {
+        // A failed start is not a crash, the preview stays down until it is started again
+        console.error(`[CrashSupervisor] Restart failed for ${projectId}:`, error instanceof Error ? error.message : error);
+      });
+    }, delay);
+    project.timer.unref?.();
+  }
+
+  private recordStderr(projectId: string, message: string): void {
+    const project = this.getProject(projectId);
+    for (const line of message.split('\n')) {
+      const clean = line.replace(ANSI_PATTERN, '').trimEnd();
+      if (clean.trim()) project.stderr.push(clean);
+    }
+    if (project.stderr.length > this.options.stderrLines) {
+      project.stderr.splice(0, project.stderr.length - this.options.stderrLines);
+    }
+  }
+
+  private recentCrashes(project: SupervisedProject): number[] {
+    const cutoff = Date.now() - this.options.window;
+    return project.crashes.filter(time => time > cutoff);
+  }
+
+  private cancelRestart(project: SupervisedProject): void {
+    if (project.timer) {
+      clearTimeout(project.timer);
+      project.timer = null;
+    }
+    project.nextRestartAt = undefined;
+  }
+
+  private getProject(projectId: string): SupervisedProject {
+    let project = this.projects.get(projectId);
+    if (!project) {
+      project = { crashes: [], totalCrashes: 0, lastExitCode: null, stderr: [], timer: null, gaveUp: false };
+      this.projects.set(projectId, project);
+    }
+    return project;
+  }
+}
+
+export const crashSupervisor = new CrashSupervisor(viteManager);
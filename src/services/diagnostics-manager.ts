@@ -0,0 +1,230 @@
+/**
+ * Diagnostics Manager
+ * Runs TypeScript (and optionally ESLint) against a project and returns structured diagnostics
+ *
+ * Vite only reports syntax errors while transforming modules; type errors in
+ * generated code surface here instead.
+ */
+
+import { spawn } from 'child_process';
+import { relative, isAbsolute, sep } from 'path';
+import type { Diagnostic, DiagnosticsResult, DiagnosticsToolStatus } from '../types';
+
+const CHECK_TIMEOUT = 2 * 60 * 1000;      // 2 minutes per tool
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+export interface DiagnosticsOptions {
+  /** Also run ESLint with the project's .eslintrc.cjs */
+  eslint?: boolean;
+}
+
+interface ToolOutput {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
+
+// src/App.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+const TSC_LINE = /^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/;
+
+/**
+ * Parse `tsc --pretty false` output
+ * Continuation lines (indented) are appended to the previous message
+ */
+export function parseTscOutput(output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const line of output.split('\n')) {
+    const match = line.match(TSC_LINE);
+    if (match) {
+      const [, file, lineNo, column, category, code, message] = match;
+      diagnostics.push({
+        source: 'typescript',
+        file: file.replace(/\\/g, '/'),
+        line: parseInt(lineNo, 10),
+        column: parseInt(column, 10),
+        severity: category === 'message' ? 'info' : category as 'error' | 'warning',
+        code,
+        message,
+      });
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Parse `eslint --format json` output (file paths made project-relative)
+ */
+export function parseEslintOutput(output: string, projectPath: string): Diagnostic[] {
+  const results: Array<{
+    filePath: string;
+    messages: Array<{
+      ruleId: string | null;
+      severity: number;
+      message: string;
+      line?: number;
+      column?: number;
+      endLine?: number;
+      endColumn?: number;
+    }>;
+  }> = JSON.parse(output);
+
+  return results.flatMap(result => {
+    const file = isAbsolute(result.filePath)
+      ? relative(projectPath, result.filePath).split(sep).join('/')
+      : result.filePath;
+
+    return result.messages.map(message => ({
+      source: 'eslint' as const,
+      file,
+      line: message.line ?? 1,
+      column: message.column ?? 1,
+      endLine: message.endLine,
+      endColumn: message.endColumn,
+      severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+      code: message.ruleId ?? undefined,
+      message: message.message,
+    }));
+  });
+}
+
+export class DiagnosticsManager {
+  private bunBinary = process.env.BUN_BINARY || process.execPath;
+  private running: Map<string, Promise<DiagnosticsResult>> = new Map();
+
+  /**
+   * Type-check (and optionally lint) a project
+   * Concurrent calls for the same project and options share one run
+   */
+  async check(projectId: string, projectPath: string, options: DiagnosticsOptions = {}): Promise<DiagnosticsResult> {
+    const key = `${projectId}:${options.eslint ? 'eslint' : 'tsc'}`;
+    const existing = this.running.get(key);
+    if (existing) return existing;
+
+    const promise = this.runChecks(projectId, projectPath, options);
+    this.running.set(key, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.running.delete(key);
+    }
+  }
+
+  private async runChecks(projectId: string, projectPath: string, options: DiagnosticsOptions): Promise<DiagnosticsResult> {
+    const start = Date.now();
+    const diagnostics: Diagnostic[] = [];
+    const tools: DiagnosticsResult['tools'] = {
+      typescript: await this.runTypeScript(projectPath, diagnostics),
+    };
+
+    if (options.eslint) {
+      tools.eslint = await this.runEslint(projectPath, diagnostics);
+    }
+
+    diagnostics.sort((a, b) =>
+      a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+
+    const files = new Map<string, Diagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      const list = files.get(diagnostic.file) ?? [];
+      list.push(diagnostic);
+      files.set(diagnostic.file, list);
+    }
+
+    const result: DiagnosticsResult = {
+      projectId,
+      checkedAt: new Date(start).toISOString(),
+      duration: Date.now() - start,
+      errorCount: diagnostics.filter(d => d.severity === 'error').length,
+      warningCount: diagnostics.filter(d => d.severity === 'warning').length,
+      tools,
+      files: Array.from(files, ([file, list]) => ({ file, diagnostics: list })),
+    };
+
+    console.log(`[DiagnosticsManager] Checked ${projectId} in ${result.duration}ms: ${result.errorCount} errors, ${result.warningCount} warnings`);
+    return result;
+  }
+
+  private async runTypeScript(projectPath: string, diagnostics: Diagnostic[]): Promise<DiagnosticsToolStatus> {
+    const output = await this.runTool(projectPath, ['run', 'tsc', '--noEmit', '--pretty', 'false', '-p', 'tsconfig.json']);
+    const found = parseTscOutput(output.stdout);
+    diagnostics.push(...found);
+
+    // tsc exits 0 when clean and 1/2 when it reported diagnostics; anything else is a tool failure
+    if (output.error || (output.code !== 0 && found.length === 0)) {
+      return { ran: false, error: output.error || this.lastLines(output) || `tsc exited with code ${output.code}` };
+    }
+    return { ran: true, count: found.length };
+  }
+
+  private async runEslint(projectPath: string, diagnostics: Diagnostic[]): Promise<DiagnosticsToolStatus> {
+    const output = await this.runTool(projectPath, ['run', 'eslint', '.', '--ext', 'ts,tsx', '--format', 'json']);
+    if (output.error) {
+      return { ran: false, error: output.error };
+    }
+
+    // eslint exits 0 (clean), 1 (lint errors) or 2 (configuration/crash)
+    try {
+      const found = parseEslintOutput(output.stdout, projectPath);
+      diagnostics.push(...found);
+      return { ran: true, count: found.length };
+    } catch {
+      return { ran: false, error: this.lastLines(output) || `eslint exited with code ${output.code}` };
+    }
+  }
+
+  /**
+   * Spawn a project binary through `bun run`, resolving with its output
+   */
+  private runTool(projectPath: string, args: string[]): Promise<ToolOutput> {
+    return new Promise((resolve) => {
+      const output: ToolOutput = { code: null, stdout: '', stderr: '' };
+
+      const proc = spawn(this.bunBinary, args, {
+        cwd: projectPath,
+        env: { ...process.env, CI: 'true', NO_COLOR: '1' },
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      const timer = setTimeout(() => {
+        output.error = `${args[1]} timeout after ${CHECK_TIMEOUT}ms`;
+        proc.kill('SIGKILL');
+      }, CHECK_TIMEOUT);
+
+      proc.stdout?.on('data', (data: Buffer) => {
+        if (output.stdout.length < MAX_OUTPUT_BYTES) output.stdout += data.toString();
+      });
+      proc.stderr?.on('data', (data: Buffer) => {
+        if (output.stderr.length < MAX_OUTPUT_BYTES) output.stderr += data.toString();
+      });
+
+      proc.on('close', (code) => {
+        clearTimeout(timer);
+        output.code = code;
+        resolve(output);
+      });
+
+      proc.on('error', (error) => {
+        clearTimeout(timer);
+        output.error = error.message;
+        resolve(output);
+      });
+    });
+  }
+
+  private lastLines(output: ToolOutput): string {
+    return `${output.stdout}\n${output.stderr}`
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .slice(-5)
+      .join('\n');
+  }
+}
+
+export const diagnosticsManager = new DiagnosticsManager();
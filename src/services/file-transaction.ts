@@ -0,0 +1,239 @@
+/**
+ * File Transaction
+ * Applies a batch of file updates all-or-nothing
+ *
+ * 1. Validate: every update is well-formed, its path is allowed and (optionally) it parses
+ * 2. Stage:    new contents are written to temp files next to their targets
+ * 3. Commit:   temp files are renamed over targets, deletes are applied
+ *
+ * Any failure before commit discards staged files; a failure during commit
+ * rolls already-applied files back to their original content. Either way,
+ * directories created for staged files are removed again.
+ */
+
+import crypto from 'crypto';
+import { mkdir, writeFile, readFile, rename, rm, rmdir } from 'fs/promises';
+import { dirname } from 'path';
+import { checkSyntax } from '../lib/syntax-check';
+import { resolveProjectPath, PathSecurityError } from '../lib/safe-path';
+import type { FileUpdate, FileUpdateError, FileUpdateResult } from '../types';
+
+export interface ApplyOptions {
+  /** Syntax-check .ts/.tsx/.js/.jsx/.css/.json files before writing */
+  validate?: boolean;
+}
+
+interface StagedUpdate {
+  path: string;
+  filePath: string;
+  operation: FileUpdate['operation'];
+  tempPath?: string;
+  /** Topmost directory created for the temp file */
+  createdDir?: string;
+  /** Original content, null if the file did not exist */
+  original: Buffer | null;
+}
+
+/**
+ * Apply file updates to a project directory as a single transaction
+ */
+export async function applyFileUpdates(
+  projectPath: string,
+  updates: FileUpdate[],
+  options: ApplyOptions = {}
+): Promise<FileUpdateResult> {
+  const { errors, valid } = validateUpdates(updates, options);
+
+  // Resolve every path through the safe path layer before touching the filesystem
+  // Duplicates are detected on the resolved file (./src/a.ts and src/a.ts are the same)
+  const resolvedPaths = new Map<FileUpdate, string>();
+  const seen = new Map<string, string>();
+  for (const update of valid) {
+    let filePath: string;
+    try {
+      filePath = await resolveProjectPath(projectPath, update.path, 'write');
+    } catch (error) {
+      if (!(error instanceof PathSecurityError)) throw error;
+      errors.push({ path: update.path, code: error.code, message: error.message });
+      continue;
+    }
+
+    const first = seen.get(filePath);
+    if (first !== undefined) {
+      const message = first === update.path ? 'Duplicate path in batch' : `Duplicate path in batch (same file as ${first})`;
+      errors.push({ path: update.path, code: 'INVALID_UPDATE', message });
+      continue;
+    }
+    seen.set(filePath, update.path);
+    resolvedPaths.set(update, filePath);
+  }
+
+  if (errors.length > 0) {
+    return { success: false, applied: [], errors };
+  }
+
+  const txId = crypto.randomBytes(4).toString('hex');
+  const staged: StagedUpdate[] = [];
+
+  // Stage
+  for (const update of updates) {
+    // Default to 'update' operation (compatible with backend not passing operation field)
+    const operation = update.operation || 'update';
+    const filePath = resolvedPaths.get(update)!;
+    const entry: StagedUpdate = {
+      path: update.path,
+      filePath,
+      operation,
+      original: await readOriginal(filePath),
+    };
+    staged.push(entry);
+
+    if (operation === 'delete') continue;
+
+    try {
+      entry.tempPath = `${filePath}.${txId}.tmp`;
+      entry.createdDir = await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(entry.tempPath, update.content, 'utf-8');
+    } catch (error) {
+      await discardStaged(staged);
+      return {
+        success: false,
+        applied: [],
+        errors: [writeError(update.path, error)],
+      };
+    }
+  }
+
+  // Commit
+  const committed: StagedUpdate[] = [];
+  for (const entry of staged) {
+    try {
+      if (entry.operation === 'delete') {
+        await rm(entry.filePath, { force: true });
+      } else {
+        await rename(entry.tempPath!, entry.filePath);
+      }
+      committed.push(entry);
+    } catch (error) {
+      console.error(`[FileTransaction] Commit failed at ${entry.path}, rolling back ${committed.length} file(s)`);
+      await rollback(committed);
+      await discardStaged(staged);
+      return {
+        success: false,
+        applied: [],
+        errors: [writeError(entry.path, error)],
+      };
+    }
+  }
+
+  for (const entry of committed) {
+    console.log(`[FileTransaction] ${entry.operation}: ${entry.path}`);
+  }
+
+  return {
+    success: true,
+    applied: committed.map(entry => entry.path),
+    errors: [],
+  };
+}
+
+/**
+ * Validate batch without touching the filesystem
+ * Returns the errors and the well-formed updates (whose paths still need resolving)
+ */
+function validateUpdates(updates: FileUpdate[], options: ApplyOptions): { errors: FileUpdateError[]; valid: FileUpdate[] } {
+  const errors: FileUpdateError[] = [];
+  const valid: FileUpdate[] = [];
+
+  for (const update of updates) {
+    if (typeof update !== 'object' || update === null) {
+      errors.push({ path: '', code: 'INVALID_UPDATE', message: 'Update must be an object' });
+      continue;
+    }
+
+    const path = update.path;
+    if (typeof path !== 'string' || !path) {
+      errors.push({ path: String(path ?? ''), code: 'INVALID_UPDATE', message: 'Missing file path' });
+      continue;
+    }
+
+    const operation = update.operation || 'update';
+    if (!['create', 'update', 'delete'].includes(operation)) {
+      errors.push({ path, code: 'INVALID_UPDATE', message: `Unknown operation: ${operation}` });
+      continue;
+    }
+
+    if (operation !== 'delete') {
+      if (typeof update.content !== 'string') {
+        errors.push({ path, code: 'INVALID_UPDATE', message: 'Missing file content' });
+        continue;
+      }
+
+      if (options.validate) {
+        const issue = checkSyntax(path, update.content);
+        if (issue) {
+          errors.push({ path, code: 'SYNTAX_ERROR', ...issue });
+          continue;
+        }
+      }
+    }
+
+    valid.push(update);
+  }
+
+  return { errors, valid };
+}
+
+async function readOriginal(filePath: string): Promise<Buffer | null> {
+  try {
+    return await readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Restore committed files to their original state (reverse order)
+ */
+async function rollback(committed: StagedUpdate[]): Promise<void> {
+  for (const entry of [...committed].reverse()) {
+    try {
+      if (entry.original === null) {
+        await rm(entry.filePath, { force: true });
+      } else {
+        await writeFile(entry.filePath, entry.original);
+      }
+    } catch (error) {
+      console.error(`[FileTransaction] Failed to roll back ${entry.path}:`, error);
+    }
+  }
+}
+
+/**
+ * Remove temp files and the directories created for them (after a rollback, empty again)
+ */
+async function discardStaged(staged: StagedUpdate[]): Promise<void> {
+  for (const entry of staged) {
+    if (entry.tempPath) {
+      await rm(entry.tempPath, { force: true }).catch(() => {});
+    }
+  }
+
+  // Later entries may have created directories inside earlier ones
+  for (const entry of [...staged].reverse()) {
+    if (!entry.createdDir) continue;
+    // Deepest first; rmdir leaves directories that are not empty alone
+    for (let dir = dirname(entry.filePath); ; dir = dirname(dir)) {
+      const removed = await rmdir(dir).then(() => true, () => false);
+      if (!removed || dir === entry.createdDir) break;
+    }
+  }
+}
+
+function writeError(path: string, error: unknown): FileUpdateError {
+  return {
+    path,
+    code: 'WRITE_FAILED',
+    message: error instanceof Error ? error.message : 'Write failed',
+  };
+}
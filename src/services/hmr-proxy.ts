@@ -5,49 +5,88 @@
  * Supports two connection paths:
  * 1. /hmr?projectId=xxx - External HMR clients (e.g., PreviewFrame)
  * 2. /p/{projectId}/ - Vite internal HMR clients (/@vite/client inside iframe)
+ *
+ * pushUpdate() reaches both: external clients directly, proxied Vite sockets by
+ * injecting frames between the ones Vite sends (see ws-frames)
+ *
+ * External clients are also collaboration sessions. They identify themselves with
+ * query params (userId, name, role) or a presence:identify message, and forward the
+ * visual editor's ELEMENT_SELECTED / ELEMENT_DESELECTED messages. Other clients of
+ * the project receive presence:join, presence:update, presence:selection and
+ * presence:leave; a new client first gets presence:sessions with everyone present.
+ * Presence messages are handled here and never forwarded to Vite.
+ *
+ * Upgrades for private projects need a preview token (?token= or the preview
+ * cookie), the same as the preview itself.
  */
 
+import crypto from 'crypto';
 import { WebSocket, WebSocketServer } from 'ws';
 import type { Server, IncomingMessage } from 'http';
 import { createConnection, type Socket } from 'net';
-import { viteManager } from './vite-manager';
-import type { HmrMessage } from '../types';
+import { viteManager, isServing } from './vite-manager';
+import { previewAccess, type PreviewAccess } from './preview-access';
+import { WebSocketFrameGate, encodeTextFrame } from '../lib/ws-frames';
+import { decodePathSegment, isProjectId } from '../lib/safe-path';
+import type { HmrMessage, ClientSession, SessionRole, SessionSelection } from '../types';
+
+// Identity fields are shown to other collaborators, keep them short
+const MAX_IDENTITY_LENGTH = 100;
+
+interface SessionIdentity {
+  userId?: string;
+  name?: string;
+  role?: SessionRole;
+}
 
 export class HmrWebSocketProxy {
   private wss: WebSocketServer;
   private clients: Map<string, Set<WebSocket>> = new Map();
+  private sessions: Map<WebSocket, ClientSession> = new Map();
   private viteConnections: Map<string, WebSocket> = new Map();
-  private server: Server;
+  // Proxied /@vite/client sockets, for pushing messages into the passthrough
+  private proxiedSockets: Map<string, Set<WebSocketFrameGate>> = new Map();
 
-  constructor(server: Server, path: string = '/hmr') {
-    this.server = server;
+  constructor(private access: Pick<PreviewAccess, 'authorize'> = previewAccess) {
     // Use noServer mode, manually handle upgrade requests
     this.wss = new WebSocketServer({ noServer: true });
     this.setupServer();
-    this.setupUpgradeHandler(path);
+  }
+
+  /**
+   * Start handling WebSocket upgrades of the HTTP server
+   */
+  attach(server: Server, path: string = '/hmr'): void {
+    this.setupUpgradeHandler(server, path);
     console.log(`[HMR Proxy] WebSocket server started on path: ${path} and /p/:projectId/`);
   }
 
   /**
    * Handle HTTP upgrade to WebSocket requests
    */
-  private setupUpgradeHandler(hmrPath: string): void {
-    this.server.on('upgrade', (request: IncomingMessage, socket, head) => {
+  private setupUpgradeHandler(server: Server, hmrPath: string): void {
+    server.on('upgrade', async (request: IncomingMessage, socket, head) => {
       const url = new URL(request.url || '', `http://${request.headers.host}`);
       const pathname = url.pathname;
 
       // Path 1: /hmr?projectId=xxx - External HMR clients
       if (pathname === hmrPath) {
         const projectId = url.searchParams.get('projectId');
-        if (!projectId) {
-          console.warn('[HMR Proxy] Upgrade rejected: missing projectId');
+        if (!projectId || !isProjectId(projectId)) {
+          console.warn(`[HMR Proxy] Upgrade rejected: invalid projectId: ${projectId}`);
           socket.write('HTTP/1.1 400 Bad Request\r\n\r\n');
           socket.destroy();
           return;
         }
+        if (!(await this.authorizeUpgrade(request, socket, url, projectId))) return;
 
+        const identity = parseIdentity({
+          userId: url.searchParams.get('userId'),
+          name: url.searchParams.get('name'),
+          role: url.searchParams.get('role'),
+        });
         this.wss.handleUpgrade(request, socket, head, (ws) => {
-          this.handleExternalClient(ws, projectId);
+          this.handleExternalClient(ws, projectId, identity);
         });
         return;
       }
@@ -60,9 +99,10 @@ export class HmrWebSocketProxy {
       const hmrPathMatch = pathname.match(/\/hmr\/([0-9a-f-]{36})/);
       if (hmrPathMatch) {
         const projectId = hmrPathMatch[1];
+        if (!(await this.authorizeUpgrade(request, socket, url, projectId))) return;
         const instance = viteManager.getInstance(projectId);
 
-        if (!instance || instance.status !== 'running') {
+        if (!instance || !isServing(instance.status)) {
           console.warn(`[HMR Proxy] Vite not running for project: ${projectId}`);
           socket.write('HTTP/1.1 503 Service Unavailable\r\n\r\n');
           socket.destroy();
@@ -80,10 +120,17 @@ export class HmrWebSocketProxy {
       // Matches /p/{projectId}/@vite/client or /p/{projectId}/__vite_hmr and other Vite HMR paths
       const projectMatch = pathname.match(/^\/p\/([^/]+)\//);
       if (projectMatch) {
-        const projectId = projectMatch[1];
+        const projectId = decodePathSegment(projectMatch[1]);
+        if (!isProjectId(projectId)) {
+          console.warn(`[HMR Proxy] Upgrade rejected: invalid projectId: ${projectId}`);
+          socket.write('HTTP/1.1 400 Bad Request\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        if (!(await this.authorizeUpgrade(request, socket, url, projectId))) return;
         const instance = viteManager.getInstance(projectId);
 
-        if (!instance || instance.status !== 'running') {
+        if (!instance || !isServing(instance.status)) {
           console.warn(`[HMR Proxy] Vite not running for project: ${projectId}`);
           socket.write('HTTP/1.1 503 Service Unavailable\r\n\r\n');
           socket.destroy();
@@ -103,6 +150,33 @@ export class HmrWebSocketProxy {
     });
   }
 
+  /**
+   * Check preview access for an upgrade, answering 401 if denied
+   */
+  private async authorizeUpgrade(
+    request: IncomingMessage,
+    socket: import('stream').Duplex,
+    url: URL,
+    projectId: string
+  ): Promise<boolean> {
+    let token: string | null;
+    try {
+      token = await this.access.authorize(projectId, {
+        token: url.searchParams.get('token'),
+        cookieHeader: request.headers.cookie,
+      });
+    } catch (error) {
+      console.error(`[HMR Proxy] Preview access check failed for ${projectId}:`, error);
+      token = null;
+    }
+    if (token !== null) return true;
+
+    console.warn(`[HMR Proxy] Upgrade rejected: preview token required for ${projectId}`);
+    socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    socket.destroy();
+    return false;
+  }
+
   /**
    * Proxy WebSocket connection to Vite Dev Server (using raw socket passthrough)
    */
@@ -143,13 +217,17 @@ export class HmrWebSocketProxy {
       }
     });
 
+    // Vite -> client goes through a frame gate so pushUpdate() can inject messages
+    const gate = new WebSocketFrameGate((chunk) => clientSocket.write(chunk));
+
     // Bidirectional pipe
     viteSocket.on('connect', () => {
       // Connection successful, clear timeout
       viteSocket.setTimeout(0);
       // When receiving Vite's response, forward to client
-      viteSocket.pipe(clientSocket);
+      viteSocket.on('data', (chunk: Buffer) => gate.push(chunk));
       clientSocket.pipe(viteSocket);
+      this.addProxiedSocket(projectId, gate);
       console.log(`[HMR Proxy] WebSocket proxy established: ${projectId}`);
       viteManager.markActive(projectId);
     });
@@ -162,6 +240,7 @@ export class HmrWebSocketProxy {
 
     viteSocket.on('close', () => {
       console.log(`[HMR Proxy] Vite socket closed: ${projectId}`);
+      this.removeProxiedSocket(projectId, gate);
       clientSocket.destroy();
     });
 
@@ -187,19 +266,35 @@ export class HmrWebSocketProxy {
   /**
    * Handle external HMR client connection (e.g., PreviewFrame)
    */
-  private handleExternalClient(ws: WebSocket, projectId: string): void {
+  private handleExternalClient(ws: WebSocket, projectId: string, identity: SessionIdentity): void {
     console.log(`[HMR Proxy] External client connected: ${projectId}`);
+    const now = new Date().toISOString();
+    const session: ClientSession = {
+      sessionId: crypto.randomUUID(),
+      projectId,
+      ...identity,
+      role: identity.role ?? 'viewer',
+      connectedAt: now,
+      lastActiveAt: now,
+      selection: null,
+    };
+    this.sessions.set(ws, session);
     this.addClient(projectId, ws);
 
     // Immediately send connected message to notify client connection successful
-    ws.send(JSON.stringify({ type: 'connected' }));
+    ws.send(JSON.stringify({ type: 'connected', sessionId: session.sessionId }));
+    ws.send(JSON.stringify({ type: 'presence:sessions', sessions: this.getSessions(projectId) }));
+    this.broadcastPresence(ws, { type: 'presence:join', session });
 
-    ws.on('message', (data) => {
+    ws.on('message', (data, isBinary) => {
+      if (!isBinary && this.handlePresenceMessage(ws, data.toString())) return;
       this.forwardToVite(projectId, data);
     });
 
     ws.on('close', () => {
       console.log(`[HMR Proxy] External client disconnected: ${projectId}`);
+      this.broadcastPresence(ws, { type: 'presence:leave', sessionId: session.sessionId });
+      this.sessions.delete(ws);
       this.removeClient(projectId, ws);
     });
 
@@ -208,6 +303,61 @@ export class HmrWebSocketProxy {
     });
   }
 
+  /**
+   * Apply a presence message from a client; false if it is not one (forward it to Vite)
+   */
+  private handlePresenceMessage(ws: WebSocket, text: string): boolean {
+    const session = this.sessions.get(ws);
+    if (!session || !text.startsWith('{')) return false;
+
+    let message: { type?: unknown; payload?: unknown } & Record<string, unknown>;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return false;
+    }
+
+    switch (message.type) {
+      case 'presence:identify':
+        Object.assign(session, parseIdentity(message));
+        this.touchSession(session);
+        this.broadcastPresence(ws, { type: 'presence:update', session });
+        return true;
+      case 'ELEMENT_SELECTED':
+        session.selection = parseSelection(message.payload);
+        this.touchSession(session);
+        this.broadcastPresence(ws, { type: 'presence:selection', sessionId: session.sessionId, selection: session.selection });
+        return true;
+      case 'ELEMENT_DESELECTED':
+        session.selection = null;
+        this.touchSession(session);
+        this.broadcastPresence(ws, { type: 'presence:selection', sessionId: session.sessionId, selection: null });
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private touchSession(session: ClientSession): void {
+    session.lastActiveAt = new Date().toISOString();
+    viteManager.markActive(session.projectId);
+  }
+
+  /**
+   * Send a presence message to the other external clients of the sender's project
+   */
+  private broadcastPresence(sender: WebSocket, message: HmrMessage): void {
+    const session = this.sessions.get(sender);
+    if (!session) return;
+
+    const data = JSON.stringify(message);
+    for (const client of this.clients.get(session.projectId) ?? []) {
+      if (client !== sender && client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    }
+  }
+
   private setupServer(): void {
     this.wss.on('error', (error) => {
       console.error('[HMR Proxy] Server error:', error);
@@ -240,6 +390,21 @@ export class HmrWebSocketProxy {
     }
   }
 
+  private addProxiedSocket(projectId: string, gate: WebSocketFrameGate): void {
+    if (!this.proxiedSockets.has(projectId)) {
+      this.proxiedSockets.set(projectId, new Set());
+    }
+    this.proxiedSockets.get(projectId)!.add(gate);
+  }
+
+  private removeProxiedSocket(projectId: string, gate: WebSocketFrameGate): void {
+    const gates = this.proxiedSockets.get(projectId);
+    if (gates) {
+      gates.delete(gate);
+      if (gates.size === 0) this.proxiedSockets.delete(projectId);
+    }
+  }
+
   private ensureViteConnection(projectId: string): void {
     if (this.viteConnections.has(projectId)) {
       return;
@@ -308,25 +473,82 @@ export class HmrWebSocketProxy {
   }
 
   /**
-   * Actively push HMR updates
+   * Actively push HMR updates to every client of the project
+   * (external clients and proxied Vite sockets); returns how many were reached
    */
-  pushUpdate(projectId: string, message: HmrMessage): void {
+  pushUpdate(projectId: string, message: HmrMessage): number {
     const data = JSON.stringify(message);
-    const clients = this.clients.get(projectId);
-    if (!clients) return;
+    let delivered = 0;
 
-    for (const client of clients) {
+    for (const client of this.clients.get(projectId) ?? []) {
       if (client.readyState === WebSocket.OPEN) {
         client.send(data);
+        delivered++;
+      }
+    }
+
+    const frame = encodeTextFrame(data);
+    for (const gate of this.proxiedSockets.get(projectId) ?? []) {
+      if (gate.isOpen()) {
+        gate.inject(frame);
+        delivered++;
       }
     }
+
+    if (delivered > 0) viteManager.markActive(projectId);
+    return delivered;
   }
 
   /**
-   * Get connected client count
+   * Full page reload (path: only pages whose URL matches this HTML file reload)
+   */
+  reload(projectId: string, path: string = '*'): number {
+    return this.pushUpdate(projectId, { type: 'full-reload', path });
+  }
+
+  /**
+   * Re-import specific modules (project-relative paths, e.g. src/App.tsx)
+   * Only modules that accept hot updates (React components, CSS imported from
+   * code) are swapped in place; Vite's client ignores the rest
+   */
+  update(projectId: string, paths: string[]): number {
+    const timestamp = Date.now();
+    return this.pushUpdate(projectId, {
+      type: 'update',
+      updates: paths.map((path) => {
+        const modulePath = `/${path.replace(/^\/+/, '')}`;
+        return {
+          type: 'js-update',
+          path: modulePath,
+          acceptedPath: modulePath,
+          timestamp,
+        };
+      }),
+    });
+  }
+
+  /**
+   * Custom event, received by import.meta.hot.on(event) in the page
+   */
+  custom(projectId: string, event: string, data?: unknown): number {
+    return this.pushUpdate(projectId, { type: 'custom', event, data });
+  }
+
+  /**
+   * Get connected client count (external clients and proxied Vite sockets)
    */
   getClientCount(projectId: string): number {
-    return this.clients.get(projectId)?.size ?? 0;
+    return (this.clients.get(projectId)?.size ?? 0) + (this.proxiedSockets.get(projectId)?.size ?? 0);
+  }
+
+  /**
+   * Collaboration sessions (external clients) of a project, oldest first
+   */
+  getSessions(projectId: string): ClientSession[] {
+    return Array.from(this.clients.get(projectId) ?? [])
+      .map(ws => this.sessions.get(ws))
+      .filter((session): session is ClientSession => !!session)
+      .sort((a, b) => a.connectedAt.localeCompare(b.connectedAt));
   }
 
   /**
@@ -353,9 +575,46 @@ export class HmrWebSocketProxy {
       }
     }
     this.clients.clear();
+    this.sessions.clear();
+    this.proxiedSockets.clear();
 
     // Close WebSocket server
     this.wss.close();
     console.log('[HMR Proxy] Closed');
   }
 }
+
+/**
+ * Identity fields from query params or a presence:identify message (invalid ones dropped)
+ */
+function parseIdentity(source: Record<string, unknown>): SessionIdentity {
+  const identity: SessionIdentity = {};
+  for (const key of ['userId', 'name'] as const) {
+    const value = source[key];
+    if (typeof value === 'string' && value.trim()) {
+      identity[key] = value.trim().slice(0, MAX_IDENTITY_LENGTH);
+    }
+  }
+  if (source.role === 'viewer' || source.role === 'editor') {
+    identity.role = source.role;
+  }
+  return identity;
+}
+
+/**
+ * Selection from the visual editor's ELEMENT_SELECTED payload (ElementInfo)
+ */
+function parseSelection(payload: unknown): SessionSelection | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const info = payload as { jsxId?: unknown; jsxFile?: unknown; jsxLine?: unknown; jsxCol?: unknown };
+  if (typeof info.jsxId !== 'string' || !info.jsxId) return null;
+
+  return {
+    jsxId: info.jsxId,
+    file: typeof info.jsxFile === 'string' ? info.jsxFile : undefined,
+    line: typeof info.jsxLine === 'number' ? info.jsxLine : undefined,
+    column: typeof info.jsxCol === 'number' ? info.jsxCol : undefined,
+  };
+}
+
+export const hmrProxy = new HmrWebSocketProxy();
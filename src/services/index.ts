@@ -5,5 +5,7 @@
 export { viteManager, ViteDevServerManager } from './vite-manager';
 export { dependencyManager, DependencyManager } from './dependency-manager';
 export { projectManager, ProjectManager } from './project-manager';
+export { buildManager, BuildManager } from './build-manager';
+export { snapshotManager, SnapshotManager } from './snapshot-manager';
 export { HmrWebSocketProxy } from './hmr-proxy';
 export { generateScaffold, generateDefaultAppTsx } from './scaffolder';
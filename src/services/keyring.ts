@@ -0,0 +1,213 @@
+/**
+ * Keyring
+ * API keys accepted by the HMAC auth middleware
+ *
+ * Keys come from a JSON file (API_KEYS_FILE), reloaded when it changes:
+ *   { "keys": [{ "keyId", "scope", "secrets": [{ "secret", "notBefore?", "notAfter?" }], "projects?" }] }
+ * A key accepts every secret whose window contains the current time, so a secret
+ * is rotated by adding the new one and giving the old one a notAfter. The
+ * FLY_API_KEY / FLY_API_SECRET pair, if set, is an admin key unless the file
+ * defines the same keyId.
+ *
+ * A file that fails to load keeps the previous keys in place.
+ */
+
+import { readFile } from 'fs/promises';
+import { watchFile, unwatchFile } from 'fs';
+import { verifySignature, type SignatureParams } from '../lib/signature';
+import type { ApiKey, ApiKeyInfo, ApiKeyScope, ApiKeySecret } from '../types';
+
+export interface KeyringOptions {
+  /** JSON keyring file (empty = environment key only) */
+  file: string;
+  /** Key from the environment (empty = none) */
+  envKeyId: string;
+  envSecret: string;
+  /** How often the file is checked for changes, in ms */
+  interval: number;
+}
+
+const DEFAULT_OPTIONS: KeyringOptions = {
+  file: process.env.API_KEYS_FILE || '',
+  envKeyId: process.env.FLY_API_KEY || '',
+  envSecret: process.env.FLY_API_SECRET || '',
+  interval: 5000,
+};
+
+const SCOPES: ApiKeyScope[] = ['read-only', 'project-write', 'admin'];
+
+/**
+ * Whether a key's scope includes the required one
+ */
+export function hasScope(scope: ApiKeyScope, required: ApiKeyScope): boolean {
+  return SCOPES.indexOf(scope) >= SCOPES.indexOf(required);
+}
+
+export class Keyring {
+  private options: KeyringOptions;
+  private fileKeys: Map<string, ApiKey> = new Map();
+  private envKey: ApiKey | null = null;
+  private watching = false;
+
+  constructor(options: Partial<KeyringOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (this.options.envKeyId && this.options.envSecret) {
+      this.envKey = {
+        keyId: this.options.envKeyId,
+        scope: 'admin',
+        secrets: [{ secret: this.options.envSecret }],
+      };
+    }
+  }
+
+  /**
+   * Whether auth is enforced (a keyring file is configured or the environment key is set)
+   * A configured file that failed to load rejects every request rather than opening up
+   */
+  isConfigured(): boolean {
+    return !!this.options.file || !!this.envKey;
+  }
+
+  /**
+   * (Re)load the keyring file
+   */
+  async load(): Promise<void> {
+    if (!this.options.file) return;
+
+    try {
+      const content = await readFile(this.options.file, 'utf-8');
+      this.fileKeys = parseKeyring(JSON.parse(content));
+      console.log(`[Keyring] Loaded ${this.fileKeys.size} key(s) from ${this.options.file}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Keyring] Failed to load ${this.options.file}, keeping ${this.fileKeys.size} key(s): ${message}`);
+    }
+  }
+
+  /**
+   * Load the file and reload it whenever it changes
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (!this.options.file || this.watching) return;
+
+    // Polling (not fs.watch) also catches files replaced by rename, e.g. mounted secrets
+    watchFile(this.options.file, { interval: this.options.interval, persistent: false }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs || current.ino !== previous.ino) {
+        this.load();
+      }
+    });
+    this.watching = true;
+  }
+
+  stop(): void {
+    if (!this.watching) return;
+    unwatchFile(this.options.file);
+    this.watching = false;
+  }
+
+  /**
+   * Enabled key by id
+   */
+  get(keyId: string): ApiKey | null {
+    const key = this.fileKeys.get(keyId) ?? (this.envKey?.keyId === keyId ? this.envKey : null);
+    return key && !key.disabled ? key : null;
+  }
+
+  /**
+   * Whether the signature was made with one of the key's active secrets
+   */
+  verify(key: ApiKey, params: SignatureParams, signature: string): boolean {
+    const now = Date.now();
+    return key.secrets
+      .filter(secret => isActive(secret, now))
+      .some(secret => verifySignature(params, signature, secret.secret));
+  }
+
+  /**
+   * Whether the key may access the project
+   */
+  canAccessProject(key: ApiKey, projectId: string): boolean {
+    return !key.projects || key.projects.includes(projectId);
+  }
+
+  /**
+   * All keys without their secrets
+   */
+  list(): ApiKeyInfo[] {
+    const now = Date.now();
+    const keys: Array<[ApiKey, ApiKeyInfo['source']]> = Array.from(this.fileKeys.values()).map(key => [key, 'file']);
+    if (this.envKey && !this.fileKeys.has(this.envKey.keyId)) {
+      keys.push([this.envKey, 'env']);
+    }
+
+    return keys.map(([{ secrets, ...key }, source]) => ({
+      ...key,
+      source,
+      secrets: secrets.map(({ secret: _secret, ...window }) => ({ ...window, active: isActive(window, now) })),
+    }));
+  }
+}
+
+function isActive(secret: Omit<ApiKeySecret, 'secret'>, now: number): boolean {
+  if (secret.notBefore && Date.parse(secret.notBefore) > now) return false;
+  if (secret.notAfter && Date.parse(secret.notAfter) <= now) return false;
+  return true;
+}
+
+/**
+ * Validate keyring file content
+ */
+export function parseKeyring(data: unknown): Map<string, ApiKey> {
+  const entries = (data as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(entries)) {
+    throw new Error('Keyring must be an object with a "keys" array');
+  }
+
+  const keys = new Map<string, ApiKey>();
+  for (const entry of entries as ApiKey[]) {
+    if (!entry || typeof entry.keyId !== 'string' || !entry.keyId) {
+      throw new Error('Every key needs a keyId');
+    }
+    if (keys.has(entry.keyId)) {
+      throw new Error(`Duplicate keyId: ${entry.keyId}`);
+    }
+    if (!SCOPES.includes(entry.scope)) {
+      throw new Error(`Key ${entry.keyId}: scope must be one of ${SCOPES.join(', ')}`);
+    }
+    if (!Array.isArray(entry.secrets) || entry.secrets.length === 0) {
+      throw new Error(`Key ${entry.keyId}: at least one secret is required`);
+    }
+    for (const secret of entry.secrets) {
+      if (!secret || typeof secret.secret !== 'string' || !secret.secret) {
+        throw new Error(`Key ${entry.keyId}: every secret needs a non-empty "secret"`);
+      }
+      for (const field of ['notBefore', 'notAfter'] as const) {
+        if (secret[field] !== undefined && Number.isNaN(Date.parse(secret[field]!))) {
+          throw new Error(`Key ${entry.keyId}: ${field} is not a valid date`);
+        }
+      }
+    }
+    if (entry.projects !== undefined) {
+      if (!Array.isArray(entry.projects) || entry.projects.some(id => typeof id !== 'string')) {
+        throw new Error(`Key ${entry.keyId}: projects must be an array of project ids`);
+      }
+      // Admin routes are server-wide, an allowlist could not restrict them
+      if (entry.scope === 'admin') {
+        throw new Error(`Key ${entry.keyId}: admin keys cannot have a project allowlist`);
+      }
+    }
+
+    keys.set(entry.keyId, {
+      keyId: entry.keyId,
+      scope: entry.scope,
+      secrets: entry.secrets.map(({ secret, notBefore, notAfter }) => ({ secret, notBefore, notAfter })),
+      projects: entry.projects,
+      disabled: entry.disabled === true ? true : undefined,
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+    });
+  }
+  return keys;
+}
+
+export const keyring = new Keyring();
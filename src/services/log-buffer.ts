@@ -0,0 +1,118 @@
+/**
+ * Log Buffer
+ * Keeps a bounded per-project ring buffer of Vite output and lifecycle events
+ *
+ * Fed by ViteDevServerManager 'log' / 'exit' / 'started' / 'health' / 'stopped' events.
+ * Read via GET /projects/:id/logs and streamed via GET /projects/:id/logs/stream (SSE).
+ */
+
+import { EventEmitter } from 'events';
+import { viteManager } from './vite-manager';
+import type { LogEntry, LogEvent, ExitEvent, ViteStatus, PreviewHealth } from '../types';
+
+const DEFAULT_CAPACITY = 1000;  // Entries kept per project
+
+// Vite colors its terminal output, strip escape codes for UI consumption
+const ANSI_PATTERN = /\x1b\[[0-9;]*[a-zA-Z]/g;
+
+export class LogBuffer extends EventEmitter {
+  private buffers: Map<string, LogEntry[]> = new Map();
+  private seq = 0;
+
+  constructor(source: EventEmitter, private capacity: number = DEFAULT_CAPACITY) {
+    super();
+    // Each SSE connection adds one listener
+    this.setMaxListeners(0);
+
+    source.on('log', (event: LogEvent) => {
+      for (const line of event.message.split('\n')) {
+        const message = line.replace(ANSI_PATTERN, '').trimEnd();
+        if (message.trim()) {
+          this.append(event.projectId, event.type, message);
+        }
+      }
+    });
+
+    source.on('exit', (event: ExitEvent) => {
+      this.append(event.projectId, 'system', `Vite process exited with code ${event.code}`);
+    });
+
+    source.on('started', (event: { projectId: string; port: number }) => {
+      this.append(event.projectId, 'system', `Vite started on port ${event.port}`);
+    });
+
+    source.on('health', (event: { projectId: string; status: ViteStatus; health: PreviewHealth }) => {
+      const message = event.health.ok
+        ? 'Preview healthy'
+        : `Preview degraded: ${event.health.error?.message.split('\n')[0] ?? 'unknown error'}`;
+      this.append(event.projectId, 'system', message);
+    });
+
+    source.on('stopped', (event: { projectId: string }) => {
+      this.append(event.projectId, 'system', 'Vite stopped');
+    });
+  }
+
+  /**
+   * Append entry to project buffer and notify subscribers
+   */
+  append(projectId: string, type: LogEntry['type'], message: string): LogEntry {
+    const entry: LogEntry = {
+      seq: ++this.seq,
+      projectId,
+      type,
+      message,
+      timestamp: new Date().toISOString(),
+    };
+
+    let buffer = this.buffers.get(projectId);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(projectId, buffer);
+    }
+
+    buffer.push(entry);
+    if (buffer.length > this.capacity) {
+      buffer.splice(0, buffer.length - this.capacity);
+    }
+
+    this.emit(`entry:${projectId}`, entry);
+    return entry;
+  }
+
+  /**
+   * Get buffered entries with seq greater than `since`
+   */
+  getLogs(projectId: string, since = 0): LogEntry[] {
+    const buffer = this.buffers.get(projectId);
+    if (!buffer) return [];
+    return buffer.filter(entry => entry.seq > since);
+  }
+
+  /**
+   * Get latest sequence number (use as `since` for the next poll)
+   */
+  getLastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Subscribe to new entries of a project
+   * Returns unsubscribe function
+   */
+  subscribe(projectId: string, listener: (entry: LogEntry) => void): () => void {
+    this.on(`entry:${projectId}`, listener);
+    return () => {
+      this.off(`entry:${projectId}`, listener);
+    };
+  }
+
+  /**
+   * Drop buffered entries of a project (e.g. after deletion)
+   */
+  clear(projectId: string): void {
+    this.buffers.delete(projectId);
+  }
+}
+
+export const logBuffer = new LogBuffer(viteManager);
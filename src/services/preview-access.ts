@@ -0,0 +1,130 @@
+/**
+ * Preview Access
+ * Decides who may see a project's dev preview (/p/{projectId}/ and its HMR socket)
+ *
+ * Private projects need a short-lived preview token, minted through the
+ * authenticated API and passed as ?token= or the preview cookie (set on the
+ * first request that carries a valid token, so assets and the Vite HMR socket
+ * are authorized too). Public projects are open to anyone.
+ */
+
+import { generatePreviewToken, verifyPreviewToken } from '../lib/signature';
+import { projectRegistry, type ProjectRegistry } from './project-registry';
+
+export interface PreviewAccessOptions {
+  /** Signing secret (empty = preview tokens disabled, every preview public) */
+  secret: string;
+  /** Token lifetime when the caller does not ask for one */
+  defaultTtlSeconds: number;
+  maxTtlSeconds: number;
+  /** Visibility of projects without an explicit flag */
+  privateByDefault: boolean;
+}
+
+const DEFAULT_OPTIONS: PreviewAccessOptions = {
+  secret: process.env.PREVIEW_TOKEN_SECRET || process.env.FLY_API_SECRET || '',
+  defaultTtlSeconds: parseInt(process.env.PREVIEW_TOKEN_TTL_SECONDS || '3600', 10),
+  maxTtlSeconds: 24 * 3600,
+  privateByDefault: process.env.PREVIEW_PRIVATE_BY_DEFAULT === 'true',
+};
+
+const COOKIE_PREFIX = 'fly_preview_';
+
+export interface PreviewToken {
+  token: string;
+  /** ISO timestamp */
+  expiresAt: string;
+}
+
+/** Where a preview request may carry its token */
+export interface PreviewCredentials {
+  token?: string | null;
+  cookieHeader?: string | null;
+}
+
+type RecordSource = Pick<ProjectRegistry, 'get'>;
+
+export class PreviewAccess {
+  private options: PreviewAccessOptions;
+
+  constructor(options: Partial<PreviewAccessOptions> = {}, private registry: RecordSource = projectRegistry) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (!this.options.secret) {
+      console.warn('[PreviewAccess] No PREVIEW_TOKEN_SECRET or FLY_API_SECRET, all previews are public');
+    }
+  }
+
+  isEnabled(): boolean {
+    return !!this.options.secret;
+  }
+
+  /**
+   * Whether the project's preview needs a token
+   */
+  async isPrivate(projectId: string): Promise<boolean> {
+    if (!this.isEnabled()) return false;
+    const record = await this.registry.get(projectId);
+    return record?.private ?? this.options.privateByDefault;
+  }
+
+  /**
+   * Mint a token for a project (lifetime capped at maxTtlSeconds)
+   */
+  mintToken(projectId: string, ttlSeconds: number = this.options.defaultTtlSeconds): PreviewToken {
+    if (!this.isEnabled()) {
+      throw new Error('Preview tokens are not configured');
+    }
+
+    const ttl = Math.max(1, Math.min(Math.floor(ttlSeconds), this.options.maxTtlSeconds));
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+    return {
+      token: generatePreviewToken(projectId, expiresAt, this.options.secret),
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Whether the request may see the project's preview
+   * Returns the valid token it carried ('' for public projects), null if denied
+   */
+  async authorize(projectId: string, credentials: PreviewCredentials): Promise<string | null> {
+    if (!(await this.isPrivate(projectId))) return '';
+
+    const candidates = [credentials.token, readCookie(credentials.cookieHeader, this.cookieName(projectId))];
+    for (const token of candidates) {
+      if (token && verifyPreviewToken(token, projectId, this.options.secret)) {
+        return token;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Cookie holding the token (one per project, sent on preview and HMR paths)
+   */
+  cookieName(projectId: string): string {
+    return `${COOKIE_PREFIX}${projectId}`;
+  }
+
+  /**
+   * Seconds until a (valid) token expires, for the cookie's Max-Age
+   */
+  secondsLeft(token: string): number {
+    const expiresAt = parseInt(token.split('.')[0], 10);
+    return Math.max(0, expiresAt - Math.floor(Date.now() / 1000));
+  }
+}
+
+function readCookie(header: string | null | undefined, name: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      // Tokens are URL-safe, no decoding needed
+      return part.slice(index + 1).trim();
+    }
+  }
+  return null;
+}
+
+export const previewAccess = new PreviewAccess();
@@ -0,0 +1,155 @@
+/**
+ * Preview Probe
+ * Deep readiness check for a Vite dev server
+ *
+ * A Vite server answers HTTP as soon as it listens, even if the app cannot
+ * compile. The probe requests the index, `@vite/client` and the entry module,
+ * then follows the entry's local imports so transform errors anywhere on the
+ * render path (e.g. a broken App.tsx) are surfaced.
+ */
+
+import type { PreviewError, PreviewHealth } from '../types';
+
+const REQUEST_TIMEOUT = 10000;  // Per request (first transform of a module can be slow)
+const MAX_MODULES = 100;         // Cap on followed imports
+
+// import x from "..."; export * from "..."; import "..."; import("...")
+const IMPORT_PATTERN = /(?:\bimport|\bexport)\s*(?:[\w*{}\s,$]*\sfrom\s*)?["']([^"']+)["']|\bimport\s*\(\s*["']([^"']+)["']\s*\)/g;
+const SCRIPT_PATTERN = /<script[^>]*type=["']module["'][^>]*src=["']([^"']+)["']/gi;
+
+/**
+ * Probe a running Vite server serving under basePath (e.g. /p/{projectId}/)
+ */
+export async function probePreview(port: number, basePath: string): Promise<PreviewHealth> {
+  const origin = `http://localhost:${port}`;
+  const checks: PreviewHealth['checks'] = [];
+
+  const finish = (error?: PreviewError): PreviewHealth => ({
+    ok: !error,
+    checkedAt: new Date().toISOString(),
+    checks,
+    error,
+  });
+
+  const request = async (path: string) => {
+    try {
+      const response = await fetch(`${origin}${path}`, {
+        headers: { Accept: path === basePath ? 'text/html' : '*/*' },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+      const body = await response.text();
+      checks.push({ path, status: response.status, ok: response.ok });
+      return { status: response.status, ok: response.ok, body };
+    } catch (error) {
+      checks.push({ path, status: null, ok: false });
+      return { status: null, ok: false, body: '', error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  // 1. Index HTML
+  const index = await request(basePath);
+  if (!index.ok) {
+    return finish(extractViteError(index.body) ?? {
+      message: index.error ? `Index request failed: ${index.error}` : `Index returned HTTP ${index.status}`,
+    });
+  }
+
+  // 2. Vite client
+  const client = await request(`${basePath}@vite/client`);
+  if (!client.ok) {
+    return finish({ message: client.error ? `@vite/client request failed: ${client.error}` : `@vite/client returned HTTP ${client.status}` });
+  }
+
+  // 3. Entry module(s) and their local imports
+  const queue = findEntryModules(index.body, basePath);
+  const seen = new Set(queue);
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    const result = await request(path);
+
+    if (!result.ok) {
+      const error = extractViteError(result.body) ?? {
+        message: result.error ? `Request failed: ${result.error}` : `HTTP ${result.status}`,
+      };
+      error.file = error.file ?? toProjectPath(path, basePath);
+      return finish(error);
+    }
+
+    for (const imported of findLocalImports(result.body, basePath)) {
+      if (seen.has(imported) || seen.size >= MAX_MODULES) continue;
+      seen.add(imported);
+      queue.push(imported);
+    }
+  }
+
+  return finish();
+}
+
+/**
+ * Module scripts referenced by index.html (defaults to src/main.tsx)
+ */
+export function findEntryModules(html: string, basePath: string): string[] {
+  const entries: string[] = [];
+  for (const match of html.matchAll(SCRIPT_PATTERN)) {
+    const src = resolveModulePath(match[1], basePath);
+    if (src && isProjectSource(src, basePath)) entries.push(src);
+  }
+  return entries.length > 0 ? entries : [`${basePath}src/main.tsx`];
+}
+
+/**
+ * Imports of a transformed module that point at project sources
+ * (dependencies, Vite internals and virtual modules are skipped)
+ */
+export function findLocalImports(code: string, basePath: string): string[] {
+  const imports = new Set<string>();
+  for (const match of code.matchAll(IMPORT_PATTERN)) {
+    const path = resolveModulePath(match[1] ?? match[2], basePath);
+    if (path && isProjectSource(path, basePath)) imports.add(path);
+  }
+  return [...imports];
+}
+
+/**
+ * Parse the error Vite embeds in its 500 error page (`const error = {...}`)
+ */
+export function extractViteError(body: string): PreviewError | null {
+  const match = body.match(/const error = (\{.*\})\s*\n/);
+  if (!match) return null;
+
+  try {
+    const error = JSON.parse(match[1]) as {
+      message?: string;
+      id?: string;
+      frame?: string;
+      plugin?: string;
+      loc?: { file?: string; line?: number; column?: number };
+    };
+    return {
+      message: error.message || 'Vite transform error',
+      file: error.loc?.file ?? error.id,
+      line: error.loc?.line,
+      column: error.loc?.column,
+      frame: error.frame,
+      plugin: error.plugin,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function resolveModulePath(specifier: string, basePath: string): string | null {
+  if (!specifier.startsWith('/')) return null;
+  // Vite rewrites imports to absolute URLs under base; tolerate unprefixed ones
+  return specifier.startsWith(basePath) ? specifier : `${basePath}${specifier.slice(1)}`;
+}
+
+function isProjectSource(path: string, basePath: string): boolean {
+  const relative = path.slice(basePath.length);
+  return !relative.startsWith('@') && !relative.startsWith('node_modules/') && !relative.startsWith('.vite/');
+}
+
+function toProjectPath(path: string, basePath: string): string {
+  return path.slice(basePath.length).split('?')[0];
+}
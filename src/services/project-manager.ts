@@ -3,142 +3,293 @@
  * Unified management of project creation, update, deletion and preview
  */
 
-import { mkdir, writeFile, readFile, rm, readdir, stat } from 'fs/promises';
-import { join, dirname } from 'path';
-import { viteManager } from './vite-manager';
+import { mkdir, writeFile, readFile, rm, readdir, stat, cp } from 'fs/promises';
+import { join, dirname, basename, relative, sep } from 'path';
+import type { Readable } from 'stream';
+import { viteManager, isServing } from './vite-manager';
 import { dependencyManager } from './dependency-manager';
 import { templateManager } from './template-manager';
-import { generateScaffold, generateDefaultAppTsx } from './scaffolder';
+import { buildManager } from './build-manager';
+import { logBuffer } from './log-buffer';
+import { runtimeErrorStore } from './runtime-error-store';
+import { crashSupervisor } from './crash-supervisor';
+import { warmPool } from './warm-pool';
+import { templateUpgrader } from './template-upgrader';
+import { snapshotManager } from './snapshot-manager';
+import { applyFileUpdates, type ApplyOptions } from './file-transaction';
+import { projectRegistry } from './project-registry';
+import { resolveProjectPath, assertProjectId } from '../lib/safe-path';
+import { measureDiskUsage } from '../lib/clone-tree';
+import { createArchiveStream, extractArchive, type ArchiveEntry, type ArchiveFormat } from '../lib/archive';
+import { generateScaffold, generateDefaultApp } from './scaffolder';
+import {
+  getTemplate,
+  getCoreDependencies,
+  DEFAULT_TEMPLATE,
+  LOCKFILES,
+  TEMPLATE_CONFIG_FILES,
+  UnknownTemplateError,
+  type TemplateDefinition,
+} from './template-registry';
 import type {
   ProjectConfig,
   ProjectFile,
   ProjectStatus,
   FileUpdate,
+  FileUpdateResult,
   CreateProjectResult,
   ApiResponse,
+  BuildRecord,
+  Snapshot,
+  ForkConfig,
+  PreviewStartResult,
+  ViteInstance,
+  DiskUsage,
+  TemplateUpgradeResult,
 } from '../types';
 
 const DATA_DIR = process.env.DATA_DIR || '/data/sites';
 
+// Directories left out of exported archives and ignored in imported ones
+const ARCHIVE_EXCLUDES = ['node_modules', 'dist', '.vite', '.git', '__MACOSX'];
+
+/** Dependencies merged from a user's package.json on top of the template */
+interface MergedDependencies {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+/**
+ * Split `name@version` package spec (scoped names supported)
+ */
+function parsePackageSpec(spec: string): { name: string; version: string } {
+  const at = spec.lastIndexOf('@');
+  if (at > 0) {
+    return { name: spec.slice(0, at), version: spec.slice(at + 1) || 'latest' };
+  }
+  return { name: spec, version: 'latest' };
+}
+
+/**
+ * Convert extracted archive entries to project files
+ * Strips a single top-level directory (as produced by export) and skips excluded directories
+ */
+function archiveToProjectFiles(entries: ArchiveEntry[]): ProjectFile[] {
+  let files = entries
+    .map(entry => ({ ...entry, path: entry.path.replace(/\\/g, '/').replace(/^(\.\/)+/, '') }))
+    .filter(entry => entry.path && !entry.path.endsWith('/'));
+
+  const roots = new Set(files.map(entry => entry.path.split('/')[0]));
+  if (roots.size === 1 && files.every(entry => entry.path.includes('/'))) {
+    const root = [...roots][0];
+    files = files.map(entry => ({ ...entry, path: entry.path.slice(root.length + 1) }));
+  }
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  return files
+    .filter(entry => !entry.path.split('/').some(segment => ARCHIVE_EXCLUDES.includes(segment)))
+    .map(entry => {
+      try {
+        return { path: entry.path, content: decoder.decode(entry.content) };
+      } catch {
+        return { path: entry.path, content: entry.content.toString('base64'), encoding: 'base64' as const };
+      }
+    });
+}
+
 export class ProjectManager {
   /**
    * Create new project
    * Optimization: Use template project to speed up creation (7-12s vs original 25-52s)
    */
   async createProject(config: ProjectConfig): Promise<CreateProjectResult> {
+    assertProjectId(config.projectId);
     const projectPath = this.getProjectPath(config.projectId);
     const start = Date.now();
+    let addedDeps: MergedDependencies = { dependencies: {}, devDependencies: {} };
 
-    // Try to use template for fast creation (recommended)
-    if (templateManager.isReady()) {
-      console.log(`[ProjectManager] Using template for fast creation: ${config.projectId}`);
-
-      // Copy from template (~3-5s, includes node_modules)
-      await templateManager.createFromTemplate(config.projectId);
-
-      // Write user's source code files (skip config files from template)
-      if (config.files && config.files.length > 0) {
-        // Skip files that should use template's version (have correct dependencies & config)
-        const skipFiles = [
-          'package.json',
-          'vite.config.ts',
-          'bun.lock',
-          'bun.lockb',
-          'postcss.config.js',
-          'postcss.config.cjs',
-          'postcss.config.mjs',
-          'tailwind.config.js',
-          'tailwind.config.ts',
-          'tailwind.config.mjs',
-          'tsconfig.json',
-          'tsconfig.node.json',
-        ];
-        let writtenCount = 0;
-        const skippedFiles: string[] = [];
-        let userPackageJson: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> } | null = null;
-
-        for (const file of config.files) {
-          // Skip config files to preserve template's correct dependency setup
-          if (skipFiles.includes(file.path)) {
-            skippedFiles.push(file.path);
-            // Extract user's package.json for dependency merging
-            if (file.path === 'package.json') {
-              try {
-                userPackageJson = JSON.parse(file.content);
-              } catch {
-                // Invalid JSON, ignore
-              }
-            }
-            continue;
-          }
-          const filePath = join(projectPath, file.path);
-          await mkdir(dirname(filePath), { recursive: true });
-          await writeFile(filePath, file.content, 'utf-8');
-          writtenCount++;
+    const template = getTemplate(config.template);
+    if (!template) {
+      throw new UnknownTemplateError(config.template!);
+    }
+
+    // Fastest: take over a warm instance (directory moved into place, Vite already running)
+    // Warm instances run the default template only
+    const warm = template.name === DEFAULT_TEMPLATE ? await warmPool.claim(config.projectId) : null;
+
+    // Once claimed, the warm instance serves this directory: undo the claim if creation fails
+    try {
+      // Try to use template for fast creation (recommended)
+      if (warm || templateManager.isReady(template.name)) {
+        if (warm) {
+          console.log(`[ProjectManager] Using warm instance ${warm.warmId} for: ${config.projectId}`);
+        } else {
+          console.log(`[ProjectManager] Using template ${template.name} for fast creation: ${config.projectId}`);
+
+          // Copy from template (~3-5s, includes node_modules)
+          await templateManager.createFromTemplate(config.projectId, template.name);
         }
 
-        // Merge user's extra dependencies into template's package.json
-        if (userPackageJson) {
-          const extraDeps = await this.mergeUserDependencies(projectPath, userPackageJson);
+        if (config.files && config.files.length > 0) {
+          addedDeps = await this.writeUserFiles(projectPath, config.files, template);
+          const extraDeps = [
+            ...Object.keys(addedDeps.dependencies),
+            ...Object.keys(addedDeps.devDependencies).map(name => `${name} (dev)`),
+          ];
           if (extraDeps.length > 0) {
             console.log(`[ProjectManager] Installing extra user dependencies: ${extraDeps.join(', ')}`);
             // Use ensure() instead of install() to force bun install even if node_modules exists
             await dependencyManager.ensure(projectPath);
           }
-        }
-
-        // Log skipped files for future optimization
-        if (skippedFiles.length > 0) {
-          console.log(`[ProjectManager] Wrote ${writtenCount} user files`);
-          console.log(`[ProjectManager] Skipped config files (using template): ${skippedFiles.join(', ')}`);
         } else {
-          console.log(`[ProjectManager] Wrote ${writtenCount} user files`);
+          // Write default app (App.tsx for React templates)
+          const app = generateDefaultApp(template, config.projectName);
+          await writeFile(join(projectPath, app.path), app.content, 'utf-8');
         }
+
+        console.log(`[ProjectManager] Project created from template in ${Date.now() - start}ms`);
       } else {
-        // Write default App.tsx
-        const appPath = join(projectPath, 'src', 'App.tsx');
-        await writeFile(appPath, generateDefaultAppTsx(config.projectName), 'utf-8');
-      }
+        // Fallback to original method (slow, used when template is not ready)
+        console.log(`[ProjectManager] Template not ready, using slow path: ${config.projectId}`);
+
+        // Create project directory
+        await mkdir(projectPath, { recursive: true });
+
+        // Generate scaffold files
+        const scaffold = generateScaffold(config);
+        if (!scaffold.success) {
+          throw new Error('Failed to generate scaffold');
+        }
+
+        // Write scaffold files
+        for (const file of scaffold.files) {
+          const filePath = join(projectPath, file.path);
+          await mkdir(dirname(filePath), { recursive: true });
+          await writeFile(filePath, file.content, 'utf-8');
+        }
 
-      console.log(`[ProjectManager] Project created from template in ${Date.now() - start}ms`);
-    } else {
-      // Fallback to original method (slow, used when template is not ready)
-      console.log(`[ProjectManager] Template not ready, using slow path: ${config.projectId}`);
+        // User's files (e.g. an import) on top of the scaffold, or the default app
+        if (config.files && config.files.length > 0) {
+          addedDeps = await this.writeUserFiles(projectPath, config.files, template);
+        } else {
+          const app = generateDefaultApp(template, config.projectName);
+          await writeFile(join(projectPath, app.path), app.content, 'utf-8');
+        }
 
-      // Create project directory
-      await mkdir(projectPath, { recursive: true });
+        console.log(`[ProjectManager] Created project: ${config.projectId}`);
 
-      // Generate scaffold files
-      const scaffold = generateScaffold(config);
-      if (!scaffold.success) {
-        throw new Error('Failed to generate scaffold');
+        // Install dependencies, including the user's extra ones (this is the slowest step, 20-45s)
+        const installResult = await dependencyManager.install(projectPath);
+        if (!installResult.success) {
+          console.error(`[ProjectManager] Failed to install dependencies:`, installResult.logs);
+          throw new Error('Failed to install dependencies');
+        }
       }
 
-      // Write scaffold files
-      for (const file of scaffold.files) {
-        const filePath = join(projectPath, file.path);
-        await mkdir(dirname(filePath), { recursive: true });
-        await writeFile(filePath, file.content, 'utf-8');
+      await projectRegistry.register({
+        projectId: config.projectId,
+        projectName: config.projectName,
+        description: config.description,
+        owner: config.owner,
+        pinned: config.pinned,
+        ttlSeconds: config.ttlSeconds,
+        private: config.private,
+        template: template.name,
+        templateVersion: templateManager.getVersion(template.name) ?? undefined,
+        extraDependencies: addedDeps.dependencies,
+        extraDevDependencies: addedDeps.devDependencies,
+        status: 'starting',
+      });
+    } catch (error) {
+      if (warm) {
+        console.warn(`[ProjectManager] Creating ${config.projectId} failed, stopping warm instance ${warm.warmId}`);
+        await warmPool.abandon(config.projectId, warm);
       }
+      throw error;
+    }
 
-      // Write default App.tsx
-      const appPath = join(projectPath, 'src', 'App.tsx');
-      await writeFile(appPath, generateDefaultAppTsx(config.projectName), 'utf-8');
+    // Start Vite Dev Server (~2-5s), or wait for the warm one to serve the new base
+    const instance = warm
+      ? await this.startFromWarm(warm.warmId, config.projectId, projectPath)
+      : await viteManager.start(config.projectId, projectPath);
 
-      console.log(`[ProjectManager] Created project: ${config.projectId}`);
+    console.log(`[ProjectManager] Total creation time: ${Date.now() - start}ms`);
 
-      // Install dependencies (this is the slowest step, 20-45s)
-      const installResult = await dependencyManager.install(projectPath);
-      if (!installResult.success) {
-        console.error(`[ProjectManager] Failed to install dependencies:`, installResult.logs);
-        throw new Error('Failed to install dependencies');
-      }
+    return {
+      projectPath,
+      port: instance.port,
+      previewUrl: `http://localhost:${instance.port}`,
+      hmrUrl: `ws://localhost:${instance.port}`,
+    };
+  }
+
+  /**
+   * Hand a claimed warm instance over to the project, start a fresh one if that fails
+   */
+  private async startFromWarm(warmId: string, projectId: string, projectPath: string): Promise<ViteInstance> {
+    try {
+      return await viteManager.rebase(warmId, projectId, projectPath);
+    } catch (error) {
+      console.warn(`[ProjectManager] Warm instance ${warmId} unusable, starting fresh:`, error);
+      await viteManager.stop(warmId);
+      return viteManager.start(projectId, projectPath);
+    }
+  }
+
+  /**
+   * Fork project: copy source files of an existing project onto a fresh template copy
+   * vite.config.ts is regenerated for the new base/HMR path; extra dependencies are kept
+   */
+  async forkProject(sourceId: string, config: ForkConfig): Promise<CreateProjectResult> {
+    assertProjectId(config.projectId);
+    const sourcePath = this.getProjectPath(sourceId);
+    const start = Date.now();
+    const source = await projectRegistry.get(sourceId);
+    const template = getTemplate(source?.template) ?? getTemplate()!;
+
+    // Fresh copy of the source's template (writes vite.config.ts for the new projectId)
+    const projectPath = await templateManager.createFromTemplate(config.projectId, template.name);
+
+    // Source files on top (template's vite.config.ts and package.json are kept)
+    await cp(sourcePath, projectPath, {
+      recursive: true,
+      force: true,
+      filter: (src) => {
+        const relativePath = relative(sourcePath, src);
+        if (relativePath === 'vite.config.ts' || relativePath === 'package.json') return false;
+        return !relativePath.split(sep).some(segment => ARCHIVE_EXCLUDES.includes(segment));
+      },
+    });
+
+    // Merge extra dependencies of the source into template's package.json
+    let addedDeps: MergedDependencies = { dependencies: {}, devDependencies: {} };
+    try {
+      const sourcePkg = JSON.parse(await readFile(join(sourcePath, 'package.json'), 'utf-8'));
+      addedDeps = await this.mergeUserDependencies(projectPath, sourcePkg, template);
+    } catch {
+      // Source has no readable package.json, template dependencies only
+    }
+    if (Object.keys(addedDeps.dependencies).length > 0 || Object.keys(addedDeps.devDependencies).length > 0) {
+      await dependencyManager.ensure(projectPath);
     }
 
-    // Start Vite Dev Server (~2-5s)
+    await projectRegistry.register({
+      projectId: config.projectId,
+      projectName: config.projectName || source?.projectName || config.projectId,
+      description: config.description ?? source?.description,
+      owner: config.owner ?? source?.owner,
+      private: source?.private,
+      forkedFrom: sourceId,
+      template: template.name,
+      templateVersion: templateManager.getVersion(template.name) ?? undefined,
+      extraDependencies: addedDeps.dependencies,
+      extraDevDependencies: addedDeps.devDependencies,
+      status: 'starting',
+    });
+
     const instance = await viteManager.start(config.projectId, projectPath);
 
-    console.log(`[ProjectManager] Total creation time: ${Date.now() - start}ms`);
+    console.log(`[ProjectManager] Forked ${sourceId} -> ${config.projectId} in ${Date.now() - start}ms`);
 
     return {
       projectPath,
@@ -169,7 +320,10 @@ export class ProjectManager {
 
       return {
         exists: true,
-        devServerRunning: instance?.status === 'running',
+        devServerRunning: isServing(instance?.status),
+        devServerStatus: instance?.status,
+        health: instance?.health,
+        crash: crashSupervisor.getState(projectId) ?? undefined,
         port: instance?.port,
         fileCount,
         lastModified: stats.mtime,
@@ -183,45 +337,161 @@ export class ProjectManager {
     }
   }
 
+  /**
+   * Disk usage of a project, split into blocks shared with the template and its own
+   * Walks the whole tree including node_modules; null if the project doesn't exist
+   */
+  async getDiskUsage(projectId: string): Promise<DiskUsage | null> {
+    const projectPath = this.getProjectPath(projectId);
+    try {
+      if (!(await stat(projectPath)).isDirectory()) return null;
+    } catch {
+      return null;
+    }
+    return measureDiskUsage(projectPath);
+  }
+
   /**
    * Update project files
+   * The batch is applied atomically: either every update is written or none is
    */
-  async updateFiles(projectId: string, updates: FileUpdate[]): Promise<void> {
+  async updateFiles(
+    projectId: string,
+    updates: FileUpdate[],
+    options: ApplyOptions = {}
+  ): Promise<FileUpdateResult> {
     const projectPath = this.getProjectPath(projectId);
 
-    for (const update of updates) {
-      const filePath = join(projectPath, update.path);
-      // Default to 'update' operation (compatible with backend not passing operation field)
-      const operation = update.operation || 'update';
+    // Capture state before the batch (no-op if unchanged since the last snapshot)
+    await this.captureSnapshot(projectId, 'files-update');
 
-      switch (operation) {
-        case 'create':
-        case 'update':
-          await mkdir(dirname(filePath), { recursive: true });
-          await writeFile(filePath, update.content, 'utf-8');
-          console.log(`[ProjectManager] ${operation}: ${update.path}`);
-          break;
+    const result = await applyFileUpdates(projectPath, updates, options);
+    if (!result.success) {
+      console.warn(`[ProjectManager] Rejected update batch for ${projectId}: ${result.errors.length} error(s)`);
+      return result;
+    }
 
-        case 'delete':
-          try {
-            await rm(filePath);
-            console.log(`[ProjectManager] Deleted: ${update.path}`);
-          } catch {
-            // File may not exist
-          }
-          break;
+    // Capture state after the batch so it can be restored later
+    await this.captureSnapshot(projectId, 'files-update');
+    await projectRegistry.touch(projectId);
+
+    // Mark project as active
+    viteManager.markActive(projectId);
+
+    // New sources may fix a crash loop, allow the next request to start Vite again
+    crashSupervisor.reset(projectId);
+
+    // A degraded preview may compile now; re-probe once Vite's watcher has picked up the change
+    if (viteManager.getInstance(projectId)?.status === 'degraded') {
+      setTimeout(() => {
+        viteManager.checkHealth(projectId).catch((error) => {
+          console.warn(`[ProjectManager] Health re-check failed for ${projectId}:`, error);
+        });
+      }, 500);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create snapshot of project source tree
+   */
+  async createSnapshot(projectId: string, label?: string): Promise<Snapshot> {
+    return snapshotManager.capture(projectId, this.getProjectPath(projectId), 'manual', label);
+  }
+
+  /**
+   * Restore project source tree to a snapshot
+   * Source changes are picked up by Vite HMR; config changes restart Vite (full reload)
+   */
+  async restoreSnapshot(
+    projectId: string,
+    snapshotId: string
+  ): Promise<{ snapshotId: string; changedFiles: string[]; reload: 'none' | 'hmr' | 'full' }> {
+    const projectPath = this.getProjectPath(projectId);
+
+    // Keep current state restorable
+    await snapshotManager.capture(projectId, projectPath, 'pre-restore');
+
+    const changedFiles = await snapshotManager.restore(projectId, projectPath, snapshotId);
+    const configChanged = changedFiles.some(path => TEMPLATE_CONFIG_FILES.includes(path));
+    let reload: 'none' | 'hmr' | 'full' = changedFiles.length > 0 ? 'hmr' : 'none';
+
+    if (configChanged) {
+      reload = 'full';
+
+      if (changedFiles.includes('package.json')) {
+        await dependencyManager.ensure(projectPath);
+      }
+
+      const instance = viteManager.getInstance(projectId);
+      if (instance && isServing(instance.status)) {
+        console.log(`[ProjectManager] Config files changed, restarting Vite: ${projectId}`);
+        await viteManager.stop(projectId);
+        await viteManager.start(projectId, projectPath);
       }
     }
 
-    // Mark project as active
     viteManager.markActive(projectId);
+    await projectRegistry.touch(projectId);
+    return { snapshotId, changedFiles, reload };
+  }
+
+  /**
+   * Upgrade config files and template dependencies to the installed template version
+   * With dryRun only the plan is returned. Otherwise the current state is snapshotted
+   * first, and restored if the new dependencies fail to install
+   */
+  async upgradeTemplate(projectId: string, dryRun = false): Promise<TemplateUpgradeResult> {
+    const projectPath = this.getProjectPath(projectId);
+    const record = await projectRegistry.get(projectId);
+    const plan = await templateUpgrader.plan(
+      projectId,
+      projectPath,
+      record?.template ?? DEFAULT_TEMPLATE,
+      record?.templateVersion ?? null
+    );
+    if (dryRun) {
+      return { ...plan, dryRun };
+    }
+
+    const snapshot = await snapshotManager.capture(projectId, projectPath, 'pre-upgrade');
+    await templateUpgrader.apply(projectPath, plan);
+
+    if (plan.dependencies.length > 0 || plan.files.some(file => LOCKFILES.includes(file.path))) {
+      const result = await dependencyManager.ensure(projectPath);
+      if (!result.success) {
+        console.error(`[ProjectManager] Template upgrade install failed for ${projectId}:`, result.logs);
+        await snapshotManager.restore(projectId, projectPath, snapshot.id);
+        await dependencyManager.ensure(projectPath);
+        throw new Error(`Failed to install upgraded dependencies, restored snapshot ${snapshot.id}`);
+      }
+    }
+
+    if (plan.files.length > 0 || plan.dependencies.length > 0) {
+      const instance = viteManager.getInstance(projectId);
+      if (instance && isServing(instance.status)) {
+        console.log(`[ProjectManager] Template upgraded, restarting Vite: ${projectId}`);
+        await viteManager.stop(projectId);
+        await viteManager.start(projectId, projectPath);
+      }
+      await projectRegistry.touch(projectId);
+    }
+
+    await projectRegistry.update(projectId, { template: plan.template, templateVersion: plan.toVersion });
+    console.log(
+      `[ProjectManager] Upgraded ${projectId} to template ${plan.template}@${plan.toVersion} ` +
+      `(${plan.files.length} files, ${plan.dependencies.length} dependencies)`
+    );
+    return { ...plan, dryRun, snapshotId: snapshot.id };
   }
 
   /**
    * Read project file
+   * Throws PathSecurityError if the path is not allowed
    */
   async readFile(projectId: string, filePath: string): Promise<string | null> {
-    const fullPath = join(this.getProjectPath(projectId), filePath);
+    const fullPath = await resolveProjectPath(this.getProjectPath(projectId), filePath, 'read');
     try {
       return await readFile(fullPath, 'utf-8');
     } catch {
@@ -262,18 +532,26 @@ export class ProjectManager {
   /**
    * Start project preview
    */
-  async startPreview(projectId: string): Promise<{ port: number; url: string }> {
+  async startPreview(projectId: string): Promise<PreviewStartResult> {
     const projectPath = this.getProjectPath(projectId);
+    const alreadyServing = isServing(viteManager.getInstance(projectId)?.status);
 
     // Ensure dependencies are installed
     await dependencyManager.install(projectPath);
 
-    // Start Vite
+    // Start Vite (probes readiness on fresh start)
     const instance = await viteManager.start(projectId, projectPath);
 
+    // Existing instance: re-probe so the result reflects current sources
+    if (alreadyServing) {
+      await viteManager.checkHealth(projectId);
+    }
+
     return {
       port: instance.port,
       url: `http://localhost:${instance.port}`,
+      status: instance.status,
+      health: instance.health,
     };
   }
 
@@ -284,13 +562,37 @@ export class ProjectManager {
     await viteManager.stop(projectId);
   }
 
+  /**
+   * Build project for production and publish it under /s/{projectId}/
+   * Does not require a running Vite instance
+   */
+  async buildProject(projectId: string): Promise<BuildRecord> {
+    const projectPath = this.getProjectPath(projectId);
+
+    // Ensure dependencies are installed
+    await dependencyManager.install(projectPath);
+
+    return buildManager.build(projectId, projectPath);
+  }
+
   /**
    * Delete project
    */
   async deleteProject(projectId: string): Promise<void> {
+    // Internal state (_builds, _snapshots, ...) lives next to the projects
+    assertProjectId(projectId);
+
     // Stop Vite
     await viteManager.stop(projectId);
 
+    // Remove published builds and buffered logs
+    await buildManager.removeBuilds(projectId);
+    logBuffer.clear(projectId);
+    runtimeErrorStore.clear(projectId);
+    crashSupervisor.clear(projectId);
+    await snapshotManager.removeAll(projectId);
+    await projectRegistry.remove(projectId);
+
     // Delete project directory
     const projectPath = this.getProjectPath(projectId);
     try {
@@ -302,6 +604,47 @@ export class ProjectManager {
     }
   }
 
+  /**
+   * Stream project source as an archive (dependencies and build output excluded)
+   * Entries are prefixed with the projectId directory
+   */
+  exportProject(projectId: string, format: ArchiveFormat): Readable {
+    const projectPath = this.getProjectPath(projectId);
+    return createArchiveStream(projectPath, format, {
+      excludes: ARCHIVE_EXCLUDES,
+      prefix: basename(projectPath),
+    });
+  }
+
+  /**
+   * Create project from a .tar.gz or .zip archive
+   * Files go through the regular template path, so the archive's package.json
+   * dependencies are merged into the template's
+   */
+  async importProject(
+    config: Omit<ProjectConfig, 'files' | 'projectName'> & { projectName?: string },
+    archive: Buffer
+  ): Promise<CreateProjectResult> {
+    assertProjectId(config.projectId);
+    const files = archiveToProjectFiles(extractArchive(archive));
+    if (files.length === 0) {
+      throw new Error('Archive contains no files');
+    }
+
+    let projectName = config.projectName;
+    if (!projectName) {
+      const pkgFile = files.find(file => file.path === 'package.json' && !file.encoding);
+      try {
+        projectName = pkgFile ? JSON.parse(pkgFile.content).name : undefined;
+      } catch {
+        // Invalid package.json, fall back to projectId
+      }
+    }
+
+    console.log(`[ProjectManager] Importing ${files.length} files into ${config.projectId}`);
+    return this.createProject({ ...config, projectName: projectName || config.projectId, files });
+  }
+
   /**
    * Reinstall dependencies (force)
    * Deletes node_modules and runs bun install
@@ -334,6 +677,9 @@ export class ProjectManager {
     if (!result.success) {
       throw new Error(`Failed to add package: ${packageName}`);
     }
+
+    const { name, version } = parsePackageSpec(packageName);
+    await projectRegistry.addDependency(projectId, name, version, isDev);
   }
 
   /**
@@ -346,62 +692,84 @@ export class ProjectManager {
     if (!result.success) {
       throw new Error(`Failed to remove package: ${packageName}`);
     }
+
+    await projectRegistry.removeDependency(projectId, packageName);
   }
 
   /**
    * Get project path
+   * @throws InvalidProjectIdError for ids that are not project directories
    */
   getProjectPath(projectId: string): string {
-    // Security check: Prevent path traversal
-    const safeId = projectId.replace(/[^a-zA-Z0-9_-]/g, '');
-    return join(DATA_DIR, safeId);
+    // Rejected rather than stripped, so `abc!` can never resolve to project abc
+    assertProjectId(projectId);
+    return join(DATA_DIR, projectId);
+  }
+
+  /**
+   * Write user's source files over a fresh project
+   * Config files keep the template's version (correct dependencies and setup);
+   * the user's package.json only contributes extra dependencies, which are returned
+   */
+  private async writeUserFiles(
+    projectPath: string,
+    files: ProjectFile[],
+    template: TemplateDefinition
+  ): Promise<MergedDependencies> {
+    let writtenCount = 0;
+    const skippedFiles: string[] = [];
+    let userPackageJson: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> } | null = null;
+
+    for (const file of files) {
+      // Skip config files to preserve template's correct dependency setup
+      if (TEMPLATE_CONFIG_FILES.includes(file.path)) {
+        skippedFiles.push(file.path);
+        // Extract user's package.json for dependency merging
+        if (file.path === 'package.json') {
+          try {
+            userPackageJson = JSON.parse(file.content);
+          } catch {
+            // Invalid JSON, ignore
+          }
+        }
+        continue;
+      }
+      const filePath = await resolveProjectPath(projectPath, file.path, 'write');
+      await mkdir(dirname(filePath), { recursive: true });
+      const content = file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content;
+      await writeFile(filePath, content, 'utf-8');
+      writtenCount++;
+    }
+
+    console.log(`[ProjectManager] Wrote ${writtenCount} user files`);
+    if (skippedFiles.length > 0) {
+      console.log(`[ProjectManager] Skipped config files (using template): ${skippedFiles.join(', ')}`);
+    }
+
+    // Merge user's extra dependencies into template's package.json
+    return userPackageJson
+      ? this.mergeUserDependencies(projectPath, userPackageJson, template)
+      : { dependencies: {}, devDependencies: {} };
   }
 
   /**
    * Merge user's extra dependencies into template's package.json
-   * Returns list of extra dependencies that were added
+   * Returns the dependencies that were added
    */
   private async mergeUserDependencies(
     projectPath: string,
-    userPkg: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> }
-  ): Promise<string[]> {
+    userPkg: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> },
+    template: TemplateDefinition
+  ): Promise<MergedDependencies> {
     const pkgPath = join(projectPath, 'package.json');
-    const extraDeps: string[] = [];
+    const added: MergedDependencies = { dependencies: {}, devDependencies: {} };
 
     try {
       const templatePkg = JSON.parse(await readFile(pkgPath, 'utf-8'));
 
       // Template's core dependencies that should not be overwritten
       // These are pre-installed in the template for fast startup
-      const coreDeps = new Set([
-        // Core React
-        'react', 'react-dom', 'react-router-dom',
-        // Styling
-        'clsx', 'tailwind-merge', 'class-variance-authority', 'tw-animate-css',
-        // All Radix UI primitives
-        '@radix-ui/react-accordion', '@radix-ui/react-alert-dialog', '@radix-ui/react-aspect-ratio',
-        '@radix-ui/react-avatar', '@radix-ui/react-checkbox', '@radix-ui/react-collapsible',
-        '@radix-ui/react-context-menu', '@radix-ui/react-dialog', '@radix-ui/react-dropdown-menu',
-        '@radix-ui/react-hover-card', '@radix-ui/react-icons', '@radix-ui/react-label',
-        '@radix-ui/react-menubar', '@radix-ui/react-navigation-menu', '@radix-ui/react-popover',
-        '@radix-ui/react-progress', '@radix-ui/react-radio-group', '@radix-ui/react-scroll-area',
-        '@radix-ui/react-select', '@radix-ui/react-separator', '@radix-ui/react-slider',
-        '@radix-ui/react-slot', '@radix-ui/react-switch', '@radix-ui/react-tabs',
-        '@radix-ui/react-toast', '@radix-ui/react-toggle', '@radix-ui/react-toggle-group',
-        '@radix-ui/react-tooltip',
-        // Common shadcn/ui dependencies
-        'lucide-react', 'cmdk', 'sonner', 'vaul', 'input-otp',
-        'embla-carousel-react', 'react-resizable-panels', 'react-day-picker', 'recharts',
-        // Form & validation
-        'react-hook-form', '@hookform/resolvers', 'zod',
-        // State & utilities
-        'zustand', 'date-fns', 'axios', 'framer-motion', 'next-themes',
-        // Dev dependencies
-        '@babel/core', '@babel/plugin-syntax-typescript',
-        '@types/react', '@types/react-dom', '@vitejs/plugin-react',
-        '@tailwindcss/postcss', '@tailwindcss/vite', '@tailwindcss/typography', 'tailwindcss', 'postcss-import',
-        'typescript', 'vite', '@lookfree0822/vite-plugin-jsx-tagger',
-      ]);
+      const coreDeps = getCoreDependencies(template);
 
       // Merge user's dependencies (excluding core)
       if (userPkg.dependencies) {
@@ -409,7 +777,7 @@ export class ProjectManager {
           if (!coreDeps.has(name) && !templatePkg.dependencies?.[name]) {
             templatePkg.dependencies = templatePkg.dependencies || {};
             templatePkg.dependencies[name] = version;
-            extraDeps.push(name);
+            added.dependencies[name] = version;
           }
         }
       }
@@ -420,20 +788,31 @@ export class ProjectManager {
           if (!coreDeps.has(name) && !templatePkg.devDependencies?.[name]) {
             templatePkg.devDependencies = templatePkg.devDependencies || {};
             templatePkg.devDependencies[name] = version;
-            extraDeps.push(`${name} (dev)`);
+            added.devDependencies[name] = version;
           }
         }
       }
 
       // Write merged package.json if there are extra deps
-      if (extraDeps.length > 0) {
+      if (Object.keys(added.dependencies).length > 0 || Object.keys(added.devDependencies).length > 0) {
         await writeFile(pkgPath, JSON.stringify(templatePkg, null, 2), 'utf-8');
       }
     } catch (error) {
       console.error('[ProjectManager] Failed to merge dependencies:', error);
     }
 
-    return extraDeps;
+    return added;
+  }
+
+  /**
+   * Capture snapshot without failing the surrounding operation
+   */
+  private async captureSnapshot(projectId: string, reason: Snapshot['reason']): Promise<void> {
+    try {
+      await snapshotManager.capture(projectId, this.getProjectPath(projectId), reason);
+    } catch (error) {
+      console.warn(`[ProjectManager] Failed to capture snapshot for ${projectId}:`, error);
+    }
   }
 
   /**
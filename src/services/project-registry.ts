@@ -0,0 +1,270 @@
+/**
+ * Project Registry
+ * Persistent project metadata stored as a JSON file under DATA_DIR
+ *
+ * Tracks what the filesystem alone cannot tell: name, description, owner,
+ * timestamps, template version, dependency additions and last known status.
+ */
+
+import { EventEmitter } from 'events';
+import { readFile, writeFile, rename, readdir, stat, mkdir } from 'fs/promises';
+import { join, dirname } from 'path';
+import { viteManager } from './vite-manager';
+import { crashSupervisor } from './crash-supervisor';
+import { templateManager, type TemplateManager } from './template-manager';
+import { getTemplate, DEFAULT_TEMPLATE } from './template-registry';
+import { isProjectId } from '../lib/safe-path';
+import type { ProjectRecord, ProjectListQuery, ExitEvent } from '../types';
+
+const DATA_DIR = process.env.DATA_DIR || '/data/sites';
+const REGISTRY_FILE = process.env.REGISTRY_FILE || join(DATA_DIR, 'projects.json');
+
+export class ProjectRegistry {
+  private records: Map<string, ProjectRecord> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private saveChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private registryFile: string = REGISTRY_FILE,
+    source?: EventEmitter,
+    supervisor?: EventEmitter,
+    private templates?: Pick<TemplateManager, 'getVersion'>
+  ) {
+    source?.on('started', ({ projectId }: { projectId: string }) => this.setStatus(projectId, 'running'));
+    source?.on('health', ({ projectId, status }: { projectId: string; status: ProjectRecord['status'] }) => this.setStatus(projectId, status));
+    source?.on('stopped', ({ projectId }: { projectId: string }) => this.setStatus(projectId, 'stopped'));
+    source?.on('exit', (event: ExitEvent) => {
+      if (event.unexpected) this.setStatus(event.projectId, 'error');
+    });
+    // Otherwise a project that never came up stays 'starting'
+    source?.on('start-failed', ({ projectId, reason }: { projectId: string; reason: string }) =>
+      this.setStatus(projectId, 'error', reason));
+    supervisor?.on('gave-up', ({ projectId, reason }: { projectId: string; reason: string }) =>
+      this.setStatus(projectId, 'error', reason));
+  }
+
+  /**
+   * Load registry file (once)
+   */
+  async load(): Promise<void> {
+    if (this.loadPromise) return this.loadPromise;
+
+    this.loadPromise = (async () => {
+      try {
+        const content = await readFile(this.registryFile, 'utf-8');
+        const records: ProjectRecord[] = JSON.parse(content);
+        for (const record of records) {
+          this.records.set(record.projectId, record);
+        }
+        console.log(`[ProjectRegistry] Loaded ${this.records.size} projects`);
+      } catch {
+        // No registry yet
+      }
+    })();
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Sync registry with project directories on disk
+   * Adds projects created before the registry existed, drops records whose directory is gone
+   */
+  async reconcile(dataDir: string = DATA_DIR): Promise<void> {
+    await this.load();
+
+    // Underscore-prefixed directories are internal (_template, _builds, ...)
+    let entries: string[] = [];
+    try {
+      entries = (await readdir(dataDir, { withFileTypes: true }))
+        .filter(e => e.isDirectory() && isProjectId(e.name))
+        .map(e => e.name);
+    } catch {
+      return;
+    }
+
+    const onDisk = new Set<string>();
+    for (const projectId of entries) {
+      const projectPath = join(dataDir, projectId);
+      let pkg: { name?: string; description?: string };
+      try {
+        pkg = JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf-8'));
+      } catch {
+        continue;
+      }
+      onDisk.add(projectId);
+
+      if (!this.records.has(projectId)) {
+        const stats = await stat(projectPath);
+        const createdAt = new Date(stats.birthtimeMs || stats.mtimeMs).toISOString();
+        this.records.set(projectId, {
+          projectId,
+          projectName: pkg.name || projectId,
+          description: pkg.description,
+          createdAt,
+          lastEditedAt: stats.mtime.toISOString(),
+          extraDependencies: {},
+          extraDevDependencies: {},
+          status: 'stopped',
+        });
+      }
+    }
+
+    for (const projectId of this.records.keys()) {
+      if (!onDisk.has(projectId)) {
+        this.records.delete(projectId);
+      }
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Register newly created project
+   */
+  async register(record: Omit<ProjectRecord, 'createdAt' | 'lastEditedAt'>): Promise<ProjectRecord> {
+    await this.load();
+
+    const now = new Date().toISOString();
+    const full: ProjectRecord = { ...record, createdAt: now, lastEditedAt: now };
+    this.records.set(record.projectId, full);
+    await this.save();
+
+    return full;
+  }
+
+  /**
+   * Update fields of an existing record
+   */
+  async update(projectId: string, changes: Partial<Omit<ProjectRecord, 'projectId'>>): Promise<ProjectRecord | null> {
+    await this.load();
+
+    const record = this.records.get(projectId);
+    if (!record) return null;
+
+    Object.assign(record, changes);
+    await this.save();
+    return record;
+  }
+
+  /**
+   * Record an edit (files, dependencies, restore)
+   */
+  async touch(projectId: string): Promise<void> {
+    await this.update(projectId, { lastEditedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Record a dependency added on top of the template
+   */
+  async addDependency(projectId: string, name: string, version: string, isDev = false): Promise<void> {
+    await this.load();
+
+    const record = this.records.get(projectId);
+    if (!record) return;
+
+    const target = isDev ? record.extraDevDependencies : record.extraDependencies;
+    target[name] = version;
+    record.lastEditedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  /**
+   * Forget a dependency (after removal)
+   */
+  async removeDependency(projectId: string, name: string): Promise<void> {
+    await this.load();
+
+    const record = this.records.get(projectId);
+    if (!record) return;
+
+    delete record.extraDependencies[name];
+    delete record.extraDevDependencies[name];
+    record.lastEditedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  /**
+   * Remove record
+   */
+  async remove(projectId: string): Promise<void> {
+    await this.load();
+
+    if (this.records.delete(projectId)) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Get single record
+   */
+  async get(projectId: string): Promise<ProjectRecord | null> {
+    await this.load();
+    return this.records.get(projectId) ?? null;
+  }
+
+  /**
+   * All records (unordered)
+   */
+  async all(): Promise<ProjectRecord[]> {
+    await this.load();
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * List records matching query, most recently edited first
+   */
+  async list(query: ProjectListQuery = {}): Promise<{ total: number; projects: ProjectRecord[] }> {
+    await this.load();
+
+    const search = query.search?.toLowerCase();
+    const matches = Array.from(this.records.values())
+      .filter(r => !query.projectIds || query.projectIds.includes(r.projectId))
+      .filter(r => !query.owner || r.owner === query.owner)
+      .filter(r => !query.status || r.status === query.status)
+      .filter(r => !query.template || (r.template ?? DEFAULT_TEMPLATE) === query.template)
+      .filter(r => !query.templateVersion || r.templateVersion === query.templateVersion)
+      .filter(r => !query.outdated || this.isOutdated(r))
+      .filter(r => !search || [r.projectId, r.projectName, r.description || '']
+        .some(value => value.toLowerCase().includes(search)))
+      .sort((a, b) => b.lastEditedAt.localeCompare(a.lastEditedAt));
+
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = Math.max(1, Math.min(query.limit ?? 100, 1000));
+
+    return {
+      total: matches.length,
+      projects: matches.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * Whether the project was copied from an older version of its template
+   * (or from an unrecorded one); false while the template's version is unknown
+   */
+  private isOutdated(record: ProjectRecord): boolean {
+    const template = getTemplate(record.template);
+    const current = template ? this.templates?.getVersion(template.name) : null;
+    return !!current && record.templateVersion !== current;
+  }
+
+  private setStatus(projectId: string, status: ProjectRecord['status'], statusReason?: string): void {
+    this.update(projectId, { status, statusReason }).catch((error) => {
+      console.error(`[ProjectRegistry] Failed to update status for ${projectId}:`, error);
+    });
+  }
+
+  /**
+   * Persist registry (serialized, written via temp file + rename)
+   */
+  private save(): Promise<void> {
+    this.saveChain = this.saveChain.catch(() => {}).then(async () => {
+      const tempFile = `${this.registryFile}.tmp`;
+      await mkdir(dirname(this.registryFile), { recursive: true });
+      await writeFile(tempFile, JSON.stringify(Array.from(this.records.values()), null, 2), 'utf-8');
+      await rename(tempFile, this.registryFile);
+    });
+    return this.saveChain;
+  }
+}
+
+export const projectRegistry = new ProjectRegistry(REGISTRY_FILE, viteManager, crashSupervisor, templateManager);
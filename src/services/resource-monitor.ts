@@ -0,0 +1,268 @@
+/**
+ * Resource Monitor
+ * Samples RSS/CPU of every Vite process tree and enforces a memory budget
+ *
+ * When the summed RSS exceeds the budget (or one instance exceeds the
+ * per-instance limit), the least-recently-active instances are stopped.
+ * When all ports are taken and a start is queued, a warm pool instance is
+ * released, or if none is ready the idlest instance is stopped to make room.
+ * Pinned projects and projects being processed are never evicted.
+ */
+
+import { viteManager, isServing, type ViteDevServerManager } from './vite-manager';
+import { projectRegistry } from './project-registry';
+import { warmPool } from './warm-pool';
+import { sampleProcessTrees } from '../lib/proc-stats';
+import type { InstanceUsage } from '../types';
+
+const MB = 1024 * 1024;
+const MAX_EVICTION_HISTORY = 20;
+
+export interface ResourceMonitorOptions {
+  /** RSS budget for all Vite instances together, in bytes (0 = unlimited) */
+  memoryBudgetBytes: number;
+  /** RSS limit for a single instance, in bytes (0 = unlimited) */
+  instanceMemoryLimitBytes: number;
+  /** Sampling interval in ms */
+  interval: number;
+  /** Stop the idlest instance when a start is queued for a port */
+  evictWhenPoolExhausted: boolean;
+}
+
+const DEFAULT_OPTIONS: ResourceMonitorOptions = {
+  memoryBudgetBytes: parseFloat(process.env.VITE_MEMORY_BUDGET_MB || '1536') * MB,
+  instanceMemoryLimitBytes: parseFloat(process.env.VITE_INSTANCE_MEMORY_MB || '0') * MB,
+  interval: 15 * 1000,
+  evictWhenPoolExhausted: process.env.VITE_EVICT_WHEN_FULL !== 'false',
+};
+
+export interface Eviction {
+  projectId: string;
+  reason: 'budget' | 'instance-limit' | 'pool';
+  rssBytes: number;
+  at: string;
+}
+
+export interface ResourceSnapshot {
+  memoryBudgetBytes: number;
+  instanceMemoryLimitBytes: number;
+  totalRssBytes: number;
+  sampledAt?: string;
+  instances: InstanceUsage[];
+  evictions: Eviction[];
+}
+
+type InstanceSource = Pick<ViteDevServerManager, 'getAllInstances' | 'isProjectActive' | 'stop' | 'on' | 'getQueueLength'>;
+
+export class ResourceMonitor {
+  private options: ResourceMonitorOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<InstanceUsage[]> | null = null;
+  private usage: Map<string, InstanceUsage> = new Map();
+  // Previous CPU reading per pid, for the per-interval percentage
+  private cpuReadings: Map<number, { cpuSeconds: number; at: number }> = new Map();
+  private evictions: Eviction[] = [];
+  private evicting: Set<string> = new Set();
+  private sampledAt?: string;
+
+  constructor(
+    options: Partial<ResourceMonitorOptions> = {},
+    private manager: InstanceSource = viteManager,
+    private isPinned: (projectId: string) => Promise<boolean> = async (id) => (await projectRegistry.get(id))?.pinned === true,
+    private sampler: typeof sampleProcessTrees = sampleProcessTrees,
+    private releaseWarm: () => Promise<boolean> = () => warmPool.release()
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    // The only pool-exhausted listener, so each queued start frees at most one port
+    manager.on('pool-exhausted', () => {
+      this.makeRoom().catch((error) => {
+        console.error('[ResourceMonitor] Freeing a port for queued start failed:', error);
+      });
+    });
+  }
+
+  /**
+   * Start periodic sampling
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sample().catch((error) => {
+        console.error('[ResourceMonitor] Sampling failed:', error);
+      });
+    }, this.options.interval);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sample all instances and evict over budget (concurrent calls share one run)
+   */
+  async sample(): Promise<InstanceUsage[]> {
+    if (this.running) return this.running;
+
+    this.running = this.collect().then(async (usage) => {
+      await this.enforce(usage);
+      return usage;
+    }).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Free one port for a queued start: a warm instance first, a user instance
+   * only if none was ready and the start is still waiting
+   */
+  private async makeRoom(): Promise<void> {
+    if (await this.releaseWarm()) return;
+    if (!this.options.evictWhenPoolExhausted || this.manager.getQueueLength() === 0) return;
+    await this.evictIdlest();
+  }
+
+  /**
+   * Stop the least recently active evictable instance to free its port
+   * Returns the evicted projectId, null if every instance is pinned or active
+   */
+  async evictIdlest(): Promise<string | null> {
+    for (const candidate of await this.evictionCandidates()) {
+      const sample = this.usage.get(candidate.projectId)
+        ?? { projectId: candidate.projectId, pid: 0, processCount: 0, rssBytes: 0, cpuPercent: 0, sampledAt: new Date().toISOString() };
+      if (await this.evict(sample, 'pool')) return candidate.projectId;
+    }
+    return null;
+  }
+
+  /**
+   * Last sample of a project, undefined if not sampled
+   */
+  getUsage(projectId: string): InstanceUsage | undefined {
+    return this.usage.get(projectId);
+  }
+
+  getSnapshot(): ResourceSnapshot {
+    const instances = Array.from(this.usage.values());
+    return {
+      memoryBudgetBytes: this.options.memoryBudgetBytes,
+      instanceMemoryLimitBytes: this.options.instanceMemoryLimitBytes,
+      totalRssBytes: instances.reduce((sum, usage) => sum + usage.rssBytes, 0),
+      sampledAt: this.sampledAt,
+      instances,
+      evictions: [...this.evictions],
+    };
+  }
+
+  private async collect(): Promise<InstanceUsage[]> {
+    const instances = this.manager.getAllInstances().filter(i => i.pid !== undefined);
+    const trees = await this.sampler(instances.map(i => i.pid!));
+    const now = Date.now();
+
+    const usage = new Map<string, InstanceUsage>();
+    const readings = new Map<number, { cpuSeconds: number; at: number }>();
+
+    for (const instance of instances) {
+      const pid = instance.pid!;
+      const tree = trees.get(pid);
+      if (!tree) continue;  // Exited since listing
+
+      const previous = this.cpuReadings.get(pid);
+      const elapsed = previous ? (now - previous.at) / 1000 : 0;
+      const cpuPercent = previous && elapsed > 0
+        ? Math.max(0, (tree.cpuSeconds - previous.cpuSeconds) / elapsed * 100)
+        : 0;
+      readings.set(pid, { cpuSeconds: tree.cpuSeconds, at: now });
+
+      usage.set(instance.projectId, {
+        projectId: instance.projectId,
+        pid,
+        processCount: tree.pids.length,
+        rssBytes: tree.rssBytes,
+        cpuPercent: Math.round(cpuPercent * 10) / 10,
+        sampledAt: new Date(now).toISOString(),
+      });
+    }
+
+    this.usage = usage;
+    this.cpuReadings = readings;
+    this.sampledAt = new Date(now).toISOString();
+    return Array.from(usage.values());
+  }
+
+  /**
+   * Stop least-recently-active instances until usage fits the limits
+   */
+  private async enforce(usage: InstanceUsage[]): Promise<void> {
+    const { memoryBudgetBytes, instanceMemoryLimitBytes } = this.options;
+    let total = usage.reduce((sum, u) => sum + u.rssBytes, 0);
+
+    const overInstanceLimit = (u: InstanceUsage) => instanceMemoryLimitBytes > 0 && u.rssBytes > instanceMemoryLimitBytes;
+    const overBudget = () => memoryBudgetBytes > 0 && total > memoryBudgetBytes;
+    if (!overBudget() && !usage.some(overInstanceLimit)) return;
+
+    const candidates = await this.evictionCandidates();
+
+    for (const candidate of candidates) {
+      const sample = this.usage.get(candidate.projectId);
+      if (!sample) continue;
+
+      const reason = overInstanceLimit(sample) ? 'instance-limit' : overBudget() ? 'budget' : null;
+      if (!reason) continue;
+
+      if (await this.evict(sample, reason)) {
+        total -= sample.rssBytes;
+      }
+    }
+
+    if (overBudget()) {
+      console.warn(`[ResourceMonitor] Still over budget after eviction: ${Math.round(total / MB)}MB / ${Math.round(memoryBudgetBytes / MB)}MB (remaining instances are pinned or active)`);
+    }
+  }
+
+  /**
+   * Serving instances that may be stopped, least recently active first
+   */
+  private async evictionCandidates(): Promise<Array<{ projectId: string; lastActive: Date }>> {
+    const candidates: Array<{ projectId: string; lastActive: Date }> = [];
+
+    for (const instance of this.manager.getAllInstances()) {
+      if (!isServing(instance.status)) continue;
+      if (this.manager.isProjectActive(instance.projectId)) continue;
+      if (await this.isPinned(instance.projectId)) continue;
+      candidates.push(instance);
+    }
+
+    return candidates.sort((a, b) => a.lastActive.getTime() - b.lastActive.getTime());
+  }
+
+  private async evict(sample: InstanceUsage, reason: Eviction['reason']): Promise<boolean> {
+    // Re-check: the project may have become active while pinned lookups ran
+    if (this.manager.isProjectActive(sample.projectId) || this.evicting.has(sample.projectId)) return false;
+
+    console.log(`[ResourceMonitor] Evicting ${sample.projectId} (${reason}, ${Math.round(sample.rssBytes / MB)}MB RSS)`);
+    this.evicting.add(sample.projectId);
+    try {
+      await this.manager.stop(sample.projectId);
+    } catch (error) {
+      console.error(`[ResourceMonitor] Failed to evict ${sample.projectId}:`, error);
+      return false;
+    } finally {
+      this.evicting.delete(sample.projectId);
+    }
+
+    this.usage.delete(sample.projectId);
+    this.evictions.push({ projectId: sample.projectId, reason, rssBytes: sample.rssBytes, at: new Date().toISOString() });
+    if (this.evictions.length > MAX_EVICTION_HISTORY) {
+      this.evictions.splice(0, this.evictions.length - MAX_EVICTION_HISTORY);
+    }
+    return true;
+  }
+}
+
+export const resourceMonitor = new ResourceMonitor();
@@ -0,0 +1,193 @@
+/**
+ * Retention Manager
+ * Policy-driven deletion of inactive projects
+ *
+ * Stopping idle dev servers is handled by ViteManager; this only decides when
+ * project files are removed:
+ *   - a project expires `ttlSeconds` after its last edit (per project, default from env)
+ *   - pinned projects and projects with ttlSeconds = 0 never expire
+ *   - running or in-progress projects are never touched
+ *   - expired projects are archived to a tarball before deletion (unless disabled)
+ */
+
+import { mkdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { viteManager } from './vite-manager';
+import { projectManager } from './project-manager';
+import { projectRegistry, type ProjectRegistry } from './project-registry';
+import { createTarball } from '../lib/archive';
+import { isProjectId } from '../lib/safe-path';
+import type { ProjectRecord, RetentionCandidate } from '../types';
+
+const DATA_DIR = process.env.DATA_DIR || '/data/sites';
+
+export interface RetentionOptions {
+  dataDir: string;
+  archiveDir: string;
+  /** Default TTL in seconds for projects without their own (0 = keep forever) */
+  defaultTtlSeconds: number;
+  /** Archive projects to tarballs before deleting them */
+  archive: boolean;
+  /** Sweep interval in ms */
+  interval: number;
+}
+
+const DEFAULT_OPTIONS: RetentionOptions = {
+  dataDir: DATA_DIR,
+  archiveDir: process.env.ARCHIVE_DIR || join(DATA_DIR, '_archives'),
+  defaultTtlSeconds: parseFloat(process.env.RETENTION_TTL_HOURS || '168') * 3600,  // 7 days
+  archive: process.env.RETENTION_ARCHIVE !== 'false',
+  interval: 60 * 60 * 1000,  // 1 hour
+};
+
+export interface RetentionRunResult {
+  removed: RetentionCandidate[];
+  failed: Array<{ projectId: string; error: string }>;
+}
+
+export class RetentionManager {
+  private options: RetentionOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RetentionRunResult> | null = null;
+
+  constructor(
+    options: Partial<RetentionOptions> = {},
+    private registry: ProjectRegistry = projectRegistry,
+    private removeProject: (projectId: string) => Promise<void> = (id) => projectManager.deleteProject(id)
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start periodic sweeps
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.run().catch((error) => {
+        console.error('[RetentionManager] Sweep failed:', error);
+      });
+    }, this.options.interval);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Dry run: projects the next sweep would remove
+   */
+  async preview(now: Date = new Date()): Promise<RetentionCandidate[]> {
+    const records = await this.registry.all();
+    const candidates: RetentionCandidate[] = [];
+
+    for (const record of records) {
+      const candidate = this.evaluate(record, now);
+      if (!candidate) continue;
+      if (!(await this.isDeletable(record.projectId))) continue;
+      candidates.push(candidate);
+    }
+
+    return candidates.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt));
+  }
+
+  /**
+   * Archive and delete expired projects (concurrent calls share one sweep)
+   */
+  async run(now: Date = new Date()): Promise<RetentionRunResult> {
+    if (this.running) return this.running;
+
+    this.running = this.sweep(now).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async sweep(now: Date): Promise<RetentionRunResult> {
+    const result: RetentionRunResult = { removed: [], failed: [] };
+
+    for (const candidate of await this.preview(now)) {
+      const { projectId } = candidate;
+
+      // Re-check: project may have been edited or started since preview
+      const record = await this.registry.get(projectId);
+      if (!record || !this.evaluate(record, now) || !(await this.isDeletable(projectId))) continue;
+
+      try {
+        if (candidate.archive) {
+          const archivePath = await this.archiveProject(projectId, now);
+          console.log(`[RetentionManager] Archived ${projectId} to ${archivePath}`);
+        }
+        await this.removeProject(projectId);
+        console.log(`[RetentionManager] Removed expired project: ${projectId} (last edited ${candidate.lastEditedAt})`);
+        result.removed.push(candidate);
+      } catch (error) {
+        console.error(`[RetentionManager] Failed to remove ${projectId}:`, error);
+        result.failed.push({
+          projectId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Return candidate if the record's TTL has elapsed
+   */
+  private evaluate(record: ProjectRecord, now: Date): RetentionCandidate | null {
+    if (record.pinned) return null;
+
+    const ttlSeconds = record.ttlSeconds ?? this.options.defaultTtlSeconds;
+    if (!ttlSeconds || ttlSeconds <= 0) return null;
+
+    const expiresAt = new Date(new Date(record.lastEditedAt).getTime() + ttlSeconds * 1000);
+    if (isNaN(expiresAt.getTime()) || expiresAt > now) return null;
+
+    return {
+      projectId: record.projectId,
+      projectName: record.projectName,
+      lastEditedAt: record.lastEditedAt,
+      expiresAt: expiresAt.toISOString(),
+      ttlSeconds,
+      archive: this.options.archive,
+    };
+  }
+
+  /**
+   * Safety checks before a project directory may be removed
+   */
+  private async isDeletable(projectId: string): Promise<boolean> {
+    // Only plain ids, never internal (_template, _builds, ...) or protected directories
+    if (!isProjectId(projectId)) {
+      return false;
+    }
+
+    // Never delete while a dev server runs or the project is being processed
+    if (viteManager.getInstance(projectId) || viteManager.isProjectActive(projectId)) {
+      return false;
+    }
+
+    // Must be a valid project directory (has package.json)
+    try {
+      return (await stat(join(this.options.dataDir, projectId, 'package.json'))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private async archiveProject(projectId: string, now: Date): Promise<string> {
+    await mkdir(this.options.archiveDir, { recursive: true });
+    const stamp = now.toISOString().replace(/[:.]/g, '-');
+    const archivePath = join(this.options.archiveDir, `${projectId}-${stamp}.tar.gz`);
+    await createTarball(this.options.dataDir, projectId, archivePath, ['node_modules', 'dist', '.vite']);
+    return archivePath;
+  }
+}
+
+export const retentionManager = new RetentionManager();
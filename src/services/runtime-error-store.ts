@@ -0,0 +1,112 @@
+/**
+ * Runtime Error Store
+ * Aggregates errors reported by the preview page (visual-edit-script) per project
+ *
+ * Identical errors (same kind, message and source location) are folded into one
+ * entry with a counter. Kept in memory only; errors are a live signal, not history.
+ */
+
+import crypto from 'crypto';
+import type { RuntimeError, RuntimeErrorKind, RuntimeErrorReport } from '../types';
+
+const MAX_ERRORS_PER_PROJECT = 100;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_STACK_LENGTH = 8000;
+
+const KINDS: RuntimeErrorKind[] = ['error', 'unhandledrejection', 'resource', 'react', 'vite'];
+
+export class RuntimeErrorStore {
+  private errors: Map<string, Map<string, RuntimeError>> = new Map();
+
+  /**
+   * Validate and normalize an untrusted report, null if malformed
+   */
+  parseReport(body: unknown): RuntimeErrorReport | null {
+    if (!body || typeof body !== 'object') return null;
+    const input = body as Record<string, unknown>;
+
+    if (!KINDS.includes(input.kind as RuntimeErrorKind)) return null;
+    if (typeof input.message !== 'string' || !input.message) return null;
+
+    const report: RuntimeErrorReport = {
+      kind: input.kind as RuntimeErrorKind,
+      message: input.message.slice(0, MAX_MESSAGE_LENGTH),
+    };
+
+    if (typeof input.stack === 'string') {
+      report.stack = input.stack.slice(0, MAX_STACK_LENGTH);
+    }
+    if (typeof input.url === 'string') {
+      report.url = input.url.slice(0, 500);
+    }
+
+    const source = input.source as Record<string, unknown> | undefined;
+    if (source && typeof source === 'object' && typeof source.file === 'string') {
+      report.source = {
+        file: source.file.slice(0, 500),
+        line: Number.isInteger(source.line) ? source.line as number : undefined,
+        column: Number.isInteger(source.column) ? source.column as number : undefined,
+      };
+    }
+
+    return report;
+  }
+
+  /**
+   * Record a report, folding it into an existing entry if identical
+   */
+  record(projectId: string, report: RuntimeErrorReport): RuntimeError {
+    let projectErrors = this.errors.get(projectId);
+    if (!projectErrors) {
+      projectErrors = new Map();
+      this.errors.set(projectId, projectErrors);
+    }
+
+    const id = crypto.createHash('sha1')
+      .update(`${report.kind}\0${report.message}\0${report.source?.file ?? ''}:${report.source?.line ?? ''}`)
+      .digest('hex')
+      .slice(0, 12);
+    const now = new Date().toISOString();
+
+    const existing = projectErrors.get(id);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      existing.url = report.url ?? existing.url;
+      // Re-insert so Map order stays least-recently-seen first
+      projectErrors.delete(id);
+      projectErrors.set(id, existing);
+      return existing;
+    }
+
+    const entry: RuntimeError = { ...report, id, projectId, count: 1, firstSeen: now, lastSeen: now };
+    projectErrors.set(id, entry);
+    console.log(`[RuntimeErrorStore] ${projectId}: ${report.kind} - ${report.message.split('\n')[0].slice(0, 200)}`);
+
+    if (projectErrors.size > MAX_ERRORS_PER_PROJECT) {
+      const oldest = projectErrors.keys().next().value;
+      if (oldest) projectErrors.delete(oldest);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Errors of a project, most recently seen first
+   * @param since - Only errors seen after this ISO timestamp
+   */
+  list(projectId: string, since?: string): RuntimeError[] {
+    const projectErrors = this.errors.get(projectId);
+    if (!projectErrors) return [];
+
+    return Array.from(projectErrors.values())
+      .filter(error => !since || error.lastSeen > since)
+      .reverse();
+  }
+
+  clear(projectId: string): void {
+    this.errors.delete(projectId);
+  }
+}
+
+export const runtimeErrorStore = new RuntimeErrorStore();
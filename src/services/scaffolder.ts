@@ -1,15 +1,25 @@
 /**
  * Project Scaffolder
  * Generates base files for React + Vite + Tailwind projects
+ * (and the lighter templates of the template registry)
  */
 
-// (no local path dependencies needed)
+import { getTemplate, renderViteConfig, DEFAULT_TEMPLATE, type TemplateDefinition } from './template-registry';
 import type { ProjectConfig, ScaffoldResult } from '../types';
 
 /**
- * Generate project scaffold files
+ * Generate project scaffold files for config.template (default react-shadcn)
+ * The app file itself (see generateDefaultApp) is not included
  */
 export function generateScaffold(config: ProjectConfig): ScaffoldResult {
+  const template = getTemplate(config.template);
+  if (!template) {
+    return { success: false, files: [] };
+  }
+  if (template.name !== DEFAULT_TEMPLATE) {
+    return { success: true, files: generateTemplateScaffold(template, config) };
+  }
+
   const files: Array<{ path: string; content: string }> = [];
 
   // package.json
@@ -156,47 +166,7 @@ function generatePackageJson(config: ProjectConfig): string {
 }
 
 function generateViteConfig(config: ProjectConfig): string {
-  const idPrefix = config.projectId.slice(0, 8);
-  const basePath = `/p/${config.projectId}/`;
-  // fly-server public domain for direct HMR WebSocket connection
-  const flyPublicHost = process.env.FLY_PUBLIC_HOST || 'omniflow-preview.fly.dev';
-  const isHttps = flyPublicHost.includes('fly.dev') || process.env.FLY_HTTPS === 'true';
-
-  return `import { defineConfig } from 'vite';
-import react from '@vitejs/plugin-react';
-import { jsxTaggerPlugin } from '@lookfree0822/vite-plugin-jsx-tagger';
-
-export default defineConfig({
-  base: '${basePath}',
-  plugins: [
-    // JSX Tagger must be before React plugin for visual editing
-    jsxTaggerPlugin({
-      idPrefix: '${idPrefix}',
-      removeInProduction: false,
-    }),
-    react(),
-  ],
-  server: {
-    host: true,
-    allowedHosts: 'all',
-    hmr: {
-      protocol: '${isHttps ? 'wss' : 'ws'}',
-      host: '${flyPublicHost}',
-      clientPort: ${isHttps ? 443 : 3000},
-      path: '/hmr/${config.projectId}',
-      overlay: true,
-    },
-  },
-  build: {
-    sourcemap: true,
-  },
-  resolve: {
-    alias: {
-      '@': '/src',
-    },
-  },
-});
-`;
+  return renderViteConfig('react', config.projectId);
 }
 
 function generateTsConfig(): string {
@@ -407,6 +377,180 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
 `;
 }
 
+/**
+ * Scaffold of a registry template other than react-shadcn
+ */
+function generateTemplateScaffold(template: TemplateDefinition, config: ProjectConfig): Array<{ path: string; content: string }> {
+  const { framework } = template;
+  const entry = framework === 'react' ? 'src/main.tsx' : 'src/main.ts';
+  const jsxTaggerDependency = process.env.JSX_TAGGER_DEP;
+
+  const pkg = {
+    name: slugify(config.projectName),
+    private: true,
+    version: '0.1.0',
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      // tsc does not understand .vue files
+      build: framework === 'vue' ? 'vite build' : 'tsc && vite build',
+      preview: 'vite preview',
+    },
+    dependencies: template.dependencies,
+    devDependencies: framework === 'react' && jsxTaggerDependency
+      ? { ...template.devDependencies, '@lookfree0822/vite-plugin-jsx-tagger': jsxTaggerDependency }
+      : template.devDependencies,
+  };
+
+  const files = [
+    { path: 'package.json', content: JSON.stringify(pkg, null, 2) },
+    { path: 'vite.config.ts', content: renderViteConfig(framework, config.projectId) },
+    { path: 'index.html', content: generateTemplateIndexHtml(config, framework === 'react' ? 'root' : 'app', `/${entry}`) },
+    { path: '.gitignore', content: generateGitignore() },
+  ];
+
+  if (framework === 'react') {
+    files.push(
+      { path: 'tsconfig.json', content: generateTsConfig() },
+      { path: 'tsconfig.node.json', content: generateTsConfigNode() },
+      // Tailwind v4 through PostCSS, like the react-shadcn template
+      { path: 'postcss.config.js', content: `export default {
+  plugins: {
+    'postcss-import': {},
+    '@tailwindcss/postcss': {},
+  },
+};
+` },
+      { path: 'src/styles/globals.css', content: "@import 'tailwindcss';\n" },
+      { path: 'src/main.tsx', content: generateMainTsx() },
+      { path: 'src/vite-env.d.ts', content: '/// <reference types="vite/client" />\n' },
+    );
+    return files;
+  }
+
+  files.push(
+    { path: 'tsconfig.json', content: JSON.stringify({
+      compilerOptions: {
+        target: 'ES2020',
+        useDefineForClassFields: true,
+        lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+        module: 'ESNext',
+        skipLibCheck: true,
+        moduleResolution: 'bundler',
+        allowImportingTsExtensions: true,
+        resolveJsonModule: true,
+        isolatedModules: true,
+        noEmit: true,
+        strict: true,
+        baseUrl: '.',
+        paths: {
+          '@/*': ['./src/*'],
+        },
+      },
+      include: ['src'],
+    }, null, 2) },
+    { path: 'src/style.css', content: generatePlainCss() },
+  );
+
+  if (framework === 'vue') {
+    files.push(
+      { path: 'src/main.ts', content: `import { createApp } from 'vue';
+import App from './App.vue';
+import './style.css';
+
+createApp(App).mount('#app');
+` },
+      { path: 'src/vite-env.d.ts', content: `/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue';
+  const component: DefineComponent<object, object, unknown>;
+  export default component;
+}
+` },
+    );
+  } else {
+    files.push({ path: 'src/vite-env.d.ts', content: '/// <reference types="vite/client" />\n' });
+  }
+
+  return files;
+}
+
+function generateTemplateIndexHtml(config: ProjectConfig, rootId: string, entry: string): string {
+  const title = escapeHtml(config.projectName);
+  const description = escapeHtml(config.description || '');
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+    <meta name="description" content="${description}" />
+  </head>
+  <body>
+    <div id="${rootId}"></div>
+    <script type="module" src="${entry}"></script>
+  </body>
+</html>
+`;
+}
+
+function generatePlainCss(): string {
+  return `:root {
+  font-family: system-ui, sans-serif;
+  color: #111827;
+  background: #ffffff;
+}
+
+body {
+  margin: 0;
+}
+`;
+}
+
+/**
+ * Placeholder app for a template, written when a project is created without files
+ */
+export function generateDefaultApp(template: TemplateDefinition, projectName: string): { path: string; content: string } {
+  const safeName = escapeHtml(projectName);
+
+  switch (template.framework) {
+    case 'react':
+      return { path: template.appFile, content: generateDefaultAppTsx(projectName) };
+    case 'vue':
+      // Braces would start a template expression
+      return { path: template.appFile, content: `<template>
+  <main class="app">
+    <h1>${safeName.replace(/[{}]/g, c => `&#${c.charCodeAt(0)};`)}</h1>
+    <p>Generated by AI Site Generator</p>
+  </main>
+</template>
+
+<style scoped>
+.app {
+  min-height: 100vh;
+  padding: 5rem 1rem;
+  text-align: center;
+}
+</style>
+` };
+    case 'vanilla': {
+      // Inside a template literal: entity-encode what could end it or interpolate
+      const literalName = safeName.replace(/[`$\\]/g, c => `&#${c.charCodeAt(0)};`);
+      return { path: template.appFile, content: `import './style.css';
+
+document.querySelector<HTMLDivElement>('#app')!.innerHTML = \`
+  <main style="min-height: 100vh; padding: 5rem 1rem; text-align: center;">
+    <h1>${literalName}</h1>
+    <p>Generated by AI Site Generator</p>
+  </main>
+\`;
+` };
+    }
+  }
+}
+
 /**
  * Generate default App.tsx
  */
@@ -0,0 +1,298 @@
+/**
+ * Snapshot Manager
+ * Captures project source trees so bad edits can be rolled back
+ *
+ * Content-addressed layout (identical files are stored once):
+ *   {SNAPSHOTS_DIR}/{projectId}/objects/{sha256}   - file contents
+ *   {SNAPSHOTS_DIR}/{projectId}/snapshots/{id}.json - snapshot info + path -> hash map
+ */
+
+import crypto from 'crypto';
+import { mkdir, readFile, writeFile, rm, readdir, access, constants } from 'fs/promises';
+import { join, dirname } from 'path';
+import type { Snapshot, SnapshotDiff, SnapshotFileChange } from '../types';
+
+const DATA_DIR = process.env.DATA_DIR || '/data/sites';
+const SNAPSHOTS_DIR = process.env.SNAPSHOTS_DIR || join(DATA_DIR, '_snapshots');
+
+const MAX_SNAPSHOTS_PER_PROJECT = 50;
+
+// Directories never captured (dependencies and build output)
+const EXCLUDED_DIRS = new Set(['node_modules', '.git', 'dist', '.vite']);
+
+interface StoredSnapshot extends Snapshot {
+  files: Record<string, string>;
+}
+
+export class SnapshotManager {
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private snapshotsDir: string = SNAPSHOTS_DIR) {}
+
+  /**
+   * Capture current source tree of a project
+   * Returns the latest snapshot unchanged if the tree is identical to it
+   */
+  async capture(
+    projectId: string,
+    projectPath: string,
+    reason: Snapshot['reason'],
+    label?: string
+  ): Promise<Snapshot> {
+    return this.withLock(projectId, async () => {
+      const files = await this.hashTree(projectId, projectPath);
+      const treeHash = this.computeTreeHash(files);
+
+      const latest = (await this.loadAll(projectId))[0];
+      if (latest && latest.treeHash === treeHash && reason !== 'manual') {
+        return this.toInfo(latest);
+      }
+
+      const snapshot: StoredSnapshot = {
+        id: `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`,
+        projectId,
+        createdAt: new Date().toISOString(),
+        reason,
+        label,
+        fileCount: Object.keys(files).length,
+        treeHash,
+        files,
+      };
+
+      const snapshotPath = join(this.getProjectDir(projectId), 'snapshots', `${snapshot.id}.json`);
+      await mkdir(dirname(snapshotPath), { recursive: true });
+      await writeFile(snapshotPath, JSON.stringify(snapshot), 'utf-8');
+      console.log(`[SnapshotManager] Captured ${projectId}: ${snapshot.id} (${reason}, ${snapshot.fileCount} files)`);
+
+      await this.prune(projectId);
+      return this.toInfo(snapshot);
+    });
+  }
+
+  /**
+   * List snapshots of a project (newest first)
+   */
+  async list(projectId: string): Promise<Snapshot[]> {
+    const snapshots = await this.loadAll(projectId);
+    return snapshots.map(s => this.toInfo(s));
+  }
+
+  /**
+   * Get snapshot info
+   */
+  async get(projectId: string, snapshotId: string): Promise<Snapshot | null> {
+    const snapshot = await this.load(projectId, snapshotId);
+    return snapshot ? this.toInfo(snapshot) : null;
+  }
+
+  /**
+   * Restore project source tree to a snapshot
+   * Files not in the snapshot are removed (excluded directories are left untouched)
+   * Returns paths that actually changed
+   */
+  async restore(projectId: string, projectPath: string, snapshotId: string): Promise<string[]> {
+    return this.withLock(projectId, async () => {
+      const target = await this.load(projectId, snapshotId);
+      if (!target) {
+        throw new Error(`Snapshot not found: ${snapshotId}`);
+      }
+
+      const current = await this.hashTree(projectId, projectPath, false);
+      const changed: string[] = [];
+
+      for (const [path, hash] of Object.entries(target.files)) {
+        if (current[path] === hash) continue;
+        const filePath = join(projectPath, path);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, await this.readObject(projectId, hash));
+        changed.push(path);
+      }
+
+      for (const path of Object.keys(current)) {
+        if (path in target.files) continue;
+        await rm(join(projectPath, path), { force: true });
+        changed.push(path);
+      }
+
+      console.log(`[SnapshotManager] Restored ${projectId} to ${snapshotId} (${changed.length} files changed)`);
+      return changed;
+    });
+  }
+
+  /**
+   * Diff two snapshots
+   * File contents (UTF-8) are included when includeContent is set
+   */
+  async diff(projectId: string, fromId: string, toId: string, includeContent = false): Promise<SnapshotDiff> {
+    const [from, to] = await Promise.all([this.load(projectId, fromId), this.load(projectId, toId)]);
+    if (!from) throw new Error(`Snapshot not found: ${fromId}`);
+    if (!to) throw new Error(`Snapshot not found: ${toId}`);
+
+    const changes: SnapshotFileChange[] = [];
+    const paths = new Set([...Object.keys(from.files), ...Object.keys(to.files)]);
+
+    for (const path of [...paths].sort()) {
+      const before = from.files[path];
+      const after = to.files[path];
+      if (before === after) continue;
+
+      const change: SnapshotFileChange = {
+        path,
+        status: !before ? 'added' : !after ? 'removed' : 'modified',
+      };
+
+      if (includeContent) {
+        if (before) change.before = (await this.readObject(projectId, before)).toString('utf-8');
+        if (after) change.after = (await this.readObject(projectId, after)).toString('utf-8');
+      }
+
+      changes.push(change);
+    }
+
+    return { from: fromId, to: toId, changes };
+  }
+
+  /**
+   * Remove all snapshots of a project
+   */
+  async removeAll(projectId: string): Promise<void> {
+    await rm(this.getProjectDir(projectId), { recursive: true, force: true });
+  }
+
+  /**
+   * Hash all source files of a project, optionally storing their contents as objects
+   */
+  private async hashTree(projectId: string, projectPath: string, store = true): Promise<Record<string, string>> {
+    const files: Record<string, string> = {};
+    const objectsDir = join(this.getProjectDir(projectId), 'objects');
+    if (store) {
+      await mkdir(objectsDir, { recursive: true });
+    }
+
+    const walk = async (subPath: string): Promise<void> => {
+      const entries = await readdir(join(projectPath, subPath), { withFileTypes: true });
+
+      for (const entry of entries) {
+        if (EXCLUDED_DIRS.has(entry.name)) continue;
+        const relativePath = subPath ? `${subPath}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          await walk(relativePath);
+        } else if (entry.isFile()) {
+          const content = await readFile(join(projectPath, relativePath));
+          const hash = crypto.createHash('sha256').update(content).digest('hex');
+          files[relativePath] = hash;
+
+          if (store) {
+            const objectPath = join(objectsDir, hash);
+            try {
+              await access(objectPath, constants.F_OK);
+            } catch {
+              await writeFile(objectPath, content);
+            }
+          }
+        }
+      }
+    };
+
+    await walk('');
+    return files;
+  }
+
+  private computeTreeHash(files: Record<string, string>): string {
+    const hash = crypto.createHash('sha256');
+    for (const path of Object.keys(files).sort()) {
+      hash.update(`${path}\0${files[path]}\n`);
+    }
+    return hash.digest('hex');
+  }
+
+  private async readObject(projectId: string, hash: string): Promise<Buffer> {
+    return readFile(join(this.getProjectDir(projectId), 'objects', hash));
+  }
+
+  private async load(projectId: string, snapshotId: string): Promise<StoredSnapshot | null> {
+    if (!/^[a-z0-9-]+$/.test(snapshotId)) return null;
+    try {
+      const content = await readFile(join(this.getProjectDir(projectId), 'snapshots', `${snapshotId}.json`), 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Load all snapshots (newest first)
+   */
+  private async loadAll(projectId: string): Promise<StoredSnapshot[]> {
+    let names: string[];
+    try {
+      names = await readdir(join(this.getProjectDir(projectId), 'snapshots'));
+    } catch {
+      return [];
+    }
+
+    const snapshots: StoredSnapshot[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const snapshot = await this.load(projectId, name.slice(0, -5));
+      if (snapshot) snapshots.push(snapshot);
+    }
+
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  }
+
+  /**
+   * Drop oldest snapshots beyond the limit and garbage-collect unreferenced objects
+   */
+  private async prune(projectId: string): Promise<void> {
+    const snapshots = await this.loadAll(projectId);
+    if (snapshots.length <= MAX_SNAPSHOTS_PER_PROJECT) return;
+
+    const projectDir = this.getProjectDir(projectId);
+    for (const snapshot of snapshots.slice(MAX_SNAPSHOTS_PER_PROJECT)) {
+      await rm(join(projectDir, 'snapshots', `${snapshot.id}.json`), { force: true });
+    }
+
+    const referenced = new Set<string>();
+    for (const snapshot of snapshots.slice(0, MAX_SNAPSHOTS_PER_PROJECT)) {
+      for (const hash of Object.values(snapshot.files)) referenced.add(hash);
+    }
+
+    const objects = await readdir(join(projectDir, 'objects'));
+    for (const hash of objects) {
+      if (!referenced.has(hash)) {
+        await rm(join(projectDir, 'objects', hash), { force: true });
+      }
+    }
+  }
+
+  private toInfo(snapshot: StoredSnapshot): Snapshot {
+    const { files, ...info } = snapshot;
+    return info;
+  }
+
+  private getProjectDir(projectId: string): string {
+    const safeId = projectId.replace(/[^a-zA-Z0-9_-]/g, '');
+    return join(this.snapshotsDir, safeId);
+  }
+
+  /**
+   * Serialize snapshot operations per project
+   */
+  private async withLock<T>(projectId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(projectId) ?? Promise.resolve();
+    const current = previous.catch(() => {}).then(fn);
+    this.locks.set(projectId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(projectId) === current) {
+        this.locks.delete(projectId);
+      }
+    }
+  }
+}
+
+export const snapshotManager = new SnapshotManager();
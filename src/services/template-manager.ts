@@ -1,52 +1,99 @@
 /**
  * Template Manager
- * Pre-warms template project to accelerate new project creation
+ * Pre-warms template projects (one per registry template) to accelerate new project creation
  *
  * Optimization results:
  * - Original approach: 25-52 seconds (mainly bun install)
  * - Optimized approach: 7-12 seconds (copy template + start Vite)
+ * - node_modules is hard-linked from the template rather than copied (TEMPLATE_CLONE_STRATEGY)
  */
 
-import { mkdir, cp, access, constants, writeFile, rm } from 'fs/promises';
+import crypto from 'crypto';
+import { mkdir, cp, access, constants, writeFile, readFile, rm } from 'fs/promises';
 import { join, dirname } from 'path';
-import { generateScaffold, generateDefaultAppTsx } from './scaffolder';
+import { generateScaffold, generateDefaultApp } from './scaffolder';
 import { dependencyManager } from './dependency-manager';
-
-// fly-server public domain for direct HMR WebSocket connection
-const FLY_PUBLIC_HOST = process.env.FLY_PUBLIC_HOST || 'omniflow-preview.fly.dev';
-const IS_HTTPS = FLY_PUBLIC_HOST.includes('fly.dev') || process.env.FLY_HTTPS === 'true';
+import {
+  listTemplates,
+  renderViteConfig,
+  DEFAULT_TEMPLATE,
+  LOCKFILES,
+  UnknownTemplateError,
+  type TemplateDefinition,
+} from './template-registry';
+import { cloneTree, isCloneStrategy, type CloneStrategy } from '../lib/clone-tree';
 
 const DATA_DIR = process.env.DATA_DIR || '/data/sites';
-const TEMPLATE_ID = '_template';
-// Pre-built template location (created during Docker build)
-const PREBUILT_TEMPLATE_DIR = '/app/template';
+// How projects are cloned from the template: hardlink (default), reflink or copy
+const CLONE_STRATEGY_ENV = process.env.TEMPLATE_CLONE_STRATEGY || 'hardlink';
+const CLONE_STRATEGY: CloneStrategy = isCloneStrategy(CLONE_STRATEGY_ENV) ? CLONE_STRATEGY_ENV : 'hardlink';
+
+/** Installed copy of one registry template */
+interface TemplateState {
+  definition: TemplateDefinition;
+  path: string;
+  ready: boolean;
+  initPromise: Promise<void> | null;
+  version: string | null;
+}
+
+export interface TemplateStatus {
+  name: string;
+  description: string;
+  framework: TemplateDefinition['framework'];
+  ready: boolean;
+  path: string;
+  version: string | null;
+}
 
 export class TemplateManager {
-  private templatePath = join(DATA_DIR, TEMPLATE_ID);
-  private templateReady = false;
-  private initPromise: Promise<void> | null = null;
+  private templates: Map<string, TemplateState> = new Map(
+    listTemplates().map(definition => [definition.name, {
+      definition,
+      path: join(DATA_DIR, definition.dirName),
+      ready: false,
+      initPromise: null,
+      version: null,
+    }])
+  );
 
   /**
    * Initialize template project on startup
    * Creates scaffold and installs dependencies once
    */
-  async initialize(): Promise<void> {
-    if (this.initPromise) return this.initPromise;
+  async initialize(templateName: string = DEFAULT_TEMPLATE): Promise<void> {
+    const template = this.getState(templateName);
+    if (template.initPromise) return template.initPromise;
 
-    this.initPromise = this._initialize();
-    return this.initPromise;
+    template.initPromise = this._initialize(template).then(() => this.computeVersion(template));
+    return template.initPromise;
   }
 
-  private async _initialize(): Promise<void> {
-    console.log('[TemplateManager] Initializing template project...');
+  /**
+   * Initialize every registered template, one after another (default first)
+   * Failures are logged; projects of that template use the slow path
+   */
+  async initializeAll(): Promise<void> {
+    for (const name of this.templates.keys()) {
+      try {
+        await this.initialize(name);
+      } catch (error) {
+        console.error(`[TemplateManager] Template ${name} unavailable:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  private async _initialize(template: TemplateState): Promise<void> {
+    const { definition, path: templatePath } = template;
+    console.log(`[TemplateManager] Initializing template project ${definition.name}...`);
     const start = Date.now();
 
     // Check if template already exists with node_modules
-    const nodeModulesPath = join(this.templatePath, 'node_modules');
+    const nodeModulesPath = join(templatePath, 'node_modules');
     try {
       await access(nodeModulesPath, constants.F_OK);
-      console.log('[TemplateManager] Template already exists, skipping initialization');
-      this.templateReady = true;
+      console.log(`[TemplateManager] Template ${definition.name} already exists, skipping initialization`);
+      template.ready = true;
       return;
     } catch {
       // Template doesn't exist, try to copy from pre-built
@@ -54,7 +101,7 @@ export class TemplateManager {
 
     try {
       // Check if pre-built template exists (from Docker build)
-      const prebuiltNodeModules = join(PREBUILT_TEMPLATE_DIR, 'node_modules');
+      const prebuiltNodeModules = join(definition.prebuiltDir, 'node_modules');
       let hasPrebuilt = false;
       try {
         await access(prebuiltNodeModules, constants.F_OK);
@@ -65,24 +112,25 @@ export class TemplateManager {
 
       if (hasPrebuilt) {
         // Fast path: copy pre-built template (includes node_modules)
-        console.log('[TemplateManager] Copying pre-built template...');
+        console.log(`[TemplateManager] Copying pre-built template ${definition.name}...`);
         await mkdir(DATA_DIR, { recursive: true });
-        await cp(PREBUILT_TEMPLATE_DIR, this.templatePath, { recursive: true });
+        await cp(definition.prebuiltDir, templatePath, { recursive: true });
         console.log(`[TemplateManager] Pre-built template copied in ${Date.now() - start}ms`);
-        this.templateReady = true;
+        template.ready = true;
         return;
       }
 
       // Fallback: generate template from scratch
-      console.log('[TemplateManager] No pre-built template, generating from scratch...');
+      console.log(`[TemplateManager] No pre-built template ${definition.name}, generating from scratch...`);
 
       // Create template directory
-      await mkdir(this.templatePath, { recursive: true });
+      await mkdir(templatePath, { recursive: true });
 
       // Generate scaffold files
       const scaffold = generateScaffold({
-        projectId: TEMPLATE_ID,
+        projectId: definition.dirName,
         projectName: 'Template',
+        template: definition.name,
         files: [],
       });
 
@@ -90,21 +138,17 @@ export class TemplateManager {
         throw new Error('Failed to generate template scaffold');
       }
 
-      // Write scaffold files
-      for (const file of scaffold.files) {
-        const filePath = join(this.templatePath, file.path);
+      // Write scaffold files and the default app
+      for (const file of [...scaffold.files, generateDefaultApp(definition, 'Template')]) {
+        const filePath = join(templatePath, file.path);
         await mkdir(dirname(filePath), { recursive: true });
         await writeFile(filePath, file.content, 'utf-8');
       }
 
-      // Write default App.tsx
-      const appPath = join(this.templatePath, 'src', 'App.tsx');
-      await writeFile(appPath, generateDefaultAppTsx('Template'), 'utf-8');
-
       // Install dependencies (one-time cost)
       console.log('[TemplateManager] Installing template dependencies...');
       const installStart = Date.now();
-      const result = await dependencyManager.install(this.templatePath);
+      const result = await dependencyManager.install(templatePath);
 
       if (!result.success) {
         throw new Error('Failed to install template dependencies');
@@ -114,15 +158,15 @@ export class TemplateManager {
         `[TemplateManager] Dependencies installed in ${Date.now() - installStart}ms`
       );
 
-      this.templateReady = true;
+      template.ready = true;
       console.log(
-        `[TemplateManager] Template ready in ${Date.now() - start}ms`
+        `[TemplateManager] Template ${definition.name} ready in ${Date.now() - start}ms`
       );
     } catch (error) {
-      console.error('[TemplateManager] Failed to initialize template:', error);
+      console.error(`[TemplateManager] Failed to initialize template ${definition.name}:`, error);
       // Clean up failed template
       try {
-        await rm(this.templatePath, { recursive: true, force: true });
+        await rm(templatePath, { recursive: true, force: true });
       } catch {
         // Ignore cleanup errors
       }
@@ -134,14 +178,15 @@ export class TemplateManager {
    * Create a new project by copying from template
    * Much faster than creating from scratch (~3-5s vs 25-45s)
    */
-  async createFromTemplate(projectId: string): Promise<string> {
-    if (!this.templateReady) {
-      await this.initialize();
+  async createFromTemplate(projectId: string, templateName: string = DEFAULT_TEMPLATE): Promise<string> {
+    const template = this.getState(templateName);
+    if (!template.ready) {
+      await this.initialize(templateName);
     }
 
     const projectPath = join(DATA_DIR, projectId);
 
-    console.log(`[TemplateManager] Copying template to ${projectId}...`);
+    console.log(`[TemplateManager] Copying template ${templateName} to ${projectId}...`);
     const start = Date.now();
 
     // Remove existing project directory if it exists (prevents "same source/dest" error)
@@ -152,27 +197,27 @@ export class TemplateManager {
     }
 
     // Verify template exists before copying, reinitialize if needed
-    const templateNodeModules = join(this.templatePath, 'node_modules');
+    const templateNodeModules = join(template.path, 'node_modules');
     try {
       await access(templateNodeModules, constants.F_OK);
     } catch {
       // Template was deleted or corrupted, reinitialize from pre-built
       console.log('[TemplateManager] Template missing, reinitializing from pre-built...');
-      this.templateReady = false;
-      this.initPromise = null;
-      await this.initialize();
+      template.ready = false;
+      template.initPromise = null;
+      await this.initialize(templateName);
     }
 
-    // Copy entire template directory (includes node_modules)
+    // Clone entire template directory (node_modules content is shared, see clone-tree)
     // Symlinks are preserved - they point to /app/packages/vite-plugin-jsx-tagger
     // which exists in the Docker image
-    await cp(this.templatePath, projectPath, { recursive: true });
+    await cloneTree(template.path, projectPath, CLONE_STRATEGY);
 
     // Generate correct vite.config.ts for this projectId (avoid bun install later)
-    await this.writeViteConfig(projectPath, projectId);
+    await this.writeViteConfig(projectPath, projectId, templateName);
 
     console.log(
-      `[TemplateManager] Template copied in ${Date.now() - start}ms`
+      `[TemplateManager] Template copied (${CLONE_STRATEGY}) in ${Date.now() - start}ms`
     );
     return projectPath;
   }
@@ -180,83 +225,90 @@ export class TemplateManager {
   /**
    * Check if template is ready
    */
-  isReady(): boolean {
-    return this.templateReady;
+  isReady(templateName: string = DEFAULT_TEMPLATE): boolean {
+    return this.getState(templateName).ready;
+  }
+
+  /**
+   * Get template version (content hash of template package.json and lockfile), null if not ready
+   */
+  getVersion(templateName: string = DEFAULT_TEMPLATE): string | null {
+    return this.getState(templateName).version;
   }
 
   /**
    * Get template path
    */
-  getTemplatePath(): string {
-    return this.templatePath;
+  getTemplatePath(templateName: string = DEFAULT_TEMPLATE): string {
+    return this.getState(templateName).path;
+  }
+
+  /**
+   * State of every registered template
+   */
+  getStatus(): TemplateStatus[] {
+    return Array.from(this.templates.values()).map(t => ({
+      name: t.definition.name,
+      description: t.definition.description,
+      framework: t.definition.framework,
+      ready: t.ready,
+      path: t.path,
+      version: t.version,
+    }));
+  }
+
+  private getState(templateName: string): TemplateState {
+    const template = this.templates.get(templateName);
+    if (!template) {
+      throw new UnknownTemplateError(templateName);
+    }
+    return template;
+  }
+
+  private async computeVersion(template: TemplateState): Promise<void> {
+    try {
+      const hash = crypto.createHash('sha256').update(await readFile(join(template.path, 'package.json')));
+      // Same package.json can resolve to different packages; the lockfile pins them
+      for (const lockfile of LOCKFILES) {
+        const content = await readFile(join(template.path, lockfile)).catch(() => null);
+        if (content) hash.update(lockfile).update(content);
+      }
+      template.version = hash.digest('hex').slice(0, 12);
+    } catch {
+      template.version = null;
+    }
   }
 
   /**
    * Write correct vite.config.ts for a specific projectId
    * This ensures the project can start immediately without bun install
+   * (also re-points a running warm instance, which restarts on the change)
    */
-  private async writeViteConfig(projectPath: string, projectId: string): Promise<void> {
-    const configPath = join(projectPath, 'vite.config.ts');
-    const idPrefix = projectId.slice(0, 8);
-    const basePath = `/p/${projectId}/`;
-
-    const config = `import { defineConfig } from 'vite';
-import react from '@vitejs/plugin-react';
-import { jsxTaggerPlugin } from '@lookfree0822/vite-plugin-jsx-tagger';
-
-export default defineConfig({
-  base: '${basePath}',
-  plugins: [
-    // JSX Tagger must be before React plugin for visual editing
-    jsxTaggerPlugin({
-      idPrefix: '${idPrefix}',
-      removeInProduction: false,
-    }),
-    react(),
-  ],
-  server: {
-    host: true,
-    allowedHosts: 'all',
-    hmr: {
-      protocol: '${IS_HTTPS ? 'wss' : 'ws'}',
-      host: '${FLY_PUBLIC_HOST}',
-      clientPort: ${IS_HTTPS ? 443 : 3000},
-      path: '/hmr/${projectId}',
-      overlay: true,
-    },
-  },
-  build: {
-    sourcemap: true,
-  },
-  resolve: {
-    alias: {
-      '@': '/src',
-    },
-  },
-});
-`;
-
-    await writeFile(configPath, config, 'utf-8');
+  async writeViteConfig(projectPath: string, projectId: string, templateName: string = DEFAULT_TEMPLATE): Promise<void> {
+    const { framework } = this.getState(templateName).definition;
+    await writeFile(join(projectPath, 'vite.config.ts'), renderViteConfig(framework, projectId), 'utf-8');
   }
 
   /**
    * Force rebuild template (useful for updates)
    */
-  async rebuild(): Promise<void> {
-    console.log('[TemplateManager] Rebuilding template...');
+  async rebuild(templateName: string = DEFAULT_TEMPLATE): Promise<void> {
+    const template = this.getState(templateName);
+    console.log(`[TemplateManager] Rebuilding template ${templateName}...`);
 
     // Remove existing template
     try {
-      await rm(this.templatePath, { recursive: true, force: true });
+      await rm(template.path, { recursive: true, force: true });
     } catch {
       // Ignore if doesn't exist
     }
 
-    this.templateReady = false;
-    this.initPromise = null;
+    template.ready = false;
+    template.initPromise = null;
+    template.version = null;
 
     // Reinitialize
-    await this.initialize();
+    await this.initialize(templateName);
   }
 }
 
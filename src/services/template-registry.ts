@@ -0,0 +1,295 @@
+/**
+ * Template Registry
+ * Named project templates: pre-installed dependencies, data/prebuilt directories
+ * and the Vite config each framework needs
+ *
+ * Scaffolds live in scaffolder.ts; TemplateManager installs one directory per template.
+ */
+
+// fly-server public domain for direct HMR WebSocket connection
+const FLY_PUBLIC_HOST = process.env.FLY_PUBLIC_HOST || 'omniflow-preview.fly.dev';
+const IS_HTTPS = FLY_PUBLIC_HOST.includes('fly.dev') || process.env.FLY_HTTPS === 'true';
+
+export const JSX_TAGGER_PACKAGE = '@lookfree0822/vite-plugin-jsx-tagger';
+
+export const LOCKFILES = ['bun.lock', 'bun.lockb'];
+
+// Config files owned by the template; changing them needs a Vite restart rather than HMR
+export const TEMPLATE_CONFIG_FILES = [
+  'package.json',
+  'vite.config.ts',
+  ...LOCKFILES,
+  'postcss.config.js',
+  'postcss.config.cjs',
+  'postcss.config.mjs',
+  'tailwind.config.js',
+  'tailwind.config.ts',
+  'tailwind.config.mjs',
+  'tsconfig.json',
+  'tsconfig.node.json',
+];
+
+export type TemplateFramework = 'react' | 'vue' | 'vanilla';
+
+export interface TemplateDefinition {
+  name: string;
+  description: string;
+  framework: TemplateFramework;
+  /** Installed template directory under DATA_DIR */
+  dirName: string;
+  /** Pre-built copy including node_modules (created during Docker build) */
+  prebuiltDir: string;
+  /** Pre-installed in the template; a user's package.json cannot override them */
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  /** File holding the app, written with a placeholder when no files are given */
+  appFile: string;
+}
+
+export const DEFAULT_TEMPLATE = 'react-shadcn';
+
+export class UnknownTemplateError extends Error {
+  constructor(public readonly template: string) {
+    super(`Unknown template: ${template}`);
+    this.name = 'UnknownTemplateError';
+  }
+}
+
+// react-minimal: react-shadcn's toolchain without the extra Tailwind plugins
+const REACT_DEV_DEPENDENCIES: Record<string, string> = {
+  '@babel/core': '^7.23.0',
+  '@babel/plugin-syntax-typescript': '^7.23.0',
+  '@types/react': '^18.2.37',
+  '@types/react-dom': '^18.2.15',
+  '@vitejs/plugin-react': '^4.2.0',
+  '@tailwindcss/postcss': '^4.0.0',
+  'tailwindcss': '^4.0.0',
+  'postcss-import': '^16.0.0',
+  'typescript': '^5.2.2',
+  'vite': '^5.0.0',
+  [JSX_TAGGER_PACKAGE]: '^0.1.0',
+};
+
+const TEMPLATES: TemplateDefinition[] = [
+  {
+    name: 'react-shadcn',
+    description: 'React + Tailwind with the shadcn/ui dependency set (Radix, forms, charts)',
+    framework: 'react',
+    dirName: '_template',
+    prebuiltDir: '/app/template',
+    dependencies: {
+      // Core React
+      'react': '^18.2.0',
+      'react-dom': '^18.2.0',
+      'react-router-dom': '^6.0.0',
+
+      // Styling utilities
+      'clsx': '^2.0.0',
+      'tailwind-merge': '^2.0.0',
+      'class-variance-authority': '^0.7.0',
+      'tw-animate-css': '^1.0.0',
+
+      // Radix UI primitives (shadcn/ui base)
+      '@radix-ui/react-accordion': '^1.0.0',
+      '@radix-ui/react-alert-dialog': '^1.0.0',
+      '@radix-ui/react-aspect-ratio': '^1.0.0',
+      '@radix-ui/react-avatar': '^1.0.0',
+      '@radix-ui/react-checkbox': '^1.0.0',
+      '@radix-ui/react-collapsible': '^1.0.0',
+      '@radix-ui/react-context-menu': '^2.0.0',
+      '@radix-ui/react-dialog': '^1.0.0',
+      '@radix-ui/react-dropdown-menu': '^2.0.0',
+      '@radix-ui/react-hover-card': '^1.0.0',
+      '@radix-ui/react-icons': '^1.0.0',
+      '@radix-ui/react-label': '^2.0.0',
+      '@radix-ui/react-menubar': '^1.0.0',
+      '@radix-ui/react-navigation-menu': '^1.0.0',
+      '@radix-ui/react-popover': '^1.0.0',
+      '@radix-ui/react-progress': '^1.0.0',
+      '@radix-ui/react-radio-group': '^1.0.0',
+      '@radix-ui/react-scroll-area': '^1.0.0',
+      '@radix-ui/react-select': '^2.0.0',
+      '@radix-ui/react-separator': '^1.0.0',
+      '@radix-ui/react-slider': '^1.0.0',
+      '@radix-ui/react-slot': '^1.0.0',
+      '@radix-ui/react-switch': '^1.0.0',
+      '@radix-ui/react-tabs': '^1.0.0',
+      '@radix-ui/react-toast': '^1.0.0',
+      '@radix-ui/react-toggle': '^1.0.0',
+      '@radix-ui/react-toggle-group': '^1.0.0',
+      '@radix-ui/react-tooltip': '^1.0.0',
+
+      // Common shadcn/ui dependencies
+      'lucide-react': '^0.400.0',
+      'cmdk': '^1.0.0',
+      'sonner': '^1.0.0',
+      'vaul': '^0.9.0',
+      'input-otp': '^1.0.0',
+      'embla-carousel-react': '^8.0.0',
+      'react-resizable-panels': '^2.0.0',
+      'react-day-picker': '^8.0.0',
+      'recharts': '^2.0.0',
+
+      // Form & validation
+      'react-hook-form': '^7.0.0',
+      '@hookform/resolvers': '^3.0.0',
+      'zod': '^3.0.0',
+
+      // State & utilities
+      'zustand': '^4.0.0',
+      'date-fns': '^3.0.0',
+      'axios': '^1.0.0',
+      'framer-motion': '^11.0.0',
+      'next-themes': '^0.3.0',
+    },
+    devDependencies: {
+      '@babel/core': '^7.23.0',
+      '@babel/plugin-syntax-typescript': '^7.23.0',
+      '@types/react': '^18.2.37',
+      '@types/react-dom': '^18.2.15',
+      '@vitejs/plugin-react': '^4.2.0',
+      '@tailwindcss/postcss': '^4.0.0',
+      '@tailwindcss/vite': '^4.0.0',
+      '@tailwindcss/typography': '^0.5.0',
+      'tailwindcss': '^4.0.0',
+      'postcss-import': '^16.0.0',
+      'typescript': '^5.2.2',
+      'vite': '^5.0.0',
+      [JSX_TAGGER_PACKAGE]: '^0.1.0',
+    },
+    appFile: 'src/App.tsx',
+  },
+  {
+    name: 'react-minimal',
+    description: 'React + Tailwind only, for lightweight landing pages',
+    framework: 'react',
+    dirName: '_template-react-minimal',
+    prebuiltDir: '/app/templates/react-minimal',
+    dependencies: {
+      'react': '^18.2.0',
+      'react-dom': '^18.2.0',
+      'clsx': '^2.0.0',
+      'tailwind-merge': '^2.0.0',
+      'lucide-react': '^0.400.0',
+    },
+    devDependencies: { ...REACT_DEV_DEPENDENCIES },
+    appFile: 'src/App.tsx',
+  },
+  {
+    name: 'vanilla-ts',
+    description: 'Plain TypeScript + Vite, no framework',
+    framework: 'vanilla',
+    dirName: '_template-vanilla-ts',
+    prebuiltDir: '/app/templates/vanilla-ts',
+    dependencies: {},
+    devDependencies: {
+      'typescript': '^5.2.2',
+      'vite': '^5.0.0',
+    },
+    appFile: 'src/main.ts',
+  },
+  {
+    name: 'vue',
+    description: 'Vue 3 single-file components + Vite',
+    framework: 'vue',
+    dirName: '_template-vue',
+    prebuiltDir: '/app/templates/vue',
+    dependencies: {
+      'vue': '^3.4.0',
+    },
+    devDependencies: {
+      '@vitejs/plugin-vue': '^5.0.0',
+      'typescript': '^5.2.2',
+      'vite': '^5.0.0',
+    },
+    appFile: 'src/App.vue',
+  },
+];
+
+/**
+ * Template by name (default template if omitted), undefined if unknown
+ */
+export function getTemplate(name: string = DEFAULT_TEMPLATE): TemplateDefinition | undefined {
+  return TEMPLATES.find(t => t.name === name);
+}
+
+export function listTemplates(): TemplateDefinition[] {
+  return [...TEMPLATES];
+}
+
+/**
+ * Package names pre-installed by a template
+ */
+export function getCoreDependencies(template: TemplateDefinition): Set<string> {
+  return new Set([...Object.keys(template.dependencies), ...Object.keys(template.devDependencies)]);
+}
+
+/**
+ * Framework of an existing project, from its package.json dependencies
+ */
+export function detectFramework(pkg: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> }): TemplateFramework {
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  if (deps['vue']) return 'vue';
+  if (deps['react']) return 'react';
+  return 'vanilla';
+}
+
+/**
+ * vite.config.ts for a project: base and HMR path are per projectId
+ * React projects get the jsx-tagger plugin for visual editing
+ */
+export function renderViteConfig(framework: TemplateFramework, projectId: string): string {
+  const idPrefix = projectId.slice(0, 8);
+  const basePath = `/p/${projectId}/`;
+
+  const imports = {
+    react: `import react from '@vitejs/plugin-react';
+import { jsxTaggerPlugin } from '${JSX_TAGGER_PACKAGE}';
+`,
+    vue: `import vue from '@vitejs/plugin-vue';
+`,
+    vanilla: '',
+  }[framework];
+
+  const plugins = {
+    react: `
+    // JSX Tagger must be before React plugin for visual editing
+    jsxTaggerPlugin({
+      idPrefix: '${idPrefix}',
+      removeInProduction: false,
+    }),
+    react(),
+  `,
+    vue: `
+    vue(),
+  `,
+    vanilla: '',
+  }[framework];
+
+  return `import { defineConfig } from 'vite';
+${imports}
+export default defineConfig({
+  base: '${basePath}',
+  plugins: [${plugins}],
+  server: {
+    host: true,
+    allowedHosts: 'all',
+    hmr: {
+      protocol: '${IS_HTTPS ? 'wss' : 'ws'}',
+      host: '${FLY_PUBLIC_HOST}',
+      clientPort: ${IS_HTTPS ? 443 : 3000},
+      path: '/hmr/${projectId}',
+      overlay: true,
+    },
+  },
+  build: {
+    sourcemap: true,
+  },
+  resolve: {
+    alias: {
+      '@': '/src',
+    },
+  },
+});
+`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Template Upgrader
+ * Brings an existing project's config files and pre-installed dependencies in
+ * line with the installed version of its template
+ *
+ * Source files are never touched, and dependencies the template does not
+ * pre-install (user additions) are kept as they are.
+ */
+
+import { readFile, writeFile, copyFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { templateManager, type TemplateManager } from './template-manager';
+import {
+  getTemplate,
+  renderViteConfig,
+  JSX_TAGGER_PACKAGE,
+  LOCKFILES,
+  TEMPLATE_CONFIG_FILES,
+  UnknownTemplateError,
+} from './template-registry';
+import type { TemplateDependencyChange, TemplateFileChange, TemplateUpgradePlan } from '../types';
+
+type TemplateSource = Pick<TemplateManager, 'initialize' | 'getTemplatePath' | 'getVersion'>;
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+export class TemplateUpgrader {
+  constructor(private templates: TemplateSource = templateManager) {}
+
+  /**
+   * Compute what upgrading the project to the installed template would change
+   * fromVersion is the template version recorded for the project (null if unknown)
+   */
+  async plan(
+    projectId: string,
+    projectPath: string,
+    templateName: string,
+    fromVersion: string | null
+  ): Promise<TemplateUpgradePlan> {
+    const template = getTemplate(templateName);
+    if (!template) throw new UnknownTemplateError(templateName);
+
+    await this.templates.initialize(template.name);
+    const templatePath = this.templates.getTemplatePath(template.name);
+    const toVersion = this.templates.getVersion(template.name);
+    if (!toVersion) {
+      throw new Error(`Template ${template.name} is not ready`);
+    }
+
+    const files: TemplateFileChange[] = [];
+    for (const path of TEMPLATE_CONFIG_FILES) {
+      if (path === 'package.json' || LOCKFILES.includes(path)) continue;
+
+      // vite.config.ts is generated per project, the template's copy is a placeholder
+      const expected = path === 'vite.config.ts'
+        ? renderViteConfig(template.framework, projectId)
+        : await readText(join(templatePath, path));
+      const current = await readText(join(projectPath, path));
+
+      if (expected === current) continue;
+      if (expected === null) {
+        files.push({ path, status: 'removed', before: current! });
+      } else if (current === null) {
+        files.push({ path, status: 'added', after: expected });
+      } else {
+        files.push({ path, status: 'modified', before: current, after: expected });
+      }
+    }
+
+    const templatePkg = (await readJson(join(templatePath, 'package.json'))) ?? {};
+    const projectPkg = (await readJson(join(projectPath, 'package.json'))) ?? {};
+    const dependencies: TemplateDependencyChange[] = [];
+
+    for (const dev of [false, true]) {
+      const section = dev ? 'devDependencies' : 'dependencies';
+      for (const [name, to] of Object.entries(templatePkg[section] ?? {})) {
+        const from = projectPkg.dependencies?.[name] ?? projectPkg.devDependencies?.[name] ?? null;
+        if (from === to && projectPkg[section]?.[name] !== undefined) continue;
+        dependencies.push({ name, dev, from, to });
+      }
+    }
+
+    // Version ranges may be unchanged while the template's lockfile resolves newer
+    // packages, so the lockfile is also replaced whenever the template moved on
+    if (dependencies.length > 0 || fromVersion !== toVersion) {
+      for (const lockfile of LOCKFILES) {
+        const expected = await readFile(join(templatePath, lockfile)).catch(() => null);
+        const current = await readFile(join(projectPath, lockfile)).catch(() => null);
+        if (!expected && !current) continue;
+        if (expected && current && expected.equals(current)) continue;
+        files.push({ path: lockfile, status: !expected ? 'removed' : !current ? 'added' : 'modified' });
+      }
+    }
+
+    const tagger = dependencies.find(d => d.name === JSX_TAGGER_PACKAGE);
+
+    return {
+      projectId,
+      template: template.name,
+      fromVersion,
+      toVersion,
+      files,
+      dependencies,
+      jsxTagger: tagger ? { from: tagger.from, to: tagger.to } : null,
+    };
+  }
+
+  /**
+   * Write a plan's config files and dependency versions into the project
+   * Installing the dependencies is left to the caller
+   */
+  async apply(projectPath: string, plan: TemplateUpgradePlan): Promise<void> {
+    const templatePath = this.templates.getTemplatePath(plan.template);
+
+    for (const change of plan.files) {
+      const target = join(projectPath, change.path);
+      if (change.status === 'removed') {
+        await rm(target, { force: true });
+      } else if (change.after !== undefined) {
+        await writeFile(target, change.after, 'utf-8');
+      } else {
+        // Lockfile, taken from the template as-is
+        await copyFile(join(templatePath, change.path), target);
+      }
+    }
+
+    if (plan.dependencies.length === 0) return;
+
+    const pkgPath = join(projectPath, 'package.json');
+    const pkg = JSON.parse(await readFile(pkgPath, 'utf-8'));
+    for (const { name, dev, to } of plan.dependencies) {
+      const section = dev ? 'devDependencies' : 'dependencies';
+      // Moved between sections in the template
+      delete pkg[dev ? 'dependencies' : 'devDependencies']?.[name];
+      pkg[section] = { ...pkg[section], [name]: to };
+    }
+    await writeFile(pkgPath, JSON.stringify(pkg, null, 2), 'utf-8');
+  }
+}
+
+async function readText(path: string): Promise<string | null> {
+  return readFile(path, 'utf-8').catch(() => null);
+}
+
+async function readJson(path: string): Promise<PackageJson | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export const templateUpgrader = new TemplateUpgrader();
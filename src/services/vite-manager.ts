@@ -1,22 +1,106 @@
 /**
  * Vite Dev Server Manager
  * Manages multiple project Vite development server processes
+ *
+ * Vite runs detached with its output written to files under stateDir, and the
+ * running instances are persisted there too. A restarted server re-adopts
+ * live processes instead of cold-starting every preview.
  */
 
-import { spawn, type ChildProcess } from 'child_process';
+import { spawn } from 'child_process';
 import { EventEmitter } from 'events';
-import { readFile, writeFile, rm, readdir, stat } from 'fs/promises';
-import { join } from 'path';
-import type { ViteInstance, ViteManagerConfig, ViteStatus, LogEvent, ExitEvent } from '../types';
+import { readFile, writeFile, mkdir, open, rename } from 'fs/promises';
+import { join, resolve } from 'path';
+import type { ViteInstance, ViteManagerConfig, ViteStatus, LogEvent, ExitEvent, PreviewHealth } from '../types';
 import { dependencyManager } from './dependency-manager';
+import { probePreview } from './preview-probe';
+import { isPortBindable } from '../lib/ports';
+import { findProcessesUnder, readProcessInfo, sampleProcessTrees } from '../lib/proc-stats';
+import { FileTail } from '../lib/file-tail';
+import { detectFramework, renderViteConfig, type TemplateFramework } from './template-registry';
+
+const DATA_DIR = process.env.DATA_DIR || '/data/sites';
 
 const DEFAULT_CONFIG: ViteManagerConfig = {
   basePort: 5200,
   maxInstances: 50,
   idleTimeout: 30 * 60 * 1000,  // 30 minutes
   startupTimeout: 60 * 1000,    // 60 seconds
+  queueTimeout: 20 * 1000,      // 20 seconds
+  maxQueueLength: 100,
+  stateDir: process.env.VITE_STATE_DIR || join(DATA_DIR, '_runtime'),
 };
 
+// Suggested client back-off when a start could not get a port
+const RETRY_AFTER_SECONDS = 10;
+
+/**
+ * Thrown when no port became free within queueTimeout (or the queue is full)
+ */
+export class PoolExhaustedError extends Error {
+  constructor(message: string, public readonly retryAfter: number = RETRY_AFTER_SECONDS) {
+    super(message);
+    this.name = 'PoolExhaustedError';
+  }
+}
+
+/** Instance entry of the state file */
+interface PersistedInstance {
+  projectId: string;
+  projectPath: string;
+  port: number;
+  pid: number;
+  startedAt: string;
+}
+
+/** Output and exit tracking of a running process */
+interface InstanceOutput {
+  stdout: FileTail;
+  stderr: FileTail;
+  /** Liveness polling for adopted processes (not our children, no 'exit' event) */
+  watcher: NodeJS.Timeout | null;
+  /** 'exit' listener on our child process */
+  onExit: ((code: number | null) => void) | null;
+}
+
+interface PortWaiter {
+  projectId: string;
+  resolve: (port: number) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Whether an instance accepts requests ('degraded' serves too, the app just failed to compile)
+ */
+export function isServing(status: ViteStatus | undefined): boolean {
+  return status === 'running' || status === 'degraded';
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signal a detached process and everything in its process group
+ */
+function signalTree(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
 export class ViteDevServerManager extends EventEmitter {
   private instances: Map<string, ViteInstance> = new Map();
   private portPool: Set<number> = new Set();
@@ -25,8 +109,14 @@ export class ViteDevServerManager extends EventEmitter {
   private bunBinary = process.env.BUN_BINARY || process.execPath;
   // Track projects being processed (creating, starting) to prevent accidental cleanup
   private activeProjects: Set<string> = new Set();
-  // Track projects being cleaned up to prevent concurrent cleanup
-  private cleaningProjects: Set<string> = new Set();
+  // Starts waiting for a free port, served first come first served
+  private portQueue: PortWaiter[] = [];
+  // In-flight starts, so concurrent requests for one project share a start (and a queue slot)
+  private pendingStarts: Map<string, Promise<ViteInstance>> = new Map();
+  // Ports held by processes we don't manage (port -> since), re-checked periodically
+  private quarantinedPorts: Map<number, Date> = new Map();
+  private outputs: Map<ViteInstance, InstanceOutput> = new Map();
+  private stateChain: Promise<void> = Promise.resolve();
 
   constructor(config: Partial<ViteManagerConfig> = {}) {
     super();
@@ -38,7 +128,12 @@ export class ViteDevServerManager extends EventEmitter {
     }
 
     // Start idle cleanup timer
-    this.cleanupTimer = setInterval(() => this.cleanupIdle(), 60 * 1000);
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupIdle();
+      this.recheckQuarantine().catch((error) => {
+        console.error('[ViteManager] Quarantine re-check failed:', error);
+      });
+    }, 60 * 1000);
   }
 
   /**
@@ -56,32 +151,55 @@ export class ViteDevServerManager extends EventEmitter {
     this.activeProjects.delete(projectId);
   }
 
+  /**
+   * Check if a project is being processed (creating, starting)
+   */
+  isProjectActive(projectId: string): boolean {
+    return this.activeProjects.has(projectId);
+  }
+
   /**
    * Start Vite Dev Server for a project
+   * Waits in the port queue when all instances are in use (PoolExhaustedError on timeout)
+   * Emits 'start-failed' if the start fails, exits during startup are not reported as crashes
    */
   async start(projectId: string, projectPath: string): Promise<ViteInstance> {
+    // If already running, update active time and return
+    const existing = this.instances.get(projectId);
+    if (existing && isServing(existing.status)) {
+      existing.lastActive = new Date();
+      return existing;
+    }
+
+    const pending = this.pendingStarts.get(projectId);
+    if (pending) return pending;
+
+    const promise = this.startInstance(projectId, projectPath);
+    this.pendingStarts.set(projectId, promise);
+    try {
+      return await promise;
+    } catch (error) {
+      this.emit('start-failed', { projectId, reason: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      this.pendingStarts.delete(projectId);
+    }
+  }
+
+  private async startInstance(projectId: string, projectPath: string): Promise<ViteInstance> {
     // Mark as active to prevent cleanup during startup
     this.activeProjects.add(projectId);
 
     try {
-      // If already running, update active time and return
-      const existing = this.instances.get(projectId);
-      if (existing && existing.status === 'running') {
-        existing.lastActive = new Date();
-        return existing;
-      }
-
-      // Allocate port
-      const port = this.allocatePort();
-      if (port === null) {
-        throw new Error('No available ports. Max instances reached.');
-      }
+      // Allocate port (queues when the pool is exhausted)
+      const port = await this.acquirePort(projectId);
 
       // Create instance
       const instance: ViteInstance = {
         projectId,
+        projectPath,
         port,
-        process: null as unknown as ChildProcess,
+        process: null,
         startedAt: new Date(),
         lastActive: new Date(),
         status: 'starting',
@@ -90,14 +208,21 @@ export class ViteDevServerManager extends EventEmitter {
       this.instances.set(projectId, instance);
 
       try {
-        // Ensure jsx-tagger dependency is installed
-        await this.ensureJsxTaggerDependency(projectPath);
+        const framework = await this.detectProjectFramework(projectPath);
 
-        // Ensure vite.config is properly configured (jsxTaggerPlugin, allowedHosts, base, hmr)
-        await this.ensureViteConfig(projectId, projectPath);
+        if (framework === 'react') {
+          // Ensure jsx-tagger dependency is installed
+          await this.ensureJsxTaggerDependency(projectPath);
 
-        // Ensure postcss.config.js has postcss-import for CSS npm package imports
-        await this.ensurePostcssConfig(projectPath);
+          // Ensure vite.config is properly configured (jsxTaggerPlugin, allowedHosts, base, hmr)
+          await this.ensureViteConfig(projectId, projectPath);
+
+          // Ensure postcss.config.js has postcss-import for CSS npm package imports
+          await this.ensurePostcssConfig(projectPath);
+        } else {
+          // Other templates have no visual editing or Tailwind; only base and HMR path matter
+          await this.ensureTemplateViteConfig(projectId, projectPath, framework);
+        }
 
         // Try to start Vite (fast path - no bun install if template is correct)
         try {
@@ -119,8 +244,10 @@ export class ViteDevServerManager extends EventEmitter {
         }
       } catch (error) {
         instance.status = 'error';
-        this.releasePort(port);
-        this.instances.delete(projectId);
+        // The start owns its port until here (handleExit leaves exits during startup to it)
+        // --strictPort fails if something grabbed the port after it was checked
+        await this.releaseOrQuarantinePort(port);
+        if (this.instances.get(projectId) === instance) this.instances.delete(projectId);
         console.error(`[ViteManager] Failed to start ${projectId}:`, error);
         throw error;
       }
@@ -136,24 +263,39 @@ export class ViteDevServerManager extends EventEmitter {
   private async startViteProcess(instance: ViteInstance, projectPath: string, port: number): Promise<void> {
     const { projectId } = instance;
 
-    // Kill any existing process
-    if (instance.process && !instance.process.killed) {
-      instance.process.kill('SIGKILL');
-    }
-
-    // Start Vite process
-    const proc = spawn(this.bunBinary, [
-      'run', 'vite',
-      '--host', '0.0.0.0',
-      '--port', String(port),
-      '--strictPort',
-    ], {
-      cwd: projectPath,
-      env: { ...process.env, NODE_ENV: 'development' },
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
+    // Kill any existing process (a retry after a timed-out attempt), no longer following
+    // it first: its late exit would otherwise be handled as the new process's
+    this.unwatchProcess(instance);
+    if (instance.pid && isProcessAlive(instance.pid)) {
+      signalTree(instance.pid, 'SIGKILL');
+    }
+
+    // Output goes to files (opened for append, so the tail can truncate them)
+    // and the process gets its own group, so Vite survives a server restart
+    const logs = this.getLogPaths(projectId);
+    await mkdir(join(this.config.stateDir, 'logs'), { recursive: true });
+    await Promise.all([writeFile(logs.stdout, ''), writeFile(logs.stderr, '')]);
+    const [stdout, stderr] = await Promise.all([open(logs.stdout, 'a'), open(logs.stderr, 'a')]);
+
+    let proc;
+    try {
+      proc = spawn(this.bunBinary, [
+        'run', 'vite',
+        '--host', '0.0.0.0',
+        '--port', String(port),
+        '--strictPort',
+      ], {
+        cwd: projectPath,
+        env: { ...process.env, NODE_ENV: 'development' },
+        stdio: ['ignore', stdout.fd, stderr.fd],
+        detached: true,
+      });
+    } finally {
+      await Promise.all([stdout.close(), stderr.close()]);
+    }
 
     instance.process = proc;
+    instance.pid = proc.pid;
 
     // Track if process exited early
     let processExited = false;
@@ -165,18 +307,53 @@ export class ViteDevServerManager extends EventEmitter {
     proc.on('exit', exitHandler);
 
     // Listen to output
-    this.setupProcessListeners(instance);
+    this.watchProcess(instance);
 
     // Wait for server to be ready (with early exit detection)
     await this.waitForReadyWithExitCheck(port, () => processExited, () => exitCode);
 
+    // Server answers HTTP; verify the app actually compiles
+    const health = await probePreview(port, `/p/${projectId}/`);
+
     // Remove the exit handler we added (setupProcessListeners already handles this)
     proc.removeListener('exit', exitHandler);
-
-    instance.status = 'running';
+    // Still 'starting', so an exit while probing is this start's failure, not a crash
+    if (processExited) {
+      throw new Error(`Vite process exited with code ${exitCode}`);
+    }
+    this.applyHealth(instance, health);
     this.emit('started', { projectId, port });
+    this.emit('health', { projectId, status: instance.status, health });
+    this.saveState();
 
-    console.log(`[ViteManager] Started: ${projectId} on port ${port}`);
+    console.log(`[ViteManager] Started: ${projectId} on port ${port}${health.ok ? '' : ` (degraded: ${health.error?.message.split('\n')[0]})`}`);
+  }
+
+  /**
+   * Re-run the readiness probe for a serving instance
+   * Updates status between 'running' and 'degraded'; null if not serving
+   */
+  async checkHealth(projectId: string): Promise<PreviewHealth | null> {
+    const instance = this.instances.get(projectId);
+    if (!instance || !isServing(instance.status)) return null;
+
+    const health = await probePreview(instance.port, `/p/${projectId}/`);
+    // Instance may have been stopped while probing
+    if (this.instances.get(projectId) !== instance || !isServing(instance.status)) return null;
+
+    const previous = instance.status;
+    this.applyHealth(instance, health);
+    if (instance.status !== previous) {
+      console.log(`[ViteManager] ${projectId}: ${previous} -> ${instance.status}`);
+      this.emit('health', { projectId, status: instance.status, health });
+    }
+
+    return health;
+  }
+
+  private applyHealth(instance: ViteInstance, health: PreviewHealth): void {
+    instance.health = health;
+    instance.status = health.ok ? 'running' : 'degraded';
   }
 
   /**
@@ -212,6 +389,83 @@ export class ViteDevServerManager extends EventEmitter {
     throw new Error(`Vite startup timeout after ${quickTimeout}ms`);
   }
 
+  /**
+   * Hand a running instance over to another project after its directory was moved
+   * The caller rewrites vite.config.ts for the new id first; Vite restarts itself on
+   * the config change and serves the new base and HMR path on the same port
+   */
+  async rebase(fromId: string, projectId: string, projectPath: string): Promise<ViteInstance> {
+    const instance = this.instances.get(fromId);
+    if (!instance || !isServing(instance.status)) {
+      throw new Error(`No running instance for ${fromId}`);
+    }
+    if (this.instances.has(projectId)) {
+      throw new Error(`Instance already exists for ${projectId}`);
+    }
+
+    this.instances.delete(fromId);
+    this.activeProjects.delete(fromId);
+    instance.projectId = projectId;
+    instance.projectPath = projectPath;
+    instance.lastActive = new Date();
+    instance.status = 'starting';
+    this.instances.set(projectId, instance);
+
+    // Move the output files along (Vite keeps appending to the renamed files)
+    const from = this.getLogPaths(fromId);
+    const to = this.getLogPaths(projectId);
+    const output = this.outputs.get(instance);
+    await Promise.all([rename(from.stdout, to.stdout), rename(from.stderr, to.stderr)]).catch(() => {});
+    output?.stdout.moveTo(to.stdout);
+    output?.stderr.moveTo(to.stderr);
+
+    this.activeProjects.add(projectId);
+    try {
+      await this.waitForBase(instance, `/p/${projectId}/`);
+    } catch (error) {
+      console.error(`[ViteManager] Failed to rebase ${fromId} to ${projectId}:`, error);
+      await this.stop(projectId);
+      throw error;
+    } finally {
+      this.activeProjects.delete(projectId);
+    }
+
+    const health = await probePreview(instance.port, `/p/${projectId}/`);
+    this.applyHealth(instance, health);
+    this.emit('started', { projectId, port: instance.port });
+    this.emit('health', { projectId, status: instance.status, health });
+    this.saveState();
+
+    console.log(`[ViteManager] Rebased: ${fromId} -> ${projectId} on port ${instance.port}`);
+    return instance;
+  }
+
+  /**
+   * Wait until a restarting Vite serves the given base (other bases answer 404)
+   */
+  private async waitForBase(instance: ViteInstance, basePath: string): Promise<void> {
+    const start = Date.now();
+
+    while (Date.now() - start < this.config.startupTimeout) {
+      if (this.instances.get(instance.projectId) !== instance || (instance.pid && !isProcessAlive(instance.pid))) {
+        throw new Error('Vite process exited during restart');
+      }
+      try {
+        const response = await fetch(`http://localhost:${instance.port}${basePath}`, {
+          headers: { Accept: 'text/html' },
+          signal: AbortSignal.timeout(2000),
+        });
+        await response.body?.cancel();
+        if (response.ok) return;
+      } catch {
+        // Restarting, continue waiting
+      }
+      await new Promise(r => setTimeout(r, 100));
+    }
+
+    throw new Error(`Vite did not serve ${basePath} within ${this.config.startupTimeout}ms`);
+  }
+
   /**
    * Stop Vite Dev Server for a project
    */
@@ -221,32 +475,47 @@ export class ViteDevServerManager extends EventEmitter {
 
     instance.status = 'stopping';
 
-    // Graceful shutdown
-    instance.process.kill('SIGTERM');
-
-    // Wait for process to exit (max 5 seconds)
-    await Promise.race([
-      new Promise<void>(resolve => {
-        instance.process.on('exit', () => resolve());
-      }),
-      new Promise<void>(resolve => {
-        setTimeout(() => {
-          if (instance.process.killed === false) {
-            instance.process.kill('SIGKILL');
-          }
-          resolve();
-        }, 5000);
-      }),
-    ]);
+    // Graceful shutdown, forced after 5 seconds
+    await this.terminate(instance);
 
     instance.status = 'stopped';
     this.releasePort(instance.port);
     this.instances.delete(projectId);
     this.emit('stopped', { projectId });
+    this.saveState();
 
     console.log(`[ViteManager] Stopped: ${projectId}`);
   }
 
+  /**
+   * Framework of the project from its package.json (React if unreadable, the historical default)
+   */
+  private async detectProjectFramework(projectPath: string): Promise<TemplateFramework> {
+    try {
+      return detectFramework(JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf-8')));
+    } catch {
+      return 'react';
+    }
+  }
+
+  /**
+   * Ensure a non-React project's vite.config.ts has this project's base and HMR path
+   */
+  private async ensureTemplateViteConfig(projectId: string, projectPath: string, framework: TemplateFramework): Promise<void> {
+    const configPath = join(projectPath, 'vite.config.ts');
+
+    try {
+      const content = await readFile(configPath, 'utf-8').catch(() => '');
+      if (content.includes(`base: '/p/${projectId}/'`) && content.includes(`path: '/hmr/${projectId}'`)) {
+        return;
+      }
+      await writeFile(configPath, renderViteConfig(framework, projectId), 'utf-8');
+      console.log(`[ViteManager] Regenerated ${framework} vite.config.ts for ${projectId}`);
+    } catch (error) {
+      console.warn(`[ViteManager] Failed to update vite.config.ts:`, error);
+    }
+  }
+
   /**
    * Ensure jsx-tagger dependency is installed
    */
@@ -454,7 +723,7 @@ export default defineConfig({
    */
   getPreviewUrl(projectId: string): string | null {
     const instance = this.instances.get(projectId);
-    if (!instance || instance.status !== 'running') return null;
+    if (!instance || !isServing(instance.status)) return null;
     return `http://localhost:${instance.port}`;
   }
 
@@ -463,7 +732,7 @@ export default defineConfig({
    */
   getHmrUrl(projectId: string): string | null {
     const instance = this.instances.get(projectId);
-    if (!instance || instance.status !== 'running') return null;
+    if (!instance || !isServing(instance.status)) return null;
     return `ws://localhost:${instance.port}`;
   }
 
@@ -482,17 +751,18 @@ export default defineConfig({
    */
   getRunningCount(): number {
     return Array.from(this.instances.values())
-      .filter(i => i.status === 'running')
+      .filter(i => isServing(i.status))
       .length;
   }
 
   /**
    * Get status of all instances
    */
-  getAllInstances(): Array<{ projectId: string; port: number; status: ViteStatus; lastActive: Date }> {
+  getAllInstances(): Array<{ projectId: string; port: number; pid?: number; status: ViteStatus; lastActive: Date }> {
     return Array.from(this.instances.values()).map(i => ({
       projectId: i.projectId,
       port: i.port,
+      pid: i.pid,
       status: i.status,
       lastActive: i.lastActive,
     }));
@@ -507,254 +777,467 @@ export default defineConfig({
       this.cleanupTimer = null;
     }
 
+    // Fail queued starts
+    for (const waiter of this.portQueue.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new PoolExhaustedError('Server shutting down'));
+    }
+
     // Stop all instances
     const stopPromises = Array.from(this.instances.keys()).map(id => this.stop(id));
     await Promise.all(stopPromises);
   }
 
-  private allocatePort(): number | null {
-    const iterator = this.portPool.values();
-    const result = iterator.next();
-    if (!result.done) {
-      this.portPool.delete(result.value);
-      return result.value;
+  /**
+   * Shut down the manager but leave Vite processes running for the next server to adopt
+   */
+  async detach(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
     }
-    return null;
-  }
 
-  private releasePort(port: number): void {
-    this.portPool.add(port);
-  }
+    for (const waiter of this.portQueue.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new PoolExhaustedError('Server shutting down'));
+    }
 
-  private setupProcessListeners(instance: ViteInstance): void {
-    const { process: proc, projectId } = instance;
+    for (const output of this.outputs.values()) {
+      if (output.watcher) clearInterval(output.watcher);
+      output.stdout.stop();
+      output.stderr.stop();
+    }
+    this.outputs.clear();
 
-    proc.stdout?.on('data', (data: Buffer) => {
-      const message = data.toString();
-      console.log(`[Vite:${projectId.slice(0, 8)}] ${message.trim()}`);
-      const event: LogEvent = {
-        projectId,
-        type: 'stdout',
-        message
-      };
-      this.emit('log', event);
-    });
+    await this.persistState();
+    console.log(`[ViteManager] Detached, ${this.instances.size} instance(s) left running`);
+  }
 
-    proc.stderr?.on('data', (data: Buffer) => {
-      const message = data.toString();
-      console.error(`[Vite:${projectId.slice(0, 8)}:ERR] ${message.trim()}`);
-      const event: LogEvent = {
-        projectId,
-        type: 'stderr',
-        message
-      };
-      this.emit('log', event);
-    });
+  /**
+   * Take over Vite processes persisted by a previous server run
+   * Live processes that still serve their port are adopted, anything else is killed
+   * Call at startup, before any instance is started
+   */
+  async adoptInstances(): Promise<string[]> {
+    let records: PersistedInstance[];
+    try {
+      records = JSON.parse(await readFile(this.getStatePath(), 'utf-8'));
+    } catch {
+      return [];  // No state file
+    }
 
-    proc.on('exit', (code: number | null) => {
-      const event: ExitEvent = { projectId, code };
-      this.emit('exit', event);
+    const adopted: string[] = [];
+    for (const record of records) {
+      if (this.instances.has(record.projectId)) continue;
 
-      if (instance.status !== 'stopping' && instance.status !== 'stopped') {
-        // Abnormal exit
-        console.error(`[ViteManager] Process exited unexpectedly: ${projectId}, code: ${code}`);
-        this.releasePort(instance.port);
-        this.instances.delete(projectId);
+      // The pid may have been reused by an unrelated process after a reboot
+      const info = isProcessAlive(record.pid) ? await readProcessInfo(record.pid) : null;
+      if (!info || info.cwd !== resolve(record.projectPath) || !/\bvite\b/.test(info.command)) {
+        continue;
       }
-    });
 
-    proc.on('error', (error: Error) => {
-      console.error(`[ViteManager] Process error: ${projectId}`, error);
-      instance.status = 'error';
-    });
-  }
-
-  private async waitForReady(port: number): Promise<void> {
-    const start = Date.now();
-
-    while (Date.now() - start < this.config.startupTimeout) {
-      try {
-        const response = await fetch(`http://localhost:${port}`, {
-          method: 'HEAD',
-        });
-        // Vite may return 200 or 404 (when there's no index.html)
-        if (response.ok || response.status === 404) {
-          return;
-        }
-      } catch {
-        // Server not ready yet, continue waiting
+      if (!this.portPool.has(record.port) || !(await this.isResponding(record.port))) {
+        console.warn(`[ViteManager] Reaping previous Vite process for ${record.projectId} (pid ${record.pid}, port ${record.port})`);
+        signalTree(record.pid, 'SIGKILL');
+        continue;
       }
-      await new Promise(r => setTimeout(r, 200));
+
+      this.portPool.delete(record.port);
+      const instance: ViteInstance = {
+        projectId: record.projectId,
+        projectPath: record.projectPath,
+        port: record.port,
+        pid: record.pid,
+        process: null,
+        startedAt: new Date(record.startedAt),
+        lastActive: new Date(),
+        status: 'starting',
+      };
+      this.instances.set(record.projectId, instance);
+      this.watchProcess(instance);
+
+      const health = await probePreview(instance.port, `/p/${instance.projectId}/`);
+      this.applyHealth(instance, health);
+      this.emit('started', { projectId: instance.projectId, port: instance.port });
+      this.emit('health', { projectId: instance.projectId, status: instance.status, health });
+      adopted.push(instance.projectId);
+      console.log(`[ViteManager] Adopted: ${instance.projectId} on port ${instance.port} (pid ${instance.pid})`);
     }
 
-    throw new Error(`Vite startup timeout after ${this.config.startupTimeout}ms`);
+    await this.persistState();
+    return adopted;
   }
 
-  private cleanupIdle(): void {
-    const now = Date.now();
-    const CLEANUP_THRESHOLD = 10 * 60 * 1000; // 10 minutes - cleanup project files
+  /**
+   * Number of pool ports not in use (quarantined ports excluded)
+   */
+  getFreePortCount(): number {
+    return this.portPool.size;
+  }
 
-    // Cleanup running instances that are idle
-    for (const [projectId, instance] of this.instances) {
-      // Safety: Skip if project is being processed
-      if (this.activeProjects.has(projectId)) continue;
-      // Safety: Skip if already being cleaned up
-      if (this.cleaningProjects.has(projectId)) continue;
+  /**
+   * Number of starts waiting for a free port
+   */
+  getQueueLength(): number {
+    return this.portQueue.length;
+  }
 
-      if (instance.status === 'running') {
-        const idleTime = now - instance.lastActive.getTime();
-        if (idleTime > CLEANUP_THRESHOLD) {
-          console.log(`[ViteManager] Stopping idle instance and cleaning up: ${projectId} (idle for ${Math.round(idleTime / 1000)}s)`);
-          this.stopAndCleanup(projectId).catch(err => {
-            console.error(`[ViteManager] Failed to cleanup idle instance ${projectId}:`, err);
-          });
-        }
-      }
+  /**
+   * Take a free port, or wait in line until one is released
+   * Emits 'pool-exhausted' so idle instances can be evicted to make room
+   */
+  private async acquirePort(projectId: string): Promise<number> {
+    // Don't overtake callers already waiting
+    if (this.portQueue.length === 0) {
+      const port = await this.allocatePort();
+      if (port !== null) return port;
+    }
+
+    if (this.portQueue.length >= this.config.maxQueueLength) {
+      throw new PoolExhaustedError(`Start queue is full (${this.portQueue.length} waiting)`);
     }
 
-    // Also cleanup orphan project directories (no running Vite instance)
-    this.cleanupOrphanProjects(CLEANUP_THRESHOLD).catch(err => {
-      console.error(`[ViteManager] Failed to cleanup orphan projects:`, err);
+    return new Promise<number>((resolve, reject) => {
+      const waiter: PortWaiter = {
+        projectId,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.portQueue = this.portQueue.filter(w => w !== waiter);
+          console.warn(`[ViteManager] Start of ${projectId} timed out waiting for a free port`);
+          reject(new PoolExhaustedError(`No available ports after ${this.config.queueTimeout}ms. Max instances reached.`));
+        }, this.config.queueTimeout),
+      };
+
+      this.portQueue.push(waiter);
+      console.log(`[ViteManager] All ${this.config.maxInstances} ports in use, ${projectId} queued (position ${this.portQueue.length})`);
+      this.emit('pool-exhausted', { projectId, queueLength: this.portQueue.length });
     });
   }
 
   /**
-   * Cleanup orphan project directories that have no running Vite instance
+   * Take the first free port that can actually be bound
+   * Ports held by other processes (e.g. a zombie Vite from a crashed server) are quarantined
    */
-  private async cleanupOrphanProjects(thresholdMs: number): Promise<void> {
-    const dataDir = process.env.DATA_DIR || '/data/sites';
-    const now = Date.now();
+  private async allocatePort(): Promise<number | null> {
+    for (const port of this.portPool) {
+      // Remove before the async check so concurrent allocations never share a port
+      this.portPool.delete(port);
+      if (await isPortBindable(port)) {
+        return port;
+      }
+      this.quarantinePort(port);
+    }
+    return null;
+  }
 
-    try {
-      const entries = await readdir(dataDir, { withFileTypes: true });
+  private quarantinePort(port: number): void {
+    if (this.quarantinedPorts.has(port)) return;
+    this.quarantinedPorts.set(port, new Date());
+    console.warn(`[ViteManager] Port ${port} is held by another process, quarantined`);
+    this.emit('port-quarantined', { port });
+  }
 
-      for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
+  private async releaseOrQuarantinePort(port: number): Promise<void> {
+    if (await isPortBindable(port)) {
+      this.releasePort(port);
+    } else {
+      this.quarantinePort(port);
+    }
+  }
 
-        const projectId = entry.name;
+  /**
+   * Return quarantined ports to the pool once they are free again
+   */
+  async recheckQuarantine(): Promise<number[]> {
+    const freed: number[] = [];
+    for (const port of Array.from(this.quarantinedPorts.keys())) {
+      if (!(await isPortBindable(port))) continue;
+      this.quarantinedPorts.delete(port);
+      this.releasePort(port);
+      freed.push(port);
+    }
+    if (freed.length > 0) {
+      console.log(`[ViteManager] Released quarantined ports: ${freed.join(', ')}`);
+    }
+    return freed;
+  }
 
-        // Safety: Skip if Vite is running for this project
-        if (this.instances.has(projectId)) continue;
+  /**
+   * Ports currently quarantined
+   */
+  getQuarantinedPorts(): Array<{ port: number; since: Date }> {
+    return Array.from(this.quarantinedPorts, ([port, since]) => ({ port, since }));
+  }
 
-        // Safety: Skip if project is being processed (creating, starting)
-        if (this.activeProjects.has(projectId)) continue;
+  /**
+   * Kill Vite processes left over from a previous server (cwd under dataDir, not managed here)
+   * Call at startup, before any instance is started
+   */
+  async reapOrphans(dataDir: string): Promise<number[]> {
+    const managedRoots = Array.from(this.instances.values())
+      .map(i => i.pid)
+      .filter((pid): pid is number => pid !== undefined);
+    const managed = new Set([process.pid]);
+    for (const tree of (await sampleProcessTrees(managedRoots)).values()) {
+      tree.pids.forEach(pid => managed.add(pid));
+    }
 
-        // Safety: Skip if already being cleaned up
-        if (this.cleaningProjects.has(projectId)) continue;
+    const orphans = (await findProcessesUnder(dataDir))
+      .filter(p => !managed.has(p.pid) && /\bvite\b/.test(p.command));
+    if (orphans.length === 0) return [];
 
-        // Safety: Skip protected directories
-        if (!this.isSafeToCleanup(projectId)) continue;
+    for (const orphan of orphans) {
+      console.warn(`[ViteManager] Killing orphaned Vite process ${orphan.pid} (${orphan.cwd})`);
+      try {
+        process.kill(orphan.pid, 'SIGTERM');
+      } catch {
+        // Already gone
+      }
+    }
 
-        const projectPath = join(dataDir, projectId);
+    // Give them up to 5 seconds, then force
+    const deadline = Date.now() + 5000;
+    let alive = orphans.map(o => o.pid);
+    while (alive.length > 0 && Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, 100));
+      alive = alive.filter(isProcessAlive);
+    }
+    for (const pid of alive) {
+      try {
+        process.kill(pid, 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+    }
 
-        // Safety: Verify it's a valid project directory (has package.json)
-        const isValidProject = await this.isValidProjectDir(projectPath);
-        if (!isValidProject) continue;
+    await this.recheckQuarantine();
+    return orphans.map(o => o.pid);
+  }
 
-        try {
-          // Use birthtime (creation time) for more accurate age calculation
-          const stats = await stat(projectPath);
-          const age = now - (stats.birthtimeMs || stats.mtimeMs);
-
-          // Cleanup if directory is older than threshold
-          if (age > thresholdMs) {
-            console.log(`[ViteManager] Cleaning up orphan project: ${projectId} (age: ${Math.round(age / 1000)}s)`);
-            this.cleaningProjects.add(projectId);
-            try {
-              await rm(projectPath, { recursive: true, force: true });
-              this.emit('cleanup', { projectId });
-            } finally {
-              this.cleaningProjects.delete(projectId);
-            }
-          }
-        } catch {
-          // Ignore stat errors
-        }
-      }
-    } catch {
-      // DATA_DIR may not exist yet
+  private releasePort(port: number): void {
+    // Hand the port directly to the longest waiting start
+    const waiter = this.portQueue.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(port);
+      return;
     }
+    this.portPool.add(port);
   }
 
   /**
-   * Check if a projectId is safe to cleanup (not a protected directory)
+   * Follow a process's output files and detect its exit
+   * Adopted processes (existing output already seen) are followed from the end
    */
-  private isSafeToCleanup(projectId: string): boolean {
-    // Only allow alphanumeric, dash, underscore
-    const validPattern = /^[a-zA-Z0-9_-]+$/;
-    if (!validPattern.test(projectId)) {
-      return false;
+  private watchProcess(instance: ViteInstance): void {
+    const { process: proc, projectId } = instance;
+    const logs = this.getLogPaths(projectId);
+
+    // instance.projectId is read per message: a rebased instance keeps its tails
+    const output: InstanceOutput = {
+      stdout: new FileTail(logs.stdout, (message) => {
+        console.log(`[Vite:${instance.projectId.slice(0, 8)}] ${message.trim()}`);
+        const event: LogEvent = {
+          projectId: instance.projectId,
+          type: 'stdout',
+          message
+        };
+        this.emit('log', event);
+      }),
+      stderr: new FileTail(logs.stderr, (message) => {
+        console.error(`[Vite:${instance.projectId.slice(0, 8)}:ERR] ${message.trim()}`);
+        const event: LogEvent = {
+          projectId: instance.projectId,
+          type: 'stderr',
+          message
+        };
+        this.emit('log', event);
+      }),
+      watcher: null,
+      onExit: null,
+    };
+    this.outputs.set(instance, output);
+
+    const fromEnd = proc === null;
+    output.stdout.start(fromEnd).catch(() => {});
+    output.stderr.start(fromEnd).catch(() => {});
+
+    if (proc) {
+      output.onExit = (code: number | null) => {
+        this.handleExit(instance, code);
+      };
+      proc.on('exit', output.onExit);
+
+      proc.on('error', (error: Error) => {
+        console.error(`[ViteManager] Process error: ${projectId}`, error);
+        instance.status = 'error';
+      });
+    } else {
+      // Not our child: no 'exit' event, poll instead (exit code unknown)
+      output.watcher = setInterval(() => {
+        if (!isProcessAlive(instance.pid!)) this.handleExit(instance, null);
+      }, 1000);
+      output.watcher.unref?.();
     }
+  }
 
-    // Protected directories that should never be deleted
-    const protectedDirs = new Set([
-      '_template',
-      'template',
-      'node_modules',
-      '.git',
-      '.cache',
-      'dist',
-      'build',
-    ]);
+  /**
+   * Stop following the instance's current process (output and exit)
+   */
+  private unwatchProcess(instance: ViteInstance): void {
+    const output = this.outputs.get(instance);
+    if (!output) return;
+    this.outputs.delete(instance);
+
+    if (output.watcher) clearInterval(output.watcher);
+    if (output.onExit) instance.process?.removeListener('exit', output.onExit);
+    output.stdout.stop();
+    output.stderr.stop();
+  }
 
-    return !protectedDirs.has(projectId);
+  private async handleExit(instance: ViteInstance, code: number | null): Promise<void> {
+    const output = this.outputs.get(instance);
+    if (!output) return;
+    this.outputs.delete(instance);
+
+    // Exits during a start (or rebase) fail that start, which retries or cleans up itself
+    const crashed = instance.status !== 'starting' && instance.status !== 'stopping' && instance.status !== 'stopped';
+
+    // Deliver the last output (e.g. the crash stack trace) before the exit event
+    if (output.watcher) clearInterval(output.watcher);
+    await Promise.all([output.stdout.flush(), output.stderr.flush()]).catch(() => {});
+    output.stdout.stop();
+    output.stderr.stop();
+
+    // Read after the flush: the instance may have been rebased meanwhile
+    const { projectId, projectPath } = instance;
+    // An instance no longer registered was already cleaned up, its port is not ours to release
+    const unexpected = crashed && this.instances.get(projectId) === instance;
+    const event: ExitEvent = { projectId, projectPath, code, unexpected };
+    this.emit('exit', event);
+
+    if (unexpected) {
+      // Abnormal exit
+      console.error(`[ViteManager] Process exited unexpectedly: ${projectId}, code: ${code}`);
+      this.releasePort(instance.port);
+      this.instances.delete(projectId);
+      this.saveState();
+    }
   }
 
   /**
-   * Check if directory is a valid project (has package.json)
+   * SIGTERM the process group, SIGKILL if it is still alive after 5 seconds
    */
-  private async isValidProjectDir(projectPath: string): Promise<boolean> {
+  private async terminate(instance: ViteInstance): Promise<void> {
+    const { pid, process: proc } = instance;
+    if (!pid) return;
+
+    const exited = () => proc
+      ? proc.exitCode !== null || proc.signalCode !== null
+      : !isProcessAlive(pid);
+
+    signalTree(pid, 'SIGTERM');
+    const deadline = Date.now() + 5000;
+    while (!exited() && Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, 100));
+    }
+    if (!exited()) {
+      signalTree(pid, 'SIGKILL');
+    }
+  }
+
+  private async isResponding(port: number): Promise<boolean> {
     try {
-      const pkgPath = join(projectPath, 'package.json');
-      const stats = await stat(pkgPath);
-      return stats.isFile();
+      const response = await fetch(`http://localhost:${port}`, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(2000),
+      });
+      return response.ok || response.status === 404;
     } catch {
       return false;
     }
   }
 
+  private getStatePath(): string {
+    return join(this.config.stateDir, 'instances.json');
+  }
+
+  private getLogPaths(projectId: string): { stdout: string; stderr: string } {
+    const dir = join(this.config.stateDir, 'logs');
+    return { stdout: join(dir, `${projectId}.out.log`), stderr: join(dir, `${projectId}.err.log`) };
+  }
+
   /**
-   * Stop Vite and cleanup project files
+   * Write serving instances to the state file (serialized, via temp file + rename)
    */
-  private async stopAndCleanup(projectId: string): Promise<void> {
-    // Safety: Skip if already being cleaned up
-    if (this.cleaningProjects.has(projectId)) {
-      console.log(`[ViteManager] Project ${projectId} is already being cleaned up, skipping`);
-      return;
-    }
+  private persistState(): Promise<void> {
+    const records: PersistedInstance[] = Array.from(this.instances.values())
+      .filter(i => isServing(i.status) && i.pid !== undefined)
+      .map(i => ({
+        projectId: i.projectId,
+        projectPath: i.projectPath,
+        port: i.port,
+        pid: i.pid!,
+        startedAt: i.startedAt.toISOString(),
+      }));
+
+    this.stateChain = this.stateChain.catch(() => {}).then(async () => {
+      const statePath = this.getStatePath();
+      await mkdir(this.config.stateDir, { recursive: true });
+      await writeFile(`${statePath}.tmp`, JSON.stringify(records, null, 2), 'utf-8');
+      await rename(`${statePath}.tmp`, statePath);
+    });
+    return this.stateChain;
+  }
 
-    // Mark as being cleaned up
-    this.cleaningProjects.add(projectId);
+  private saveState(): void {
+    this.persistState().catch((error) => {
+      console.error('[ViteManager] Failed to persist instance state:', error);
+    });
+  }
 
-    try {
-      // Stop Vite first
-      await this.stop(projectId);
+  private async waitForReady(port: number): Promise<void> {
+    const start = Date.now();
 
-      // Safety: Validate projectId
-      const safeId = projectId.replace(/[^a-zA-Z0-9_-]/g, '');
-      if (!this.isSafeToCleanup(safeId)) {
-        console.warn(`[ViteManager] Refusing to cleanup protected directory: ${projectId}`);
-        return;
+    while (Date.now() - start < this.config.startupTimeout) {
+      try {
+        const response = await fetch(`http://localhost:${port}`, {
+          method: 'HEAD',
+        });
+        // Vite may return 200 or 404 (when there's no index.html)
+        if (response.ok || response.status === 404) {
+          return;
+        }
+      } catch {
+        // Server not ready yet, continue waiting
       }
+      await new Promise(r => setTimeout(r, 200));
+    }
 
-      // Cleanup project files
-      const dataDir = process.env.DATA_DIR || '/data/sites';
-      const projectPath = join(dataDir, safeId);
+    throw new Error(`Vite startup timeout after ${this.config.startupTimeout}ms`);
+  }
 
-      // Safety: Verify it's a valid project directory
-      const isValidProject = await this.isValidProjectDir(projectPath);
-      if (!isValidProject) {
-        console.warn(`[ViteManager] Refusing to cleanup non-project directory: ${projectId}`);
-        return;
-      }
+  /**
+   * Stop dev servers that have been idle longer than idleTimeout
+   * Only stops the process; project files are handled by the retention policy
+   */
+  private cleanupIdle(): void {
+    const now = Date.now();
 
-      await rm(projectPath, { recursive: true, force: true });
-      console.log(`[ViteManager] Cleaned up project files: ${projectId}`);
-      this.emit('cleanup', { projectId });
-    } catch (error) {
-      console.error(`[ViteManager] Failed to cleanup project ${projectId}:`, error);
-    } finally {
-      this.cleaningProjects.delete(projectId);
+    for (const [projectId, instance] of this.instances) {
+      // Safety: Skip if project is being processed
+      if (this.activeProjects.has(projectId)) continue;
+
+      if (isServing(instance.status)) {
+        const idleTime = now - instance.lastActive.getTime();
+        if (idleTime > this.config.idleTimeout) {
+          console.log(`[ViteManager] Stopping idle instance: ${projectId} (idle for ${Math.round(idleTime / 1000)}s)`);
+          this.stop(projectId).catch(err => {
+            console.error(`[ViteManager] Failed to stop idle instance ${projectId}:`, err);
+          });
+        }
+      }
     }
   }
 }
@@ -0,0 +1,275 @@
+/**
+ * Warm Pool
+ * Keeps template copies with Vite already running, so project creation skips
+ * both the template copy and the Vite cold start
+ *
+ * Warm instances run under placeholder ids (`_warm-xxxxxxxx`, skipped by the
+ * registry like other internal directories). Claiming one renames its directory
+ * to the project's and rewrites vite.config.ts; Vite restarts itself in-process
+ * on the config change and serves the new base and HMR path on the same port.
+ * A symlink is left at the old path because the running Vite still resolves
+ * pre-bundled dependencies under its original root; it is removed once that
+ * process has stopped.
+ */
+
+import crypto from 'crypto';
+import { readdir, readlink, rename, rm, symlink, unlink } from 'fs/promises';
+import { basename, join } from 'path';
+import { viteManager, isServing, type ViteDevServerManager } from './vite-manager';
+import { templateManager, type TemplateManager } from './template-manager';
+import type { ExitEvent } from '../types';
+
+const DATA_DIR = process.env.DATA_DIR || '/data/sites';
+const WARM_PREFIX = '_warm-';
+
+export interface WarmPoolOptions {
+  /** Warm instances to keep running (0 = disabled) */
+  size: number;
+  dataDir: string;
+}
+
+const DEFAULT_OPTIONS: WarmPoolOptions = {
+  size: parseInt(process.env.WARM_POOL_SIZE || '1', 10),
+  dataDir: DATA_DIR,
+};
+
+export interface WarmClaim {
+  warmId: string;
+  projectPath: string;
+}
+
+export interface WarmPoolStatus {
+  size: number;
+  ready: number;
+  starting: number;
+  /** Claimed instances whose back-symlink is still in place */
+  claimed: number;
+}
+
+type InstanceSource = Pick<ViteDevServerManager,
+  'start' | 'stop' | 'getInstance' | 'getFreePortCount' | 'getQueueLength' |
+  'markActive' | 'markProjectActive' | 'unmarkProjectActive' | 'on'>;
+type TemplateSource = Pick<TemplateManager, 'createFromTemplate' | 'writeViteConfig'>;
+
+export class WarmPool {
+  private options: WarmPoolOptions;
+  // Serving warm ids, oldest first
+  private ready: string[] = [];
+  private starting = 0;
+  // Claimed projectId -> symlink left at its warm path
+  private links: Map<string, string> = new Map();
+  private filling: Promise<void> | null = null;
+  private initialized = false;
+  private destroyed = false;
+
+  constructor(
+    options: Partial<WarmPoolOptions> = {},
+    private manager: InstanceSource = viteManager,
+    private template: TemplateSource = templateManager
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    manager.on('stopped', ({ projectId }: { projectId: string }) => {
+      this.handleGone(projectId);
+      // A port was freed
+      this.scheduleFill();
+    });
+    manager.on('exit', (event: ExitEvent) => {
+      if (event.unexpected) this.handleGone(event.projectId);
+    });
+  }
+
+  /**
+   * Pick up warm instances adopted from the previous server run, remove stale
+   * warm directories and links, then start filling in the background
+   * Call after adoption, once the template is ready
+   */
+  async initialize(): Promise<void> {
+    const entries = await readdir(this.options.dataDir, { withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries) {
+      if (!entry.name.startsWith(WARM_PREFIX)) continue;
+      const path = join(this.options.dataDir, entry.name);
+
+      if (entry.isSymbolicLink()) {
+        // Back-link of a claimed instance, needed while that Vite still runs
+        const projectId = basename(await readlink(path).catch(() => ''));
+        if (projectId && isServing(this.manager.getInstance(projectId)?.status)) {
+          this.links.set(projectId, path);
+        } else {
+          await unlink(path).catch(() => {});
+        }
+      } else if (isServing(this.manager.getInstance(entry.name)?.status) && this.ready.length < this.options.size) {
+        this.manager.markProjectActive(entry.name);
+        this.ready.push(entry.name);
+      } else {
+        if (this.manager.getInstance(entry.name)) await this.manager.stop(entry.name);
+        await rm(path, { recursive: true, force: true });
+      }
+    }
+
+    if (this.ready.length > 0) {
+      console.log(`[WarmPool] Re-using ${this.ready.length} warm instance(s)`);
+    }
+    this.initialized = true;
+    this.scheduleFill();
+  }
+
+  /**
+   * Start warm instances until the pool is full (concurrent calls share one run)
+   * Stops early when ports are scarce, so warm instances never delay a project start
+   */
+  fill(): Promise<void> {
+    if (!this.filling) {
+      this.filling = this.fillPool().finally(() => {
+        this.filling = null;
+      });
+    }
+    return this.filling;
+  }
+
+  /**
+   * Take a warm instance for a new project
+   * Moves its directory to the project path and re-points vite.config.ts; the caller
+   * writes the project's files and then hands the instance over with viteManager.rebase()
+   * Returns null if no warm instance is ready
+   */
+  async claim(projectId: string): Promise<WarmClaim | null> {
+    while (this.ready.length > 0) {
+      const warmId = this.ready.shift()!;
+      if (!isServing(this.manager.getInstance(warmId)?.status)) continue;
+
+      const warmPath = join(this.options.dataDir, warmId);
+      const projectPath = join(this.options.dataDir, projectId);
+
+      await rm(projectPath, { recursive: true, force: true });
+      await rename(warmPath, projectPath);
+      await symlink(projectPath, warmPath);
+      this.links.set(projectId, warmPath);
+
+      // From here on an ordinary instance: eligible for idle cleanup again if the
+      // hand-over never happens, with a fresh activity time so it isn't stopped mid-way
+      this.manager.markActive(warmId);
+      this.manager.unmarkProjectActive(warmId);
+
+      await this.template.writeViteConfig(projectPath, projectId);
+
+      console.log(`[WarmPool] ${warmId} claimed by ${projectId}`);
+      this.scheduleFill();
+      return { warmId, projectPath };
+    }
+
+    this.scheduleFill();
+    return null;
+  }
+
+  /**
+   * Undo a claim whose project was never created: stop the instance, which would
+   * otherwise keep a port and serve the unregistered directory until idle cleanup,
+   * and remove the directory and back-link
+   */
+  async abandon(projectId: string, claim: WarmClaim): Promise<void> {
+    await this.manager.stop(claim.warmId);
+    await rm(claim.projectPath, { recursive: true, force: true });
+    this.handleGone(projectId);
+  }
+
+  /**
+   * Stop all ready instances (e.g. after a template rebuild); the pool refills
+   */
+  async drain(): Promise<void> {
+    const warmIds = this.ready.splice(0);
+    for (const warmId of warmIds) {
+      await this.stopWarm(warmId);
+    }
+    this.scheduleFill();
+  }
+
+  getStatus(): WarmPoolStatus {
+    return {
+      size: this.options.size,
+      ready: this.ready.length,
+      starting: this.starting,
+      claimed: this.links.size,
+    };
+  }
+
+  /**
+   * Stop filling (warm instances are left to viteManager's shutdown)
+   */
+  destroy(): void {
+    this.destroyed = true;
+  }
+
+  private scheduleFill(): void {
+    if (!this.initialized || this.destroyed || this.options.size <= 0) return;
+    this.fill().catch((error) => {
+      console.error('[WarmPool] Failed to fill pool:', error);
+    });
+  }
+
+  private async fillPool(): Promise<void> {
+    while (!this.destroyed && this.ready.length < this.options.size) {
+      // Keep a port free for regular starts
+      if (this.manager.getQueueLength() > 0 || this.manager.getFreePortCount() <= 1) return;
+      await this.startWarm();
+    }
+  }
+
+  private async startWarm(): Promise<void> {
+    const warmId = `${WARM_PREFIX}${crypto.randomUUID().slice(0, 8)}`;
+    const start = Date.now();
+    this.starting++;
+
+    try {
+      const warmPath = await this.template.createFromTemplate(warmId);
+      try {
+        await this.manager.start(warmId, warmPath);
+      } catch (error) {
+        await rm(warmPath, { recursive: true, force: true });
+        throw error;
+      }
+      // Exempt from idle cleanup and eviction while waiting to be claimed
+      this.manager.markProjectActive(warmId);
+      this.ready.push(warmId);
+      console.log(`[WarmPool] ${warmId} ready in ${Date.now() - start}ms (${this.ready.length}/${this.options.size})`);
+    } finally {
+      this.starting--;
+    }
+  }
+
+  /**
+   * Stop one warm instance to free its port for a queued start
+   * Returns false if no warm instance was ready
+   */
+  async release(): Promise<boolean> {
+    const warmId = this.ready.pop();
+    if (!warmId) return false;
+    await this.stopWarm(warmId);
+    return true;
+  }
+
+  private async stopWarm(warmId: string): Promise<void> {
+    this.manager.unmarkProjectActive(warmId);
+    await this.manager.stop(warmId);
+    await rm(join(this.options.dataDir, warmId), { recursive: true, force: true });
+  }
+
+  private handleGone(projectId: string): void {
+    const link = this.links.get(projectId);
+    if (link) {
+      this.links.delete(projectId);
+      unlink(link).catch(() => {});
+    }
+
+    const index = this.ready.indexOf(projectId);
+    if (index !== -1) {
+      this.ready.splice(index, 1);
+      this.manager.unmarkProjectActive(projectId);
+      rm(join(this.options.dataDir, projectId), { recursive: true, force: true }).catch(() => {});
+      this.scheduleFill();
+    }
+  }
+}
+
+export const warmPool = new WarmPool();
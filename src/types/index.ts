@@ -5,16 +5,55 @@
 import type { ChildProcess } from 'child_process';
 
 /** Vite instance status */
-export type ViteStatus = 'starting' | 'running' | 'stopping' | 'stopped' | 'error';
+/** 'degraded': server is up but the app failed to compile (see ViteInstance.health) */
+export type ViteStatus = 'starting' | 'running' | 'degraded' | 'stopping' | 'stopped' | 'error';
 
 /** Vite Dev Server instance */
 export interface ViteInstance {
   projectId: string;
+  projectPath: string;
   port: number;
-  process: ChildProcess;
+  /** Process group leader (`bun run vite`) */
+  pid?: number;
+  /** Null for processes adopted from a previous server run */
+  process: ChildProcess | null;
   startedAt: Date;
   lastActive: Date;
   status: ViteStatus;
+  /** Result of the last readiness probe */
+  health?: PreviewHealth;
+}
+
+/** Compile/transform error reported by Vite */
+export interface PreviewError {
+  message: string;
+  /** Source file (absolute path as reported by Vite, or project-relative) */
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Code frame around the error */
+  frame?: string;
+  plugin?: string;
+}
+
+/** Deep readiness probe result (index, @vite/client, entry module and its imports) */
+export interface PreviewHealth {
+  ok: boolean;
+  checkedAt: string;
+  checks: Array<{ path: string; status: number | null; ok: boolean }>;
+  error?: PreviewError;
+}
+
+/** Sampled resource usage of a Vite process tree */
+export interface InstanceUsage {
+  projectId: string;
+  pid: number;
+  /** Processes in the tree (bun + vite + workers) */
+  processCount: number;
+  rssBytes: number;
+  /** CPU usage since the previous sample (100 = one full core) */
+  cpuPercent: number;
+  sampledAt: string;
 }
 
 /** Vite manager configuration */
@@ -23,6 +62,12 @@ export interface ViteManagerConfig {
   maxInstances: number;
   idleTimeout: number;
   startupTimeout: number;
+  /** Max time a start waits for a free port when all instances are in use */
+  queueTimeout: number;
+  /** Max starts waiting for a port (further starts fail immediately) */
+  maxQueueLength: number;
+  /** Instance state and Vite output files, so processes can be re-adopted after a restart */
+  stateDir: string;
 }
 
 /** Project configuration */
@@ -30,26 +75,74 @@ export interface ProjectConfig {
   projectId: string;
   projectName: string;
   description?: string;
+  /** Free-form owner tag (user/team id from the calling backend) */
+  owner?: string;
+  /** Seconds of inactivity before the project may be deleted (0 = keep forever) */
+  ttlSeconds?: number;
+  /** Pinned projects are never deleted by the retention policy */
+  pinned?: boolean;
+  /** Template name (see template-registry, default react-shadcn) */
+  template?: string;
+  /** Private previews need a preview token (default PREVIEW_PRIVATE_BY_DEFAULT) */
+  private?: boolean;
   /** User's source code files (optional, used to override template) */
   files?: ProjectFile[];
 }
 
+/** Fork project configuration */
+export interface ForkConfig {
+  /** New project ID */
+  projectId: string;
+  /** Defaults to the source project's name */
+  projectName?: string;
+  description?: string;
+  owner?: string;
+}
+
 /** Project file */
 export interface ProjectFile {
   path: string;
   content: string;
   language?: 'tsx' | 'ts' | 'css' | 'json' | 'html';
+  /** Content encoding, base64 for binary files (default utf-8) */
+  encoding?: 'utf-8' | 'base64';
 }
 
 /** Project status */
 export interface ProjectStatus {
   exists: boolean;
   devServerRunning: boolean;
+  devServerStatus?: ViteStatus;
+  health?: PreviewHealth;
+  /** Present once the dev server crashed (see CrashState) */
+  crash?: CrashState;
   port?: number;
   fileCount: number;
   lastModified?: Date;
 }
 
+/** Disk usage of a project directory */
+export interface DiskUsage {
+  files: number;
+  /** Sum of file sizes */
+  apparentBytes: number;
+  /** Allocated blocks */
+  diskBytes: number;
+  /** Blocks of files hard-linked from elsewhere (template, package cache) */
+  sharedBytes: number;
+  /** Blocks only this project holds, freed when it is deleted */
+  ownBytes: number;
+}
+
+/** Result of starting a project preview */
+export interface PreviewStartResult {
+  port: number;
+  url: string;
+  /** 'running' or 'degraded' (app failed to compile, see health.error) */
+  status: ViteStatus;
+  health?: PreviewHealth;
+}
+
 /** File update operation */
 export interface FileUpdate {
   path: string;
@@ -57,6 +150,31 @@ export interface FileUpdate {
   operation: 'create' | 'update' | 'delete';
 }
 
+/** Rejection codes of the project file path resolution layer */
+export type PathErrorCode =
+  | 'PATH_INVALID'
+  | 'PATH_ABSOLUTE'
+  | 'PATH_TRAVERSAL'
+  | 'PATH_SYMLINK_ESCAPE'
+  | 'PATH_PROTECTED'
+  | 'PATH_DENIED';
+
+/** Per-file error of a rejected update batch */
+export interface FileUpdateError {
+  path: string;
+  code: 'INVALID_UPDATE' | 'SYNTAX_ERROR' | 'WRITE_FAILED' | PathErrorCode;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+/** Result of applying a file update batch (all or nothing) */
+export interface FileUpdateResult {
+  success: boolean;
+  applied: string[];
+  errors: FileUpdateError[];
+}
+
 /** Dependency installation result */
 export interface InstallResult {
   success: boolean;
@@ -70,6 +188,30 @@ export interface HmrMessage {
   [key: string]: unknown;
 }
 
+/** Role a collaborator declares for a project */
+export type SessionRole = 'viewer' | 'editor';
+
+/** Element a collaborator has selected in the visual editor */
+export interface SessionSelection {
+  jsxId: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/** External HMR client of a project, tracked for presence */
+export interface ClientSession {
+  sessionId: string;
+  projectId: string;
+  /** Self-declared identity (query params or presence:identify) */
+  userId?: string;
+  name?: string;
+  role: SessionRole;
+  connectedAt: string;
+  lastActiveAt: string;
+  selection: SessionSelection | null;
+}
+
 /** Log event */
 export interface LogEvent {
   projectId: string;
@@ -80,7 +222,28 @@ export interface LogEvent {
 /** Exit event */
 export interface ExitEvent {
   projectId: string;
+  /** Directory the process ran in */
+  projectPath: string;
   code: number | null;
+  /** True if the process exited without being stopped */
+  unexpected: boolean;
+}
+
+/** Crash supervisor state of a project */
+export interface CrashState {
+  /** Crashes within the supervisor window */
+  recentCrashes: number;
+  totalCrashes: number;
+  lastExitCode: number | null;
+  lastCrashAt?: string;
+  /** Last stderr lines before the crash (ANSI stripped) */
+  stderrTail: string[];
+  /** A backoff restart is scheduled */
+  restarting: boolean;
+  nextRestartAt?: string;
+  /** Crash loop detected, no more automatic restarts */
+  gaveUp: boolean;
+  reason?: string;
 }
 
 /** Scaffold generation result */
@@ -94,6 +257,8 @@ export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  /** Machine-readable error code */
+  code?: string;
 }
 
 /** Project creation result */
@@ -103,3 +268,241 @@ export interface CreateProjectResult {
   previewUrl: string;
   hmrUrl: string;
 }
+
+/** Production build status */
+export type BuildStatus = 'building' | 'success' | 'failed';
+
+/** Production build record (one versioned artifact) */
+export interface BuildRecord {
+  version: string;
+  status: BuildStatus;
+  startedAt: string;
+  finishedAt?: string;
+  duration?: number;
+  logs: string[];
+  error?: string;
+}
+
+/** Build manifest for a project (history + active published version) */
+export interface BuildManifest {
+  projectId: string;
+  activeVersion: string | null;
+  builds: BuildRecord[];
+}
+
+/** Buffered log entry (Vite output or lifecycle event) */
+export interface LogEntry {
+  seq: number;
+  projectId: string;
+  type: 'stdout' | 'stderr' | 'system';
+  message: string;
+  timestamp: string;
+}
+
+/** Project source snapshot */
+export interface Snapshot {
+  id: string;
+  projectId: string;
+  createdAt: string;
+  reason: 'files-update' | 'manual' | 'pre-restore' | 'pre-upgrade';
+  label?: string;
+  fileCount: number;
+  /** Hash over all file paths + content hashes, used to skip identical snapshots */
+  treeHash: string;
+}
+
+/** Single file change between two snapshots */
+export interface SnapshotFileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  before?: string;
+  after?: string;
+}
+
+/** Diff between two snapshots */
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  changes: SnapshotFileChange[];
+}
+
+/** Persistent project metadata (project registry) */
+export interface ProjectRecord {
+  projectId: string;
+  projectName: string;
+  description?: string;
+  owner?: string;
+  createdAt: string;
+  lastEditedAt: string;
+  /** Template the project was created from (undefined = react-shadcn) */
+  template?: string;
+  /** Content hash of the template the project was copied from */
+  templateVersion?: string;
+  /** Dependencies added on top of the template (name -> version) */
+  extraDependencies: Record<string, string>;
+  extraDevDependencies: Record<string, string>;
+  /** Last known dev server status */
+  status: ViteStatus;
+  /** Why the status is 'error' (e.g. crash loop) */
+  statusReason?: string;
+  /** Source project ID if this project was forked */
+  forkedFrom?: string;
+  /** Pinned projects are never deleted by the retention policy */
+  pinned?: boolean;
+  /** Per-project retention TTL in seconds (undefined = server default, 0 = keep forever) */
+  ttlSeconds?: number;
+  /** Preview needs a preview token (undefined = PREVIEW_PRIVATE_BY_DEFAULT) */
+  private?: boolean;
+}
+
+/** Filter for listing projects */
+export interface ProjectListQuery {
+  owner?: string;
+  status?: ViteStatus;
+  template?: string;
+  templateVersion?: string;
+  /** Only projects whose template version differs from the installed template */
+  outdated?: boolean;
+  /** Case-insensitive match on name, description and projectId */
+  search?: string;
+  /** Only these projects (API key allowlist) */
+  projectIds?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+/** Config file written by a template upgrade */
+export interface TemplateFileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  /** Text content (omitted for lockfiles) */
+  before?: string;
+  after?: string;
+}
+
+/** Dependency pinned to the template's version by a template upgrade */
+export interface TemplateDependencyChange {
+  name: string;
+  dev: boolean;
+  /** Version in the project, null if missing */
+  from: string | null;
+  to: string;
+}
+
+/** What upgrading a project to the installed template changes */
+export interface TemplateUpgradePlan {
+  projectId: string;
+  template: string;
+  fromVersion: string | null;
+  toVersion: string;
+  files: TemplateFileChange[];
+  dependencies: TemplateDependencyChange[];
+  /** jsx-tagger plugin version change (React templates) */
+  jsxTagger: { from: string | null; to: string } | null;
+}
+
+export interface TemplateUpgradeResult extends TemplateUpgradePlan {
+  dryRun: boolean;
+  /** Snapshot taken before the upgrade (restore it to roll back) */
+  snapshotId?: string;
+}
+
+/** Project selected for deletion by the retention policy */
+export interface RetentionCandidate {
+  projectId: string;
+  projectName?: string;
+  lastEditedAt: string;
+  expiresAt: string;
+  ttlSeconds: number;
+  /** Whether the project is archived before deletion */
+  archive: boolean;
+}
+
+/** Single type-check / lint finding */
+export interface Diagnostic {
+  source: 'typescript' | 'eslint';
+  /** Project-relative path */
+  file: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  severity: 'error' | 'warning' | 'info';
+  /** TS error code (TS2322) or ESLint rule id */
+  code?: string;
+  message: string;
+}
+
+/** Outcome of running one diagnostics tool */
+export interface DiagnosticsToolStatus {
+  /** False if the tool could not run (missing, crashed, timed out) */
+  ran: boolean;
+  count?: number;
+  error?: string;
+}
+
+/** Diagnostics for a project, grouped per file */
+export interface DiagnosticsResult {
+  projectId: string;
+  checkedAt: string;
+  duration: number;
+  errorCount: number;
+  warningCount: number;
+  tools: {
+    typescript: DiagnosticsToolStatus;
+    eslint?: DiagnosticsToolStatus;
+  };
+  files: Array<{ file: string; diagnostics: Diagnostic[] }>;
+}
+
+/** Kind of error captured in the preview page */
+export type RuntimeErrorKind = 'error' | 'unhandledrejection' | 'resource' | 'react' | 'vite';
+
+/** Runtime error report sent by visual-edit-script */
+export interface RuntimeErrorReport {
+  kind: RuntimeErrorKind;
+  message: string;
+  stack?: string;
+  /** Project-relative source location */
+  source?: { file: string; line?: number; column?: number };
+  /** Page URL where the error occurred */
+  url?: string;
+}
+
+/** Runtime error aggregated per project (identical errors are counted) */
+export interface RuntimeError extends RuntimeErrorReport {
+  id: string;
+  projectId: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/** What an API key may do (each scope includes the ones before it) */
+export type ApiKeyScope = 'read-only' | 'project-write' | 'admin';
+
+/** Signing secret of an API key; overlapping validity windows allow rotation */
+export interface ApiKeySecret {
+  secret: string;
+  /** ISO timestamp, accepted from then on (omitted = already valid) */
+  notBefore?: string;
+  /** ISO timestamp, rejected from then on (omitted = never expires) */
+  notAfter?: string;
+}
+
+/** Keyring entry used by HMAC auth (X-API-Key is the keyId) */
+export interface ApiKey {
+  keyId: string;
+  scope: ApiKeyScope;
+  secrets: ApiKeySecret[];
+  /** Project allowlist (omitted = all projects) */
+  projects?: string[];
+  disabled?: boolean;
+  description?: string;
+}
+
+/** Keyring entry as listed by the admin API (no secrets) */
+export interface ApiKeyInfo extends Omit<ApiKey, 'secrets'> {
+  source: 'file' | 'env';
+  secrets: Array<Omit<ApiKeySecret, 'secret'> & { active: boolean }>;
+}
@@ -682,6 +682,160 @@ ${clone.innerHTML}
     }
   }
 };
+var _RuntimeErrorReporter = class _RuntimeErrorReporter {
+  constructor() {
+    this.reported = /* @__PURE__ */ new Set();
+    this.projectId = window.location.pathname.match(/^\/p\/([^/]+)\//)?.[1] ?? null;
+    this.setupErrorListeners();
+    this.hookConsoleError();
+    this.observeViteOverlay();
+  }
+  setupErrorListeners() {
+    window.addEventListener("error", (e) => {
+      if (e instanceof ErrorEvent) {
+        this.report({
+          kind: "error",
+          message: e.message || String(e.error),
+          stack: e.error instanceof Error ? e.error.stack : void 0,
+          source: this.toSource(e.filename, e.lineno, e.colno) ?? this.sourceFromStack(e.error?.stack)
+        });
+        return;
+      }
+      const target = e.target;
+      if (target && target !== window) {
+        const url = target.src || target.href || "";
+        this.report({
+          kind: "resource",
+          message: `Failed to load ${target.tagName.toLowerCase()}: ${url}`,
+          source: this.toSource(url)
+        });
+      }
+    }, true);
+    window.addEventListener("unhandledrejection", (e) => {
+      const reason = e.reason;
+      this.report({
+        kind: "unhandledrejection",
+        message: reason instanceof Error ? reason.message : String(reason),
+        stack: reason instanceof Error ? reason.stack : void 0,
+        source: this.sourceFromStack(reason instanceof Error ? reason.stack : void 0)
+      });
+    });
+  }
+  /**
+   * React logs render errors (with component stack) via console.error;
+   * Vite logs server errors there when the overlay is disabled
+   */
+  hookConsoleError() {
+    const original = console.error.bind(console);
+    console.error = (...args) => {
+      original(...args);
+      try {
+        const text = args.map((arg) => arg instanceof Error ? arg.message : String(arg)).join(" ");
+        if (/(The above|An) error occurred in the <\w+> component/.test(text)) {
+          const error = args.find((arg) => arg instanceof Error);
+          this.report({
+            kind: "react",
+            message: text.slice(0, 2e3),
+            stack: error?.stack,
+            source: this.sourceFromStack(error?.stack ?? text)
+          });
+        } else if (text.startsWith("[vite] Internal Server Error")) {
+          this.report({ kind: "vite", message: text, source: this.sourceFromText(text) });
+        }
+      } catch {
+      }
+    };
+  }
+  /**
+   * Vite shows compile errors (vite:error) in a <vite-error-overlay> element
+   */
+  observeViteOverlay() {
+    const inspect = (node) => {
+      if (!(node instanceof HTMLElement) || node.tagName.toLowerCase() !== "vite-error-overlay") return;
+      setTimeout(() => {
+        const root = node.shadowRoot;
+        const message = root?.querySelector(".message-body")?.textContent?.trim() || "Vite error";
+        const file = root?.querySelector(".file")?.textContent?.trim() || "";
+        const frame = root?.querySelector(".frame")?.textContent || void 0;
+        this.report({
+          kind: "vite",
+          message,
+          stack: frame,
+          source: this.sourceFromText(file)
+        });
+      }, 0);
+    };
+    const observer = new MutationObserver((mutations) => {
+      for (const mutation of mutations) {
+        mutation.addedNodes.forEach(inspect);
+      }
+    });
+    observer.observe(document.documentElement, { childList: true, subtree: true });
+  }
+  report(error) {
+    const key = `${error.kind}|${error.message}|${error.source?.file}:${error.source?.line}`;
+    if (this.reported.has(key) || this.reported.size >= _RuntimeErrorReporter.MAX_REPORTS) return;
+    this.reported.add(key);
+    const payload = {
+      ...error,
+      url: window.location.href,
+      timestamp: (/* @__PURE__ */ new Date()).toISOString()
+    };
+    try {
+      window.parent.postMessage({ type: "RUNTIME_ERROR", payload }, "*");
+    } catch {
+    }
+    if (this.projectId) {
+      fetch(`/p/${this.projectId}/__runtime-error`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        keepalive: true
+      }).catch(() => {
+      });
+    }
+  }
+  /**
+   * Convert a script URL to a project-relative path (strips origin, /p/{id}/ and query)
+   */
+  toSource(url, line, column) {
+    if (!url) return void 0;
+    let file = url;
+    try {
+      file = new URL(url, window.location.href).pathname;
+    } catch {
+    }
+    file = file.replace(/^\/p\/[^/]+\//, "").replace(/^\/+/, "");
+    return { file, line: line || void 0, column: column || void 0 };
+  }
+  /**
+   * First stack frame that points into the project (skips node_modules and Vite internals)
+   */
+  sourceFromStack(stack) {
+    if (!stack) return void 0;
+    const frames = stack.matchAll(/(https?:\/\/[^\s)]+?):(\d+):(\d+)/g);
+    for (const [, url, line, column] of frames) {
+      if (url.includes("/node_modules/") || url.includes("/@vite/") || url.includes("/static/")) continue;
+      return this.toSource(url, Number(line), Number(column));
+    }
+    return void 0;
+  }
+  /**
+   * Parse `/path/to/file.tsx:12:5` style locations in Vite error text
+   */
+  sourceFromText(text) {
+    const match = text.match(/([^\s:()]+\.[a-z]+):(\d+):(\d+)/i);
+    if (!match) return void 0;
+    const srcIndex = match[1].search(/(^|\/)src\//);
+    const file = srcIndex >= 0 ? match[1].slice(srcIndex).replace(/^\//, "") : match[1];
+    return { file, line: Number(match[2]), column: Number(match[3]) };
+  }
+};
+_RuntimeErrorReporter.MAX_REPORTS = 50;
+var RuntimeErrorReporter = _RuntimeErrorReporter;
+if (typeof window !== "undefined") {
+  new RuntimeErrorReporter();
+}
 if (typeof window !== "undefined") {
   const initController = () => {
     new VisualEditController();
@@ -693,5 +847,6 @@ if (typeof window !== "undefined") {
   }
 }
 export {
+  RuntimeErrorReporter,
   VisualEditController
 };
@@ -0,0 +1,107 @@
+/**
+ * Archive 工具单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createArchiveStream,
+  createTarball,
+  detectArchiveFormat,
+  extractArchive,
+  ArchiveError,
+  type ArchiveFormat,
+} from '../src/lib/archive';
+
+async function collect(format: ArchiveFormat, dir: string, prefix?: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of createArchiveStream(dir, format, { excludes: ['node_modules', 'dist'], prefix })) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('archive', () => {
+  let rootDir: string;
+  let projectDir: string;
+  const longPath = `src/${'deeply-nested-directory/'.repeat(5)}Component.tsx`;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'fly-archive-'));
+    projectDir = join(rootDir, 'proj');
+    await mkdir(join(projectDir, 'src'), { recursive: true });
+    await mkdir(join(projectDir, 'node_modules', 'react'), { recursive: true });
+    await mkdir(join(projectDir, 'dist'), { recursive: true });
+    await mkdir(join(projectDir, 'public'), { recursive: true });
+    await mkdir(join(projectDir, longPath, '..'), { recursive: true });
+
+    await writeFile(join(projectDir, 'package.json'), '{"name":"demo"}');
+    await writeFile(join(projectDir, 'src', 'App.tsx'), 'export default function App() { return <div>你好</div>; }\n'.repeat(20));
+    await writeFile(join(projectDir, 'public', 'logo.bin'), Buffer.from([0, 255, 1, 254, 2]));
+    await writeFile(join(projectDir, longPath), 'export const x = 1;');
+    await writeFile(join(projectDir, 'node_modules', 'react', 'index.js'), 'module.exports = {};');
+    await writeFile(join(projectDir, 'dist', 'index.html'), '<html></html>');
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  for (const format of ['tar.gz', 'zip'] as const) {
+    test(`${format}: should round-trip files and skip excluded directories`, async () => {
+      const archive = await collect(format, projectDir, 'proj');
+      expect(detectArchiveFormat(archive)).toBe(format);
+
+      const entries = extractArchive(archive);
+      const paths = entries.map(e => e.path).sort();
+
+      expect(paths).toEqual([
+        'proj/package.json',
+        'proj/public/logo.bin',
+        `proj/${longPath}`,
+        'proj/src/App.tsx',
+      ].sort());
+
+      const app = entries.find(e => e.path === 'proj/src/App.tsx')!;
+      expect(app.content.toString('utf-8')).toBe(await readFile(join(projectDir, 'src', 'App.tsx'), 'utf-8'));
+      const logo = entries.find(e => e.path === 'proj/public/logo.bin')!;
+      expect([...logo.content]).toEqual([0, 255, 1, 254, 2]);
+    });
+
+    test(`${format}: should reject archives larger than the limit`, async () => {
+      const archive = await collect(format, projectDir);
+      expect(() => extractArchive(archive, 100)).toThrow(ArchiveError);
+    });
+  }
+
+  test('tar.gz output should be readable by system tar', async () => {
+    const outFile = join(rootDir, 'out.tar.gz');
+    await createTarball(rootDir, 'proj', outFile, ['node_modules']);
+
+    const result = Bun.spawnSync(['tar', '-tzf', outFile]);
+    const listing = result.stdout.toString();
+
+    expect(result.exitCode).toBe(0);
+    expect(listing).toContain('proj/src/App.tsx');
+    expect(listing).toContain(`proj/${longPath}`);
+    expect(listing).not.toContain('node_modules');
+  });
+
+  test('should extract archives created by system tar', async () => {
+    const outFile = join(rootDir, 'system.tar.gz');
+    Bun.spawnSync(['tar', '-czf', outFile, '--exclude=node_modules', '-C', rootDir, 'proj']);
+
+    const entries = extractArchive(await readFile(outFile));
+    const paths = entries.map(e => e.path);
+
+    expect(paths).toContain('proj/src/App.tsx');
+    expect(paths).toContain(`proj/${longPath}`);
+  });
+
+  test('should reject unknown data', () => {
+    expect(() => extractArchive(Buffer.from('not an archive'))).toThrow(ArchiveError);
+    expect(() => extractArchive(Buffer.from([0x1f, 0x8b, 0, 0]))).toThrow(ArchiveError);
+  });
+});
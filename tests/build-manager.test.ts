@@ -0,0 +1,79 @@
+/**
+ * BuildManager 单元测试
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BuildManager } from '../src/services/build-manager';
+import type { BuildManifest } from '../src/types';
+
+describe('BuildManager', () => {
+  let buildsDir: string;
+  let manager: BuildManager;
+
+  beforeAll(async () => {
+    buildsDir = await mkdtemp(join(tmpdir(), 'fly-builds-'));
+
+    // 手动构造一个已发布的构建
+    const projectDir = join(buildsDir, 'demo');
+    await mkdir(join(projectDir, 'v1', 'assets'), { recursive: true });
+    await writeFile(join(projectDir, 'v1', 'index.html'), '<html>v1</html>');
+    await writeFile(join(projectDir, 'v1', 'assets', 'index-abc.js'), 'console.log(1)');
+
+    const manifest: BuildManifest = {
+      projectId: 'demo',
+      activeVersion: 'v1',
+      builds: [
+        { version: 'v1', status: 'success', startedAt: new Date().toISOString(), logs: [] },
+        { version: 'v2', status: 'failed', startedAt: new Date().toISOString(), logs: [], error: 'boom' },
+      ],
+    };
+    await writeFile(join(projectDir, 'manifest.json'), JSON.stringify(manifest));
+
+    manager = new BuildManager(buildsDir);
+  });
+
+  afterAll(async () => {
+    await rm(buildsDir, { recursive: true, force: true });
+  });
+
+  test('should resolve index.html for root path', async () => {
+    const filePath = await manager.resolveAssetPath('demo', '/');
+    expect(filePath).toBe(join(buildsDir, 'demo', 'v1', 'index.html'));
+  });
+
+  test('should resolve asset files', async () => {
+    const filePath = await manager.resolveAssetPath('demo', '/assets/index-abc.js');
+    expect(filePath).toBe(join(buildsDir, 'demo', 'v1', 'assets', 'index-abc.js'));
+  });
+
+  test('should fall back to index.html for client-side routes', async () => {
+    const filePath = await manager.resolveAssetPath('demo', '/about/team');
+    expect(filePath).toBe(join(buildsDir, 'demo', 'v1', 'index.html'));
+  });
+
+  test('should return null for missing assets', async () => {
+    expect(await manager.resolveAssetPath('demo', '/assets/missing.js')).toBeNull();
+  });
+
+  test('should not escape the build directory', async () => {
+    expect(await manager.resolveAssetPath('demo', '/../manifest.json')).toBeNull();
+  });
+
+  test('should return null for unpublished projects', async () => {
+    expect(await manager.resolveAssetPath('unknown', '/')).toBeNull();
+  });
+
+  test('should list builds newest first', async () => {
+    const manifest = await manager.listBuilds('demo');
+    expect(manifest.activeVersion).toBe('v1');
+    expect(manifest.builds.map(b => b.version)).toEqual(['v2', 'v1']);
+  });
+
+  test('should refuse to activate failed builds', async () => {
+    await expect(manager.activate('demo', 'v2')).rejects.toThrow();
+    await expect(manager.activate('demo', 'v9')).rejects.toThrow();
+  });
+});
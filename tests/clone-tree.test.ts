@@ -0,0 +1,100 @@
+/**
+ * Tree Cloning 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, rm, writeFile, readFile, readlink, stat, symlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { cloneTree, measureDiskUsage, isCloneStrategy } from '../src/lib/clone-tree';
+
+describe('cloneTree', () => {
+  let dir: string;
+  let source: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'clone-tree-'));
+    source = join(dir, 'template');
+    await mkdir(join(source, 'src'), { recursive: true });
+    await mkdir(join(source, 'node_modules', 'pkg'), { recursive: true });
+    await mkdir(join(source, 'node_modules', '.vite', 'deps'), { recursive: true });
+    await mkdir(join(source, 'node_modules', '.bin'), { recursive: true });
+    await writeFile(join(source, 'src', 'App.tsx'), 'export default 1;');
+    await writeFile(join(source, 'node_modules', 'pkg', 'index.js'), 'module.exports = 1;'.repeat(1000));
+    await writeFile(join(source, 'node_modules', '.vite', 'deps', 'chunk.js'), 'cached');
+    await symlink('../pkg/index.js', join(source, 'node_modules', '.bin', 'pkg'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should hard-link node_modules and copy everything else', async () => {
+    const dest = join(dir, 'p1');
+    await cloneTree(source, dest, 'hardlink');
+
+    const sourceModule = await stat(join(source, 'node_modules', 'pkg', 'index.js'));
+    const destModule = await stat(join(dest, 'node_modules', 'pkg', 'index.js'));
+    expect(destModule.ino).toBe(sourceModule.ino);
+    expect(destModule.nlink).toBe(2);
+
+    const sourceApp = await stat(join(source, 'src', 'App.tsx'));
+    const destApp = await stat(join(dest, 'src', 'App.tsx'));
+    expect(destApp.ino).not.toBe(sourceApp.ino);
+
+    // Editing the project's sources leaves the template alone
+    await writeFile(join(dest, 'src', 'App.tsx'), 'export default 2;');
+    expect(await readFile(join(source, 'src', 'App.tsx'), 'utf-8')).toBe('export default 1;');
+  });
+
+  test('should keep relative symlinks and skip dependency caches', async () => {
+    const dest = join(dir, 'p1');
+    await cloneTree(source, dest, 'hardlink');
+
+    expect(await readlink(join(dest, 'node_modules', '.bin', 'pkg'))).toBe('../pkg/index.js');
+    expect(await stat(join(dest, 'node_modules', '.vite')).catch(() => null)).toBeNull();
+  });
+
+  test('should copy every file with the copy strategy', async () => {
+    const dest = join(dir, 'p1');
+    await cloneTree(source, dest, 'copy');
+
+    const destModule = await stat(join(dest, 'node_modules', 'pkg', 'index.js'));
+    expect(destModule.nlink).toBe(1);
+    expect(await readFile(join(dest, 'node_modules', 'pkg', 'index.js'), 'utf-8')).toBe('module.exports = 1;'.repeat(1000));
+  });
+
+  test('should validate strategy names', () => {
+    expect(isCloneStrategy('reflink')).toBe(true);
+    expect(isCloneStrategy('overlay')).toBe(false);
+  });
+});
+
+describe('measureDiskUsage', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'disk-usage-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should split own and shared blocks', async () => {
+    const source = join(dir, 'template');
+    await mkdir(join(source, 'node_modules'), { recursive: true });
+    await writeFile(join(source, 'node_modules', 'big.js'), 'x'.repeat(64 * 1024));
+    await writeFile(join(source, 'index.html'), '<html></html>');
+
+    const dest = join(dir, 'p1');
+    await cloneTree(source, dest, 'hardlink');
+    const usage = await measureDiskUsage(dest);
+
+    expect(usage.files).toBe(2);
+    expect(usage.apparentBytes).toBe(64 * 1024 + '<html></html>'.length);
+    expect(usage.sharedBytes).toBeGreaterThanOrEqual(64 * 1024);
+    expect(usage.ownBytes).toBeLessThan(64 * 1024);
+    expect(usage.diskBytes).toBe(usage.sharedBytes + usage.ownBytes);
+  });
+});
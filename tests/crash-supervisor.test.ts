@@ -0,0 +1,109 @@
+/**
+ * CrashSupervisor 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { EventEmitter } from 'events';
+import { CrashSupervisor } from '../src/services/crash-supervisor';
+
+const wait = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+function createSupervisor(options = {}) {
+  const source = new EventEmitter();
+  const restarts: string[] = [];
+  const restartPaths: string[] = [];
+  const supervisor = new CrashSupervisor(
+    source,
+    { baseDelay: 10, maxDelay: 40, maxCrashes: 3, ...options },
+    async (projectId, projectPath) => { restarts.push(projectId); restartPaths.push(projectPath); },
+    () => true
+  );
+  const crash = (projectId = 'p1', code: number | null = 1) =>
+    source.emit('exit', { projectId, projectPath: `/data/sites/${projectId}`, code, unexpected: true });
+  return { source, supervisor, restarts, restartPaths, crash };
+}
+
+describe('CrashSupervisor', () => {
+  test('should restart after an unexpected exit', async () => {
+    const { source, supervisor, restarts, restartPaths, crash } = createSupervisor();
+
+    source.emit('exit', { projectId: 'p1', projectPath: '/data/sites/p1', code: 0, unexpected: false });
+    expect(supervisor.getState('p1')).toBeNull();
+
+    crash();
+    expect(supervisor.getState('p1')).toMatchObject({ recentCrashes: 1, totalCrashes: 1, lastExitCode: 1, restarting: true });
+
+    await wait(30);
+    expect(restarts).toEqual(['p1']);
+    // Restarted where the crashed process ran
+    expect(restartPaths).toEqual(['/data/sites/p1']);
+    expect(supervisor.getState('p1')?.restarting).toBe(false);
+    supervisor.destroy();
+  });
+
+  test('should back off exponentially between restarts', async () => {
+    const { supervisor, restarts, crash } = createSupervisor({ baseDelay: 20, maxCrashes: 5 });
+
+    crash();
+    await wait(40);
+    expect(restarts).toHaveLength(1);
+
+    // Second crash waits 40ms
+    crash();
+    await wait(25);
+    expect(restarts).toHaveLength(1);
+    await wait(40);
+    expect(restarts).toHaveLength(2);
+    supervisor.destroy();
+  });
+
+  test('should give up after maxCrashes within the window', async () => {
+    const { supervisor, restarts, crash } = createSupervisor();
+    const gaveUp: string[] = [];
+    supervisor.on('gave-up', ({ reason }) => gaveUp.push(reason));
+
+    crash();
+    crash();
+    crash();
+
+    const state = supervisor.getState('p1');
+    expect(state?.gaveUp).toBe(true);
+    expect(state?.restarting).toBe(false);
+    expect(supervisor.isGivenUp('p1')).toBe(true);
+    expect(gaveUp[0]).toContain('Crashed 3 times');
+
+    await wait(30);
+    expect(restarts).toEqual([]);
+  });
+
+  test('should keep a bounded stderr tail without ANSI codes', () => {
+    const { source, supervisor, crash } = createSupervisor({ stderrLines: 2, maxCrashes: 1 });
+
+    source.emit('log', { projectId: 'p1', type: 'stdout', message: 'ready' });
+    source.emit('log', { projectId: 'p1', type: 'stderr', message: 'line 1\n\x1b[31mline 2\x1b[39m\n' });
+    source.emit('log', { projectId: 'p1', type: 'stderr', message: 'Error: out of memory' });
+    crash();
+
+    const state = supervisor.getState('p1');
+    expect(state?.stderrTail).toEqual(['line 2', 'Error: out of memory']);
+    expect(state?.reason).toContain('Error: out of memory');
+  });
+
+  test('should clear the crash loop on reset', async () => {
+    const { supervisor, restarts, crash } = createSupervisor();
+    crash();
+    crash();
+    crash();
+
+    supervisor.reset('p1');
+    expect(supervisor.isGivenUp('p1')).toBe(false);
+    expect(supervisor.getState('p1')).toMatchObject({ recentCrashes: 0, totalCrashes: 3 });
+
+    crash();
+    await wait(30);
+    expect(restarts).toEqual(['p1']);
+
+    supervisor.clear('p1');
+    expect(supervisor.getState('p1')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * DiagnosticsManager 单元测试
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, symlink, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { DiagnosticsManager, parseTscOutput, parseEslintOutput } from '../src/services/diagnostics-manager';
+
+describe('parseTscOutput', () => {
+  test('should parse diagnostics with continuation lines', () => {
+    const output = [
+      "src/App.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/components/Card.tsx(3,10): error TS2345: Argument of type '{ a: number; }' is not assignable to parameter of type 'Props'.",
+      "  Property 'title' is missing in type '{ a: number; }' but required in type 'Props'.",
+      '',
+    ].join('\n');
+
+    const diagnostics = parseTscOutput(output);
+
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[0]).toEqual({
+      source: 'typescript',
+      file: 'src/App.tsx',
+      line: 12,
+      column: 5,
+      severity: 'error',
+      code: 'TS2322',
+      message: "Type 'string' is not assignable to type 'number'.",
+    });
+    expect(diagnostics[1].message).toContain("\nProperty 'title' is missing");
+  });
+
+  test('should ignore unrelated output', () => {
+    expect(parseTscOutput('$ tsc --noEmit\nerror: script not found "tsc"')).toEqual([]);
+  });
+});
+
+describe('parseEslintOutput', () => {
+  test('should map results to project-relative diagnostics', () => {
+    const output = JSON.stringify([
+      {
+        filePath: '/data/sites/p1/src/App.tsx',
+        messages: [
+          { ruleId: 'no-unused-vars', severity: 2, message: "'x' is unused.", line: 3, column: 7, endLine: 3, endColumn: 8 },
+          { ruleId: 'react-refresh/only-export-components', severity: 1, message: 'Fast refresh only works...', line: 10, column: 1 },
+        ],
+      },
+      { filePath: '/data/sites/p1/src/main.tsx', messages: [] },
+    ]);
+
+    const diagnostics = parseEslintOutput(output, '/data/sites/p1');
+
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[0]).toMatchObject({ source: 'eslint', file: 'src/App.tsx', severity: 'error', code: 'no-unused-vars', endColumn: 8 });
+    expect(diagnostics[1].severity).toBe('warning');
+  });
+
+  test('should throw on non-JSON output', () => {
+    expect(() => parseEslintOutput('Oops! Something went wrong!', '/p')).toThrow();
+  });
+});
+
+describe('DiagnosticsManager', () => {
+  let projectPath: string;
+
+  beforeAll(async () => {
+    projectPath = await mkdtemp(join(tmpdir(), 'fly-diagnostics-'));
+    await mkdir(join(projectPath, 'src'), { recursive: true });
+    // Reuse this repository's TypeScript install
+    await symlink(resolve(__dirname, '..', 'node_modules'), join(projectPath, 'node_modules'));
+    await writeFile(join(projectPath, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { strict: true, noEmit: true, target: 'ES2020', module: 'ESNext', moduleResolution: 'bundler', types: [] },
+      include: ['src'],
+    }));
+    await writeFile(join(projectPath, 'src', 'ok.ts'), 'export const ok: number = 1;\n');
+    await writeFile(join(projectPath, 'src', 'bad.ts'), 'export const a: number = "x";\nexport const b: string = 2;\n');
+  });
+
+  afterAll(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('should report type errors grouped per file', async () => {
+    const manager = new DiagnosticsManager();
+    const result = await manager.check('p1', projectPath);
+
+    expect(result.tools.typescript.ran).toBe(true);
+    expect(result.errorCount).toBe(2);
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].file).toBe('src/bad.ts');
+    expect(result.files[0].diagnostics.map(d => d.line)).toEqual([1, 2]);
+  }, 60_000);
+});
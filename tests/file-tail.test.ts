@@ -0,0 +1,67 @@
+/**
+ * FileTail 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, writeFile, appendFile, truncate } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTail } from '../src/lib/file-tail';
+
+describe('FileTail', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'file-tail-'));
+    path = join(dir, 'out.log');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should deliver appended content once', async () => {
+    const chunks: string[] = [];
+    const tail = new FileTail(path, (text) => chunks.push(text));
+
+    await tail.flush();  // File does not exist yet
+    await writeFile(path, 'one\n');
+    await tail.flush();
+    await appendFile(path, 'two\n');
+    await tail.flush();
+    await tail.flush();
+
+    expect(chunks).toEqual(['one\n', 'two\n']);
+  });
+
+  test('should skip existing content when starting from the end', async () => {
+    await writeFile(path, 'old\n');
+    const chunks: string[] = [];
+    const tail = new FileTail(path, (text) => chunks.push(text));
+
+    await tail.start(true);
+    await appendFile(path, 'new\n');
+    await tail.flush();
+    tail.stop();
+
+    expect(chunks).toEqual(['new\n']);
+  });
+
+  test('should restart from the beginning after truncation', async () => {
+    const chunks: string[] = [];
+    const tail = new FileTail(path, (text) => chunks.push(text), 8);
+
+    await writeFile(path, '0123456789\n');
+    await tail.flush();
+    // Over maxBytes: truncated by the tail itself
+    await appendFile(path, 'after\n');
+    await tail.flush();
+
+    await truncate(path, 0);
+    await appendFile(path, 'x\n');
+    await tail.flush();
+
+    expect(chunks).toEqual(['0123456789\n', 'after\n', 'x\n']);
+  });
+});
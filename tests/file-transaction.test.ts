@@ -0,0 +1,157 @@
+/**
+ * File transaction & syntax check 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyFileUpdates } from '../src/services/file-transaction';
+import { checkSyntax } from '../src/lib/syntax-check';
+import type { FileUpdate } from '../src/types';
+
+describe('checkSyntax', () => {
+  test('should accept valid tsx', () => {
+    expect(checkSyntax('src/App.tsx', 'export default function App() { return <div />; }')).toBeNull();
+  });
+
+  test('should report tsx syntax errors with position', () => {
+    const issue = checkSyntax('src/App.tsx', 'const a = 1;\nconst b = <div>;\n');
+    expect(issue).not.toBeNull();
+    expect(issue!.line).toBe(2);
+  });
+
+  test('should report invalid json', () => {
+    expect(checkSyntax('package.json', '{ "name": }')).not.toBeNull();
+  });
+
+  test('should check css braces but allow tailwind at-rules', () => {
+    expect(checkSyntax('src/index.css', '@layer base { body { @apply antialiased; } }')).toBeNull();
+    expect(checkSyntax('src/index.css', '/* } */ a { content: "}"; }')).toBeNull();
+    expect(checkSyntax('src/index.css', 'a { color: red;\n')).toMatchObject({ message: 'Unclosed "{"', line: 1 });
+  });
+
+  test('should ignore unchecked file types', () => {
+    expect(checkSyntax('README.md', '{{{')).toBeNull();
+  });
+});
+
+describe('applyFileUpdates', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(join(tmpdir(), 'fly-tx-'));
+    await mkdir(join(projectPath, 'src'), { recursive: true });
+    await writeFile(join(projectPath, 'src', 'App.tsx'), 'original');
+    await writeFile(join(projectPath, 'src', 'Old.tsx'), 'old');
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('should apply creates, updates and deletes', async () => {
+    const result = await applyFileUpdates(projectPath, [
+      { path: 'src/App.tsx', content: 'updated', operation: 'update' },
+      { path: 'src/components/New.tsx', content: 'new', operation: 'create' },
+      { path: 'src/Old.tsx', content: '', operation: 'delete' },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.applied).toHaveLength(3);
+    expect(await readFile(join(projectPath, 'src', 'App.tsx'), 'utf-8')).toBe('updated');
+    expect(await readFile(join(projectPath, 'src', 'components', 'New.tsx'), 'utf-8')).toBe('new');
+    expect(await readdir(join(projectPath, 'src'))).not.toContain('Old.tsx');
+  });
+
+  test('should reject whole batch on syntax errors when validating', async () => {
+    const result = await applyFileUpdates(projectPath, [
+      { path: 'src/App.tsx', content: 'export default 1;', operation: 'update' },
+      { path: 'src/Broken.tsx', content: 'const x = <div>;', operation: 'create' },
+    ], { validate: true });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ path: 'src/Broken.tsx', code: 'SYNTAX_ERROR' });
+    expect(await readFile(join(projectPath, 'src', 'App.tsx'), 'utf-8')).toBe('original');
+  });
+
+  test('should reject batches with unsafe paths', async () => {
+    const result = await applyFileUpdates(projectPath, [
+      { path: 'src/App.tsx', content: 'updated', operation: 'update' },
+      { path: '../escape.txt', content: 'x', operation: 'create' },
+      { path: 'node_modules/x/index.js', content: 'x', operation: 'create' },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors.map(e => e.code)).toEqual(['PATH_TRAVERSAL', 'PATH_PROTECTED']);
+    expect(await readFile(join(projectPath, 'src', 'App.tsx'), 'utf-8')).toBe('original');
+  });
+
+  test('should reject duplicate paths', async () => {
+    const result = await applyFileUpdates(projectPath, [
+      { path: 'src/App.tsx', content: 'a', operation: 'update' },
+      { path: 'src/App.tsx', content: 'b', operation: 'update' },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].code).toBe('INVALID_UPDATE');
+  });
+
+  test('should reject paths naming the same file', async () => {
+    const result = await applyFileUpdates(projectPath, [
+      { path: './src/App.tsx', content: 'a', operation: 'update' },
+      { path: 'src/App.tsx', content: 'b', operation: 'update' },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ path: 'src/App.tsx', code: 'INVALID_UPDATE' });
+    expect(await readFile(join(projectPath, 'src', 'App.tsx'), 'utf-8')).toBe('original');
+  });
+
+  test('should report non-object entries as invalid updates', async () => {
+    const result = await applyFileUpdates(projectPath, [
+      null,
+      'src/App.tsx',
+      { path: 'src/App.tsx', content: 'a', operation: 'update' },
+    ] as unknown as FileUpdate[]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors.map(e => e.code)).toEqual(['INVALID_UPDATE', 'INVALID_UPDATE']);
+  });
+
+  test('should roll back applied files when commit fails', async () => {
+    // A non-empty directory cannot be replaced by a file
+    await mkdir(join(projectPath, 'src', 'dir'));
+    await writeFile(join(projectPath, 'src', 'dir', 'keep.ts'), '');
+
+    const result = await applyFileUpdates(projectPath, [
+      { path: 'src/App.tsx', content: 'updated', operation: 'update' },
+      { path: 'src/Added.tsx', content: 'added', operation: 'create' },
+      { path: 'src/dir', content: 'boom', operation: 'update' },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatchObject({ path: 'src/dir', code: 'WRITE_FAILED' });
+    expect(await readFile(join(projectPath, 'src', 'App.tsx'), 'utf-8')).toBe('original');
+    // No added files or temp files left behind
+    expect((await readdir(join(projectPath, 'src'))).sort()).toEqual(['App.tsx', 'Old.tsx', 'dir']);
+  });
+
+  test('should remove directories created for a batch that fails', async () => {
+    await mkdir(join(projectPath, 'src', 'dir'));
+    await writeFile(join(projectPath, 'src', 'dir', 'keep.ts'), '');
+
+    const result = await applyFileUpdates(projectPath, [
+      { path: 'src/components/ui/Button.tsx', content: 'button', operation: 'create' },
+      { path: 'src/components/ui/forms/Input.tsx', content: 'input', operation: 'create' },
+      { path: 'lib/util.ts', content: 'util', operation: 'create' },
+      { path: 'src/dir', content: 'boom', operation: 'update' },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect((await readdir(projectPath)).sort()).toEqual(['src']);
+    expect((await readdir(join(projectPath, 'src'))).sort()).toEqual(['App.tsx', 'Old.tsx', 'dir']);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * HmrWebSocketProxy 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { HmrWebSocketProxy } from '../src/services/hmr-proxy';
+import type { HmrMessage } from '../src/types';
+
+describe('HmrWebSocketProxy', () => {
+  let server: Server;
+  let proxy: HmrWebSocketProxy;
+  let port: number;
+
+  beforeEach(async () => {
+    server = createServer();
+    proxy = new HmrWebSocketProxy();
+    proxy.attach(server, '/hmr');
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    proxy.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Connects an external client and collects its messages (the 'connected' greeting is skipped)
+  async function connect(projectId: string, query = ''): Promise<{ ws: WebSocket; sessionId: string; messages: HmrMessage[] }> {
+    const messages: HmrMessage[] = [];
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/hmr?projectId=${projectId}${query}`);
+    const sessionId = await new Promise<string>((resolve) => {
+      ws.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'connected') resolve(message.sessionId);
+        else messages.push(message);
+      });
+    });
+    return { ws, sessionId, messages };
+  }
+
+  const settle = () => new Promise(r => setTimeout(r, 50));
+
+  test('should reject upgrades the preview access denies', async () => {
+    // p1 and abc are private, everything else public
+    const guarded = new HmrWebSocketProxy({
+      authorize: async (projectId, { token }) => !['p1', 'abc'].includes(projectId) ? '' : token === 'ok' ? token : null,
+    });
+    const guardedServer = createServer();
+    guarded.attach(guardedServer, '/hmr');
+    await new Promise<void>(resolve => guardedServer.listen(0, '127.0.0.1', resolve));
+    const guardedPort = (guardedServer.address() as AddressInfo).port;
+
+    const status = (query: string, path = '/hmr?projectId=p1') => new Promise<number>((resolve) => {
+      const ws = new WebSocket(`ws://127.0.0.1:${guardedPort}${path}${query}`);
+      ws.on('open', () => { ws.close(); resolve(101); });
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+      ws.on('error', () => {});
+    });
+
+    expect(await status('')).toBe(401);
+    expect(await status('&token=ok')).toBe(101);
+    // %-encoded ids are checked as the decoded id (401 before the 503 for a stopped Vite)
+    expect(await status('', '/p/%61bc/@vite/client')).toBe(401);
+    expect(await status('', '/p/public/@vite/client')).toBe(503);
+    // Ids that are not project directories are refused outright
+    expect(await status('', '/p/abc!/@vite/client')).toBe(400);
+    expect(await status('', '/p/_template/@vite/client')).toBe(400);
+    expect(await status('', '/hmr?projectId=_runtime')).toBe(400);
+
+    guarded.close();
+    await new Promise(resolve => guardedServer.close(resolve));
+  });
+
+  test('should push reload, update and custom events to the project clients', async () => {
+    const { messages: received } = await connect('p1');
+    const { messages: other } = await connect('p2');
+
+    expect(proxy.reload('p1')).toBe(1);
+    expect(proxy.update('p1', ['src/App.tsx'])).toBe(1);
+    expect(proxy.custom('p1', 'editor:saved', { file: 'src/App.tsx' })).toBe(1);
+    await settle();
+
+    const messages = received.filter(m => !m.type.startsWith('presence:'));
+
+    expect(messages[0]).toEqual({ type: 'full-reload', path: '*' });
+    expect(messages[1]).toMatchObject({
+      type: 'update',
+      updates: [{ type: 'js-update', path: '/src/App.tsx', acceptedPath: '/src/App.tsx' }],
+    });
+    expect(messages[2]).toEqual({ type: 'custom', event: 'editor:saved', data: { file: 'src/App.tsx' } });
+    expect(other.filter(m => !m.type.startsWith('presence:'))).toHaveLength(0);
+  });
+
+  test('should track sessions and broadcast presence to other clients', async () => {
+    const alice = await connect('p1', '&userId=u1&name=Alice&role=editor');
+    const bob = await connect('p1', '&name=Bob');
+    await settle();
+
+    expect(proxy.getSessions('p1').map(s => [s.name, s.role])).toEqual([['Alice', 'editor'], ['Bob', 'viewer']]);
+    expect(bob.messages[0]).toMatchObject({ type: 'presence:sessions' });
+    expect(bob.messages[0].sessions).toHaveLength(2);
+    expect(alice.messages.find(m => m.type === 'presence:join')?.session).toMatchObject({ name: 'Bob', role: 'viewer' });
+
+    bob.ws.send(JSON.stringify({ type: 'presence:identify', role: 'editor' }));
+    alice.ws.send(JSON.stringify({ type: 'ELEMENT_SELECTED', payload: { jsxId: 'abc-12', jsxFile: 'src/App.tsx', jsxLine: 4, tagName: 'h1' } }));
+    await settle();
+
+    expect(alice.messages.find(m => m.type === 'presence:update')?.session).toMatchObject({ sessionId: bob.sessionId, role: 'editor' });
+    expect(bob.messages.find(m => m.type === 'presence:selection')).toEqual({
+      type: 'presence:selection',
+      sessionId: alice.sessionId,
+      selection: { jsxId: 'abc-12', file: 'src/App.tsx', line: 4 },
+    });
+    // Not echoed back to the sender
+    expect(alice.messages.some(m => m.type === 'presence:selection')).toBe(false);
+    expect(proxy.getSessions('p1')[0].selection?.jsxId).toBe('abc-12');
+
+    bob.ws.close();
+    await settle();
+
+    expect(alice.messages.find(m => m.type === 'presence:leave')).toEqual({ type: 'presence:leave', sessionId: bob.sessionId });
+    expect(proxy.getSessions('p1')).toHaveLength(1);
+  });
+
+  test('should report zero deliveries without clients', () => {
+    expect(proxy.reload('nobody')).toBe(0);
+    expect(proxy.getClientCount('nobody')).toBe(0);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Keyring 与鉴权中间件 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Hono } from 'hono';
+import { Keyring, parseKeyring, hasScope } from '../src/services/keyring';
+import { createAuthMiddleware, getApiKey } from '../src/middleware/auth';
+import { generateSignature } from '../src/lib/signature';
+import type { ApiKey } from '../src/types';
+
+const HOUR = 3600 * 1000;
+const iso = (offset: number) => new Date(Date.now() + offset).toISOString();
+
+const KEYS: ApiKey[] = [
+  {
+    keyId: 'backend',
+    scope: 'project-write',
+    secrets: [
+      { secret: 'old-secret', notAfter: iso(HOUR) },
+      { secret: 'new-secret' },
+    ],
+  },
+  { keyId: 'staging', scope: 'read-only', secrets: [{ secret: 'staging-secret' }] },
+  { keyId: 'tenant', scope: 'project-write', secrets: [{ secret: 'tenant-secret' }], projects: ['p1'] },
+  { keyId: 'ops', scope: 'admin', secrets: [{ secret: 'ops-secret' }] },
+  { keyId: 'retired', scope: 'admin', secrets: [{ secret: 'retired-secret' }], disabled: true },
+];
+
+describe('Keyring', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'keyring-test-'));
+    file = join(dir, 'keys.json');
+    await writeFile(file, JSON.stringify({ keys: KEYS }));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const params = { method: 'GET', path: '/projects', timestamp: 1700000000 };
+  const sign = (secret: string) => generateSignature(params, secret);
+
+  test('should accept every active secret of a key', async () => {
+    const keyring = new Keyring({ file, envKeyId: '', envSecret: '' });
+    await keyring.load();
+    const key = keyring.get('backend')!;
+
+    expect(keyring.verify(key, params, sign('old-secret'))).toBe(true);
+    expect(keyring.verify(key, params, sign('new-secret'))).toBe(true);
+    expect(keyring.verify(key, params, sign('staging-secret'))).toBe(false);
+  });
+
+  test('should reject secrets outside their window', async () => {
+    await writeFile(file, JSON.stringify({
+      keys: [{
+        keyId: 'backend',
+        scope: 'admin',
+        secrets: [
+          { secret: 'expired', notAfter: iso(-HOUR) },
+          { secret: 'future', notBefore: iso(HOUR) },
+        ],
+      }],
+    }));
+    const keyring = new Keyring({ file, envKeyId: '', envSecret: '' });
+    await keyring.load();
+    const key = keyring.get('backend')!;
+
+    expect(keyring.verify(key, params, sign('expired'))).toBe(false);
+    expect(keyring.verify(key, params, sign('future'))).toBe(false);
+    expect(keyring.list()[0].secrets.map(s => s.active)).toEqual([false, false]);
+  });
+
+  test('should hide disabled keys and secrets in list()', async () => {
+    const keyring = new Keyring({ file, envKeyId: '', envSecret: '' });
+    await keyring.load();
+
+    expect(keyring.get('retired')).toBeNull();
+    expect(keyring.get('unknown')).toBeNull();
+    expect(JSON.stringify(keyring.list())).not.toContain('secret"');
+  });
+
+  test('should add the environment key unless the file overrides it', async () => {
+    const envOnly = new Keyring({ file: '', envKeyId: 'legacy', envSecret: 'legacy-secret' });
+    expect(envOnly.isConfigured()).toBe(true);
+    expect(envOnly.get('legacy')?.scope).toBe('admin');
+    expect(envOnly.list()[0].source).toBe('env');
+
+    const overridden = new Keyring({ file, envKeyId: 'staging', envSecret: 'legacy-secret' });
+    await overridden.load();
+    expect(overridden.get('staging')?.scope).toBe('read-only');
+
+    expect(new Keyring({ file: '', envKeyId: '', envSecret: '' }).isConfigured()).toBe(false);
+  });
+
+  test('should keep the previous keys when the file becomes invalid', async () => {
+    const keyring = new Keyring({ file, envKeyId: '', envSecret: '' });
+    await keyring.load();
+
+    await writeFile(file, '{ "keys": [');
+    await keyring.load();
+    expect(keyring.get('backend')).not.toBeNull();
+
+    await writeFile(file, JSON.stringify({ keys: [KEYS[1]] }));
+    await keyring.load();
+    expect(keyring.get('backend')).toBeNull();
+    expect(keyring.get('staging')).not.toBeNull();
+  });
+
+  test('should reload the file when it changes', async () => {
+    const keyring = new Keyring({ file, envKeyId: '', envSecret: '', interval: 20 });
+    await keyring.start();
+
+    try {
+      await new Promise(r => setTimeout(r, 50));
+      await writeFile(file, JSON.stringify({ keys: [{ keyId: 'added', scope: 'read-only', secrets: [{ secret: 's' }] }] }));
+
+      for (let i = 0; i < 50 && !keyring.get('added'); i++) {
+        await new Promise(r => setTimeout(r, 20));
+      }
+      expect(keyring.get('added')).not.toBeNull();
+      expect(keyring.get('backend')).toBeNull();
+    } finally {
+      keyring.stop();
+    }
+  });
+
+  test('should validate the keyring file', () => {
+    const key = { keyId: 'k', scope: 'read-only', secrets: [{ secret: 's' }] };
+
+    expect(parseKeyring({ keys: [key] }).size).toBe(1);
+    expect(() => parseKeyring([key])).toThrow('"keys" array');
+    expect(() => parseKeyring({ keys: [key, key] })).toThrow('Duplicate keyId');
+    expect(() => parseKeyring({ keys: [{ ...key, scope: 'root' }] })).toThrow('scope');
+    expect(() => parseKeyring({ keys: [{ ...key, secrets: [] }] })).toThrow('secret');
+    expect(() => parseKeyring({ keys: [{ ...key, secrets: [{ secret: 's', notAfter: 'soon' }] }] })).toThrow('notAfter');
+    expect(() => parseKeyring({ keys: [{ ...key, scope: 'admin', projects: ['p1'] }] })).toThrow('allowlist');
+  });
+
+  test('should order scopes', () => {
+    expect(hasScope('admin', 'project-write')).toBe(true);
+    expect(hasScope('project-write', 'read-only')).toBe(true);
+    expect(hasScope('read-only', 'project-write')).toBe(false);
+    expect(hasScope('project-write', 'admin')).toBe(false);
+  });
+});
+
+describe('authMiddleware', () => {
+  let app: Hono;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'auth-test-'));
+    const file = join(dir, 'keys.json');
+    await writeFile(file, JSON.stringify({ keys: KEYS }));
+    const keyring = new Keyring({ file, envKeyId: '', envSecret: '' });
+    await keyring.load();
+
+    app = new Hono();
+    const auth = createAuthMiddleware(keyring);
+    app.use('/projects/*', auth);
+    app.use('/admin/*', auth);
+    app.get('/projects', (c) => c.json({ projects: getApiKey(c)?.projects ?? null }));
+    app.all('/projects/*', (c) => c.json({ ok: true }));
+    app.all('/admin/*', (c) => c.json({ ok: true }));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function request(keyId: string, secret: string, method: string, path: string, body?: unknown) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const text = body === undefined ? undefined : JSON.stringify(body);
+    const res = await app.request(path, {
+      method,
+      body: text,
+      headers: {
+        'X-API-Key': keyId,
+        'X-Timestamp': String(timestamp),
+        'X-Signature': generateSignature({ method, path, body: text, timestamp }, secret),
+      },
+    });
+    return { status: res.status, body: await res.json() as { code?: string; projects?: string[] | null } };
+  }
+
+  test('should authenticate with any active secret during rotation', async () => {
+    expect((await request('backend', 'old-secret', 'GET', '/projects/p1')).status).toBe(200);
+    expect((await request('backend', 'new-secret', 'POST', '/projects/p1/build')).status).toBe(200);
+    expect((await request('backend', 'wrong', 'GET', '/projects/p1')).body.code).toBe('AUTH_INVALID_SIGNATURE');
+    expect((await request('retired', 'retired-secret', 'GET', '/projects/p1')).body.code).toBe('AUTH_INVALID_KEY');
+  });
+
+  test('should enforce scopes', async () => {
+    expect((await request('staging', 'staging-secret', 'GET', '/projects/p1/files')).status).toBe(200);
+
+    const write = await request('staging', 'staging-secret', 'PUT', '/projects/p1/files', { updates: [] });
+    expect(write.status).toBe(403);
+    expect(write.body.code).toBe('AUTH_INSUFFICIENT_SCOPE');
+
+    expect((await request('backend', 'new-secret', 'GET', '/admin/keys')).status).toBe(403);
+    expect((await request('ops', 'ops-secret', 'POST', '/admin/retention/run')).status).toBe(200);
+  });
+
+  test('should enforce the project allowlist on paths and bodies', async () => {
+    expect((await request('tenant', 'tenant-secret', 'GET', '/projects/p1')).status).toBe(200);
+    expect((await request('tenant', 'tenant-secret', 'GET', '/projects/p2')).body.code).toBe('AUTH_PROJECT_FORBIDDEN');
+    expect((await request('tenant', 'tenant-secret', 'GET', '/projects/%70%32')).status).toBe(403);
+    expect((await request('tenant', 'tenant-secret', 'POST', '/projects/p1/fork', { projectId: 'p2' })).status).toBe(403);
+    expect((await request('tenant', 'tenant-secret', 'POST', '/projects/import', { projectId: 'p1' })).status).toBe(200);
+
+    expect((await request('tenant', 'tenant-secret', 'GET', '/projects')).body.projects).toEqual(['p1']);
+  });
+});
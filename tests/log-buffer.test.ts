@@ -0,0 +1,70 @@
+/**
+ * LogBuffer 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { EventEmitter } from 'events';
+import { LogBuffer } from '../src/services/log-buffer';
+
+describe('LogBuffer', () => {
+  test('should split and strip ANSI codes from log events', () => {
+    const source = new EventEmitter();
+    const buffer = new LogBuffer(source);
+
+    source.emit('log', {
+      projectId: 'p1',
+      type: 'stdout',
+      message: '\x1b[32mVITE ready\x1b[39m\n\n  Local: http://localhost:5200\n',
+    });
+
+    const entries = buffer.getLogs('p1');
+    expect(entries.map(e => e.message)).toEqual(['VITE ready', '  Local: http://localhost:5200']);
+    expect(entries[0].type).toBe('stdout');
+  });
+
+  test('should record exit events as system entries', () => {
+    const source = new EventEmitter();
+    const buffer = new LogBuffer(source);
+
+    source.emit('exit', { projectId: 'p1', code: 1 });
+
+    const [entry] = buffer.getLogs('p1');
+    expect(entry.type).toBe('system');
+    expect(entry.message).toContain('code 1');
+  });
+
+  test('should keep at most capacity entries per project', () => {
+    const buffer = new LogBuffer(new EventEmitter(), 3);
+
+    for (let i = 0; i < 5; i++) {
+      buffer.append('p1', 'stdout', `line ${i}`);
+    }
+
+    const entries = buffer.getLogs('p1');
+    expect(entries).toHaveLength(3);
+    expect(entries[0].message).toBe('line 2');
+  });
+
+  test('should return entries after since', () => {
+    const buffer = new LogBuffer(new EventEmitter());
+    const first = buffer.append('p1', 'stdout', 'a');
+    buffer.append('p1', 'stderr', 'b');
+    buffer.append('p2', 'stdout', 'other');
+
+    const entries = buffer.getLogs('p1', first.seq);
+    expect(entries.map(e => e.message)).toEqual(['b']);
+  });
+
+  test('should notify and unsubscribe listeners', () => {
+    const buffer = new LogBuffer(new EventEmitter());
+    const received: string[] = [];
+
+    const unsubscribe = buffer.subscribe('p1', entry => received.push(entry.message));
+    buffer.append('p1', 'stdout', 'one');
+    buffer.append('p2', 'stdout', 'ignored');
+    unsubscribe();
+    buffer.append('p1', 'stdout', 'two');
+
+    expect(received).toEqual(['one']);
+  });
+});
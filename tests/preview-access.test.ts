@@ -0,0 +1,127 @@
+/**
+ * PreviewAccess 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Hono } from 'hono';
+import { PreviewAccess } from '../src/services/preview-access';
+import { createPreviewAuthMiddleware } from '../src/middleware/preview-auth';
+import { projectIdGuard } from '../src/middleware/project-id';
+import { generatePreviewToken, verifyPreviewToken } from '../src/lib/signature';
+import type { ProjectRecord } from '../src/types';
+
+const SECRET = 'test-secret';
+
+function createAccess(records: Record<string, Partial<ProjectRecord>>, privateByDefault = false) {
+  return new PreviewAccess(
+    { secret: SECRET, privateByDefault },
+    { get: async (projectId: string) => (records[projectId] ?? null) as ProjectRecord | null }
+  );
+}
+
+describe('Preview tokens', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  test('should verify a token for its own project only', () => {
+    const token = generatePreviewToken('p1', now() + 60, SECRET);
+
+    expect(verifyPreviewToken(token, 'p1', SECRET)).toBe(true);
+    expect(verifyPreviewToken(token, 'p2', SECRET)).toBe(false);
+    expect(verifyPreviewToken(token, 'p1', 'other-secret')).toBe(false);
+  });
+
+  test('should reject expired and malformed tokens', () => {
+    expect(verifyPreviewToken(generatePreviewToken('p1', now() - 1, SECRET), 'p1', SECRET)).toBe(false);
+    expect(verifyPreviewToken('not-a-token', 'p1', SECRET)).toBe(false);
+
+    // Extending the expiry invalidates the signature
+    const [, signature] = generatePreviewToken('p1', now() + 60, SECRET).split('.');
+    expect(verifyPreviewToken(`${now() + 3600}.${signature}`, 'p1', SECRET)).toBe(false);
+  });
+});
+
+describe('PreviewAccess', () => {
+  test('should let anyone see public projects', async () => {
+    const access = createAccess({ p1: { private: false } });
+
+    expect(await access.authorize('p1', {})).toBe('');
+  });
+
+  test('should require a valid token for private projects', async () => {
+    const access = createAccess({ p1: { private: true }, p2: { private: true } });
+    const { token, expiresAt } = access.mintToken('p1', 60);
+
+    expect(new Date(expiresAt).getTime()).toBeGreaterThan(Date.now());
+    expect(await access.authorize('p1', {})).toBeNull();
+    expect(await access.authorize('p1', { token })).toBe(token);
+    expect(await access.authorize('p2', { token })).toBeNull();
+  });
+
+  test('should accept the token from the preview cookie', async () => {
+    const access = createAccess({ p1: { private: true } });
+    const { token } = access.mintToken('p1');
+    const cookieHeader = `theme=dark; ${access.cookieName('p1')}=${token}`;
+
+    expect(await access.authorize('p1', { cookieHeader })).toBe(token);
+    expect(await access.authorize('p1', { token: 'bad', cookieHeader })).toBe(token);
+  });
+
+  test('should apply the default visibility to projects without a flag', async () => {
+    expect(await createAccess({ p1: {} }, true).isPrivate('p1')).toBe(true);
+    expect(await createAccess({ p1: {} }, false).isPrivate('p1')).toBe(false);
+    expect(await createAccess({ p1: { private: false } }, true).isPrivate('p1')).toBe(false);
+  });
+
+  test('should treat every project as public without a secret', async () => {
+    const access = new PreviewAccess({ secret: '' }, { get: async () => ({ private: true }) as ProjectRecord });
+
+    expect(access.isEnabled()).toBe(false);
+    expect(await access.authorize('p1', {})).toBe('');
+    expect(() => access.mintToken('p1')).toThrow();
+  });
+
+  test('should cap the token lifetime', () => {
+    const access = new PreviewAccess({ secret: SECRET, maxTtlSeconds: 60 }, { get: async () => null });
+    const { token } = access.mintToken('p1', 3600);
+
+    expect(access.secondsLeft(token)).toBeLessThanOrEqual(60);
+  });
+});
+
+describe('previewAuthMiddleware', () => {
+  function createApp() {
+    const access = createAccess({ abc: { private: true } });
+    const app = new Hono();
+    app.use('/p/:projectId', projectIdGuard('projectId'));
+    app.use('/p/:projectId/*', projectIdGuard('projectId'));
+    app.use('/p/*', createPreviewAuthMiddleware(access));
+    app.get('/p/:projectId', (c) => c.redirect(`/p/${c.req.param('projectId')}/`));
+    app.get('/p/:projectId/*', (c) => c.text(c.req.param('projectId')));
+    return { app, access };
+  }
+
+  test('should check the decoded project id', async () => {
+    const { app, access } = createApp();
+
+    expect((await app.request('/p/abc/')).status).toBe(401);
+    expect((await app.request('/p/%61bc/')).status).toBe(401);
+
+    const { token } = access.mintToken('abc');
+    const res = await app.request(`/p/%61bc/?token=${token}`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('abc');
+    expect(res.headers.get('Set-Cookie')).toContain(access.cookieName('abc'));
+  });
+
+  test('should reject ids that are not project directories before the access check', async () => {
+    const { app } = createApp();
+
+    // abc! is not looked up as public, nor resolved to project abc's directory
+    for (const path of ['/p/abc!/', '/p/abc!', '/p/_template/', '/p/%5Fruntime/instances.json']) {
+      const res = await app.request(path);
+      expect(res.status).toBe(400);
+      expect((await res.json()).code).toBe('INVALID_PROJECT_ID');
+    }
+    expect((await app.request('/p/public/')).status).toBe(200);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * PreviewProbe 单元测试
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { probePreview, findLocalImports, extractViteError } from '../src/services/preview-probe';
+
+const BASE = '/p/abc/';
+
+const VITE_ERROR_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <title>Error</title>
+    <script type="module">
+      const error = ${JSON.stringify({
+        message: 'Transform failed with 1 error:\n/data/sites/abc/src/App.tsx:3:10: ERROR: Expected ";" but found "world"',
+        id: '/data/sites/abc/src/App.tsx',
+        frame: '1 | export default ...',
+        plugin: 'vite:esbuild',
+        loc: { file: '/data/sites/abc/src/App.tsx', line: 3, column: 10 },
+      })}
+      document.body.appendChild(new ErrorOverlay(error))
+    </script>
+  </head>
+</html>`;
+
+function serveVite(modules: Record<string, { status?: number; body: string }>) {
+  return Bun.serve({
+    port: 0,
+    fetch(req) {
+      const path = new URL(req.url).pathname;
+      const module = modules[path];
+      if (!module) return new Response('Not found', { status: 404 });
+      return new Response(module.body, { status: module.status ?? 200 });
+    },
+  });
+}
+
+describe('probePreview', () => {
+  let server: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    server?.stop(true);
+    server = null;
+  });
+
+  const index = `<html><head><script type="module" src="/p/abc/@vite/client"></script></head>
+<body><div id="root"></div><script type="module" src="/p/abc/src/main.tsx"></script></body></html>`;
+
+  test('should report healthy when every module on the render path compiles', async () => {
+    server = serveVite({
+      [BASE]: { body: index },
+      [`${BASE}@vite/client`]: { body: 'export {}' },
+      [`${BASE}src/main.tsx`]: { body: 'import React from "/p/abc/node_modules/.vite/deps/react.js?v=1";\nimport App from "/p/abc/src/App.tsx";\nimport "/p/abc/src/index.css";' },
+      [`${BASE}src/App.tsx`]: { body: 'export default function App() {}' },
+      [`${BASE}src/index.css`]: { body: 'export default ""' },
+    });
+
+    const health = await probePreview(server.port!, BASE);
+
+    expect(health.ok).toBe(true);
+    expect(health.error).toBeUndefined();
+    expect(health.checks.map(c => c.path)).toEqual([
+      BASE,
+      `${BASE}@vite/client`,
+      `${BASE}src/main.tsx`,
+      `${BASE}src/App.tsx`,
+      `${BASE}src/index.css`,
+    ]);
+  });
+
+  test('should surface transform errors in imported modules', async () => {
+    server = serveVite({
+      [BASE]: { body: index },
+      [`${BASE}@vite/client`]: { body: 'export {}' },
+      [`${BASE}src/main.tsx`]: { body: 'import App from "/p/abc/src/App.tsx";' },
+      [`${BASE}src/App.tsx`]: { status: 500, body: VITE_ERROR_PAGE },
+    });
+
+    const health = await probePreview(server.port!, BASE);
+
+    expect(health.ok).toBe(false);
+    expect(health.error?.message).toContain('Transform failed');
+    expect(health.error?.line).toBe(3);
+    expect(health.error?.plugin).toBe('vite:esbuild');
+  });
+
+  test('should fail when the entry module is missing', async () => {
+    server = serveVite({
+      [BASE]: { body: '<html><body></body></html>' },
+      [`${BASE}@vite/client`]: { body: 'export {}' },
+    });
+
+    const health = await probePreview(server.port!, BASE);
+
+    expect(health.ok).toBe(false);
+    expect(health.error?.file).toBe('src/main.tsx');
+    expect(health.error?.message).toBe('HTTP 404');
+  });
+
+  test('should fail when the server is unreachable', async () => {
+    server = serveVite({});
+    const port = server.port!;
+    server.stop(true);
+    server = null;
+
+    const health = await probePreview(port, BASE);
+    expect(health.ok).toBe(false);
+    expect(health.checks).toHaveLength(1);
+  });
+});
+
+describe('preview probe helpers', () => {
+  test('findLocalImports should skip dependencies and Vite internals', () => {
+    const code = [
+      'import { createHotContext } from "/p/abc/@vite/client";',
+      'import React from "/p/abc/node_modules/.vite/deps/react.js?v=1";',
+      'import { Button } from "/p/abc/src/components/Button.tsx";',
+      'export * from "/p/abc/src/lib/utils.ts";',
+      'const Lazy = import("/p/abc/src/pages/Lazy.tsx");',
+      'import.meta.hot.accept();',
+    ].join('\n');
+
+    expect(findLocalImports(code, BASE)).toEqual([
+      '/p/abc/src/components/Button.tsx',
+      '/p/abc/src/lib/utils.ts',
+      '/p/abc/src/pages/Lazy.tsx',
+    ]);
+  });
+
+  test('extractViteError should return null for non-Vite pages', () => {
+    expect(extractViteError('<html>Internal error</html>')).toBeNull();
+    expect(extractViteError(VITE_ERROR_PAGE)?.file).toBe('/data/sites/abc/src/App.tsx');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * proc-stats 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { spawn } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { sampleProcessTrees, findProcessesUnder } from '../src/lib/proc-stats';
+
+describe('sampleProcessTrees', () => {
+  test.skipIf(process.platform !== 'linux')('should read usage of the current process', async () => {
+    const usage = (await sampleProcessTrees([process.pid])).get(process.pid);
+
+    expect(usage?.pids[0]).toBe(process.pid);
+    expect(usage!.rssBytes).toBeGreaterThan(0);
+    expect(usage!.cpuSeconds).toBeGreaterThan(0);
+  });
+
+  test('should skip processes that do not exist', async () => {
+    expect((await sampleProcessTrees([2 ** 22 + 1])).size).toBe(0);
+  });
+});
+
+describe('findProcessesUnder', () => {
+  test.skipIf(process.platform !== 'linux')('should find processes by working directory', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'proc-stats-'));
+    const child = spawn('sleep', ['5'], { cwd: dir, stdio: 'ignore' });
+
+    try {
+      await new Promise(r => setTimeout(r, 100));
+      const found = await findProcessesUnder(dir);
+
+      expect(found.map(p => p.pid)).toEqual([child.pid!]);
+      expect(found[0].command).toBe('sleep 5');
+      expect(await findProcessesUnder(join(dir, 'other'))).toEqual([]);
+    } finally {
+      child.kill('SIGKILL');
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
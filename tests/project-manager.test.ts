@@ -0,0 +1,157 @@
+/**
+ * ProjectManager 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { projectManager } from '../src/services/project-manager';
+import { templateManager } from '../src/services/template-manager';
+import { warmPool } from '../src/services/warm-pool';
+import { dependencyManager } from '../src/services/dependency-manager';
+import { projectRegistry } from '../src/services/project-registry';
+import { viteManager } from '../src/services/vite-manager';
+import { createArchiveStream } from '../src/lib/archive';
+import { PathSecurityError } from '../src/lib/safe-path';
+import type { ViteInstance } from '../src/types';
+
+describe('ProjectManager import', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'project-manager-'));
+  });
+
+  afterEach(async () => {
+    mock.restore();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  async function archiveOf(files: Record<string, string>): Promise<Buffer> {
+    const sourceDir = join(rootDir, 'source');
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(join(sourceDir, path, '..'), { recursive: true });
+      await writeFile(join(sourceDir, path), content);
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of createArchiveStream(sourceDir, 'tar.gz', { excludes: [] })) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  test('should keep the archive contents when the template is not ready', async () => {
+    const projectPath = join(rootDir, 'p1');
+    spyOn(projectManager, 'getProjectPath').mockReturnValue(projectPath);
+    spyOn(templateManager, 'isReady').mockReturnValue(false);
+    spyOn(warmPool, 'claim').mockResolvedValue(null);
+    const install = spyOn(dependencyManager, 'install').mockResolvedValue({ success: true, logs: [], duration: 0 } as never);
+    spyOn(projectRegistry, 'register').mockResolvedValue(undefined as never);
+    spyOn(viteManager, 'start').mockResolvedValue({ port: 5200 } as ViteInstance);
+
+    const archive = await archiveOf({
+      'src/App.tsx': 'export default function App() { return <h1>Imported</h1>; }\n',
+      'src/lib/util.ts': 'export const answer = 42;\n',
+      'package.json': JSON.stringify({ dependencies: { 'left-pad': '^1.3.0' } }),
+    });
+
+    await projectManager.importProject({ projectId: 'p1' }, archive);
+
+    expect(await readFile(join(projectPath, 'src', 'App.tsx'), 'utf-8')).toContain('Imported');
+    expect(await readFile(join(projectPath, 'src', 'lib', 'util.ts'), 'utf-8')).toContain('answer');
+    // The scaffold's package.json is kept, with the archive's extra dependency merged in
+    const pkg = JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf-8'));
+    expect(pkg.dependencies['left-pad']).toBe('^1.3.0');
+    expect(pkg.dependencies.react).toBeDefined();
+    expect(install).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ProjectManager create from warm instance', () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('should stop the claimed warm instance when creation fails', async () => {
+    const projectPath = join(tmpdir(), 'project-manager-warm-p1');
+    const claim = { warmId: '_warm-test', projectPath };
+    spyOn(projectManager, 'getProjectPath').mockReturnValue(projectPath);
+    spyOn(warmPool, 'claim').mockResolvedValue(claim);
+    const abandon = spyOn(warmPool, 'abandon').mockResolvedValue();
+    const register = spyOn(projectRegistry, 'register').mockResolvedValue(undefined as never);
+
+    const creating = projectManager.createProject({
+      projectId: 'p1',
+      projectName: 'P1',
+      files: [{ path: '../outside.ts', content: 'x' }],
+    });
+
+    await expect(creating).rejects.toBeInstanceOf(PathSecurityError);
+    expect(abandon).toHaveBeenCalledWith('p1', claim);
+    expect(register).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProjectManager fork', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'project-fork-'));
+  });
+
+  afterEach(async () => {
+    mock.restore();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('should copy the source onto a fresh template copy', async () => {
+    const sourcePath = join(rootDir, 'src-project');
+    await mkdir(join(sourcePath, 'src'), { recursive: true });
+    await writeFile(join(sourcePath, 'src', 'App.tsx'), 'export default function App() { return <h1>Source</h1>; }\n');
+    await writeFile(join(sourcePath, 'vite.config.ts'), "export default { base: '/p/src-project/' };\n");
+    await writeFile(join(sourcePath, 'package.json'), JSON.stringify({
+      dependencies: { react: '^18.0.0', 'left-pad': '^1.3.0' },
+      devDependencies: { 'is-odd': '^3.0.0' },
+    }));
+
+    spyOn(projectManager, 'getProjectPath').mockImplementation((id) => join(rootDir, id));
+    spyOn(projectRegistry, 'get').mockResolvedValue({ projectId: 'src-project', projectName: 'Source', owner: 'team-1' } as never);
+    // Template copy: the template's package.json, vite.config.ts rendered for the new id
+    spyOn(templateManager, 'createFromTemplate').mockImplementation(async (projectId, templateName) => {
+      const path = join(rootDir, projectId);
+      await mkdir(path, { recursive: true });
+      await writeFile(join(path, 'package.json'), JSON.stringify({ dependencies: { react: '^18.3.1' } }));
+      await templateManager.writeViteConfig(path, projectId, templateName);
+      return path;
+    });
+    const ensure = spyOn(dependencyManager, 'ensure').mockResolvedValue({ success: true, logs: [], duration: 0 } as never);
+    const register = spyOn(projectRegistry, 'register').mockResolvedValue(undefined as never);
+    spyOn(viteManager, 'start').mockResolvedValue({ port: 5200 } as ViteInstance);
+
+    await projectManager.forkProject('src-project', { projectId: 'fork-1' });
+
+    const forkPath = join(rootDir, 'fork-1');
+    expect(await readFile(join(forkPath, 'src', 'App.tsx'), 'utf-8')).toContain('Source');
+
+    const viteConfig = await readFile(join(forkPath, 'vite.config.ts'), 'utf-8');
+    expect(viteConfig).toContain("base: '/p/fork-1/'");
+    expect(viteConfig).toContain("path: '/hmr/fork-1'");
+    expect(viteConfig).not.toContain('src-project');
+
+    // Template versions win, the source's extra dependencies are kept
+    const pkg = JSON.parse(await readFile(join(forkPath, 'package.json'), 'utf-8'));
+    expect(pkg.dependencies).toEqual({ react: '^18.3.1', 'left-pad': '^1.3.0' });
+    expect(pkg.devDependencies).toEqual({ 'is-odd': '^3.0.0' });
+    expect(ensure).toHaveBeenCalledTimes(1);
+
+    expect(register.mock.calls[0][0]).toMatchObject({
+      projectId: 'fork-1',
+      projectName: 'Source',
+      owner: 'team-1',
+      forkedFrom: 'src-project',
+      extraDependencies: { 'left-pad': '^1.3.0' },
+      extraDevDependencies: { 'is-odd': '^3.0.0' },
+    });
+  });
+});
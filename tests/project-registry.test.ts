@@ -0,0 +1,141 @@
+/**
+ * ProjectRegistry 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { EventEmitter } from 'events';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProjectRegistry } from '../src/services/project-registry';
+
+function baseRecord(projectId: string, overrides: Record<string, unknown> = {}) {
+  return {
+    projectId,
+    projectName: `Project ${projectId}`,
+    extraDependencies: {},
+    extraDevDependencies: {},
+    status: 'stopped' as const,
+    ...overrides,
+  };
+}
+
+describe('ProjectRegistry', () => {
+  let rootDir: string;
+  let registryFile: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'fly-registry-'));
+    registryFile = join(rootDir, 'projects.json');
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('should persist records across instances', async () => {
+    const registry = new ProjectRegistry(registryFile);
+    await registry.register(baseRecord('a', { owner: 'team-1', description: 'Landing page' }));
+
+    const reloaded = new ProjectRegistry(registryFile);
+    const record = await reloaded.get('a');
+
+    expect(record?.owner).toBe('team-1');
+    expect(record?.createdAt).toBeDefined();
+  });
+
+  test('should filter by owner, status and search text', async () => {
+    const registry = new ProjectRegistry(registryFile);
+    await registry.register(baseRecord('a', { owner: 'team-1', description: 'Coffee shop' }));
+    await registry.register(baseRecord('b', { owner: 'team-2', status: 'running' }));
+    await registry.register(baseRecord('c', { owner: 'team-1', status: 'running' }));
+
+    expect((await registry.list({ owner: 'team-1' })).total).toBe(2);
+    expect((await registry.list({ status: 'running' })).projects.map(p => p.projectId).sort()).toEqual(['b', 'c']);
+    expect((await registry.list({ search: 'COFFEE' })).projects[0].projectId).toBe('a');
+    expect((await registry.list({ limit: 1 })).projects).toHaveLength(1);
+  });
+
+  test('should find projects on an older template version', async () => {
+    const versions: Record<string, string> = { 'react-shadcn': 'v2', 'vue': 'v1' };
+    const registry = new ProjectRegistry(registryFile, undefined, undefined, {
+      getVersion: (name?: string) => versions[name ?? 'react-shadcn'] ?? null,
+    });
+    await registry.register(baseRecord('a', { template: 'react-shadcn', templateVersion: 'v1' }));
+    await registry.register(baseRecord('b', { template: 'react-shadcn', templateVersion: 'v2' }));
+    await registry.register(baseRecord('c'));
+    await registry.register(baseRecord('d', { template: 'vue', templateVersion: 'v1' }));
+
+    expect((await registry.list({ outdated: true })).projects.map(p => p.projectId).sort()).toEqual(['a', 'c']);
+    expect((await registry.list({ template: 'react-shadcn' })).total).toBe(3);
+    expect((await registry.list({ templateVersion: 'v1' })).total).toBe(2);
+  });
+
+  test('should track status from manager events', async () => {
+    const source = new EventEmitter();
+    const registry = new ProjectRegistry(registryFile, source);
+    await registry.register(baseRecord('a'));
+
+    source.emit('started', { projectId: 'a', port: 5200 });
+    await new Promise(r => setTimeout(r, 10));
+    expect((await registry.get('a'))?.status).toBe('running');
+
+    source.emit('exit', { projectId: 'a', code: 1, unexpected: true });
+    await new Promise(r => setTimeout(r, 10));
+    expect((await registry.get('a'))?.status).toBe('error');
+  });
+
+  test('should mark projects whose start failed as error', async () => {
+    const source = new EventEmitter();
+    const registry = new ProjectRegistry(registryFile, source);
+    await registry.register({ ...baseRecord('a'), status: 'starting' });
+
+    source.emit('start-failed', { projectId: 'a', reason: 'Vite process exited with code 1' });
+    await new Promise(r => setTimeout(r, 10));
+    expect(await registry.get('a')).toMatchObject({ status: 'error', statusReason: 'Vite process exited with code 1' });
+  });
+
+  test('should record crash loop reason from supervisor events', async () => {
+    const source = new EventEmitter();
+    const supervisor = new EventEmitter();
+    const registry = new ProjectRegistry(registryFile, source, supervisor);
+    await registry.register(baseRecord('a'));
+
+    supervisor.emit('gave-up', { projectId: 'a', reason: 'Crashed 5 times' });
+    await new Promise(r => setTimeout(r, 10));
+    expect(await registry.get('a')).toMatchObject({ status: 'error', statusReason: 'Crashed 5 times' });
+
+    source.emit('started', { projectId: 'a', port: 5200 });
+    await new Promise(r => setTimeout(r, 10));
+    expect((await registry.get('a'))?.statusReason).toBeUndefined();
+  });
+
+  test('should record dependency additions and removals', async () => {
+    const registry = new ProjectRegistry(registryFile);
+    await registry.register(baseRecord('a'));
+
+    await registry.addDependency('a', 'dayjs', '^1.11.0');
+    await registry.addDependency('a', '@types/lodash', 'latest', true);
+    await registry.removeDependency('a', 'dayjs');
+
+    const record = await registry.get('a');
+    expect(record?.extraDependencies).toEqual({});
+    expect(record?.extraDevDependencies).toEqual({ '@types/lodash': 'latest' });
+  });
+
+  test('should reconcile with project directories on disk', async () => {
+    const dataDir = join(rootDir, 'sites');
+    await mkdir(join(dataDir, 'on-disk'), { recursive: true });
+    await writeFile(join(dataDir, 'on-disk', 'package.json'), JSON.stringify({ name: 'on-disk-site' }));
+    await mkdir(join(dataDir, '_template'), { recursive: true });
+    await writeFile(join(dataDir, '_template', 'package.json'), '{}');
+
+    const registry = new ProjectRegistry(registryFile);
+    await registry.register(baseRecord('gone'));
+    await registry.reconcile(dataDir);
+
+    const { projects } = await registry.list();
+    expect(projects.map(p => p.projectId)).toEqual(['on-disk']);
+    expect(projects[0].projectName).toBe('on-disk-site');
+  });
+});
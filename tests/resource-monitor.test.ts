@@ -0,0 +1,146 @@
+/**
+ * ResourceMonitor 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { EventEmitter } from 'events';
+import { ResourceMonitor } from '../src/services/resource-monitor';
+import type { ProcessTreeUsage } from '../src/lib/proc-stats';
+import type { ViteStatus } from '../src/types';
+
+const MB = 1024 * 1024;
+
+interface FakeInstance {
+  projectId: string;
+  port: number;
+  pid?: number;
+  status: ViteStatus;
+  lastActive: Date;
+}
+
+function createMonitor(
+  rss: Record<string, number>,
+  options: {
+    budget?: number;
+    instanceLimit?: number;
+    active?: string[];
+    pinned?: string[];
+    warm?: number;
+    queueLength?: number;
+  } = {}
+) {
+  const instances: FakeInstance[] = Object.keys(rss).map((projectId, i) => ({
+    projectId,
+    port: 5200 + i,
+    pid: 1000 + i,
+    status: 'running',
+    // Declaration order = least recently active first
+    lastActive: new Date(Date.now() - (100 - i) * 1000),
+  }));
+  const stopped: string[] = [];
+  let warm = options.warm ?? 0;
+
+  const manager = Object.assign(new EventEmitter(), {
+    getAllInstances: () => instances.filter(i => !stopped.includes(i.projectId)),
+    isProjectActive: (projectId: string) => options.active?.includes(projectId) ?? false,
+    stop: async (projectId: string) => { stopped.push(projectId); },
+    getQueueLength: () => options.queueLength ?? 1,
+  });
+
+  const sampler = async (pids: number[]) => new Map<number, ProcessTreeUsage>(
+    pids.map(pid => {
+      const instance = instances.find(i => i.pid === pid)!;
+      return [pid, { pids: [pid, pid + 500], rssBytes: rss[instance.projectId] * MB, cpuSeconds: 1 }];
+    })
+  );
+
+  const monitor = new ResourceMonitor(
+    { memoryBudgetBytes: (options.budget ?? 0) * MB, instanceMemoryLimitBytes: (options.instanceLimit ?? 0) * MB },
+    manager,
+    async (projectId) => options.pinned?.includes(projectId) ?? false,
+    sampler,
+    async () => {
+      if (warm === 0) return false;
+      warm--;
+      return true;
+    }
+  );
+
+  return { monitor, manager, stopped, warmLeft: () => warm };
+}
+
+describe('ResourceMonitor', () => {
+  test('should report per-instance usage', async () => {
+    const { monitor, stopped } = createMonitor({ a: 100, b: 200 }, { budget: 1000 });
+
+    const usage = await monitor.sample();
+
+    expect(usage).toHaveLength(2);
+    expect(monitor.getUsage('b')).toMatchObject({ pid: 1001, processCount: 2, rssBytes: 200 * MB });
+    expect(monitor.getSnapshot().totalRssBytes).toBe(300 * MB);
+    expect(stopped).toEqual([]);
+  });
+
+  test('should evict least recently active instances until under budget', async () => {
+    const { monitor, stopped } = createMonitor({ a: 300, b: 300, c: 300, d: 300 }, { budget: 700 });
+
+    await monitor.sample();
+
+    expect(stopped).toEqual(['a', 'b']);
+    expect(monitor.getSnapshot().evictions.map(e => e.reason)).toEqual(['budget', 'budget']);
+  });
+
+  test('should never evict pinned or active projects', async () => {
+    const { monitor, stopped } = createMonitor({ a: 300, b: 300, c: 300 }, { budget: 500, pinned: ['a'], active: ['b'] });
+
+    await monitor.sample();
+
+    expect(stopped).toEqual(['c']);
+  });
+
+  test('should evict instances over the per-instance limit', async () => {
+    const { monitor, stopped } = createMonitor({ a: 100, b: 900, c: 100 }, { instanceLimit: 500 });
+
+    await monitor.sample();
+
+    expect(stopped).toEqual(['b']);
+    expect(monitor.getSnapshot().evictions[0]).toMatchObject({ projectId: 'b', reason: 'instance-limit' });
+  });
+});
+
+describe('ResourceMonitor pool eviction', () => {
+  test('should evict the idlest unpinned instance when a start is queued', async () => {
+    const { manager, stopped } = createMonitor({ a: 100, b: 100, c: 100 }, { pinned: ['a'] });
+
+    manager.emit('pool-exhausted', { projectId: 'new', queueLength: 1 });
+    await new Promise(r => setTimeout(r, 10));
+
+    expect(stopped).toEqual(['b']);
+  });
+
+  test('should release a warm instance instead of evicting one', async () => {
+    const { manager, stopped, warmLeft } = createMonitor({ a: 100, b: 100 }, { warm: 1 });
+
+    manager.emit('pool-exhausted', { projectId: 'new', queueLength: 1 });
+    await new Promise(r => setTimeout(r, 10));
+
+    expect(warmLeft()).toBe(0);
+    expect(stopped).toEqual([]);
+  });
+
+  test('should not evict once the queued start is no longer waiting', async () => {
+    const { manager, stopped } = createMonitor({ a: 100 }, { queueLength: 0 });
+
+    manager.emit('pool-exhausted', { projectId: 'new', queueLength: 1 });
+    await new Promise(r => setTimeout(r, 10));
+
+    expect(stopped).toEqual([]);
+  });
+
+  test('should return null when nothing can be evicted', async () => {
+    const { monitor, stopped } = createMonitor({ a: 100 }, { active: ['a'] });
+
+    expect(await monitor.evictIdlest()).toBeNull();
+    expect(stopped).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * RetentionManager 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProjectRegistry } from '../src/services/project-registry';
+import { RetentionManager } from '../src/services/retention-manager';
+
+const HOUR = 3600;
+
+describe('RetentionManager', () => {
+  let rootDir: string;
+  let dataDir: string;
+  let archiveDir: string;
+  let registry: ProjectRegistry;
+  let removed: string[];
+
+  async function addProject(projectId: string, overrides: Record<string, unknown> = {}) {
+    await mkdir(join(dataDir, projectId, 'src'), { recursive: true });
+    await writeFile(join(dataDir, projectId, 'package.json'), '{}');
+    await writeFile(join(dataDir, projectId, 'src', 'App.tsx'), 'export default 1;');
+    await registry.register({
+      projectId,
+      projectName: projectId,
+      extraDependencies: {},
+      extraDevDependencies: {},
+      status: 'stopped',
+      ...overrides,
+    });
+    await registry.update(projectId, { lastEditedAt: '2024-01-01T00:00:00.000Z' });
+  }
+
+  function createManager(options: { archive?: boolean; defaultTtlSeconds?: number } = {}) {
+    return new RetentionManager(
+      { dataDir, archiveDir, archive: false, defaultTtlSeconds: 24 * HOUR, ...options },
+      registry,
+      async (projectId) => {
+        removed.push(projectId);
+        await rm(join(dataDir, projectId), { recursive: true, force: true });
+        await registry.remove(projectId);
+      }
+    );
+  }
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'fly-retention-'));
+    dataDir = join(rootDir, 'sites');
+    archiveDir = join(rootDir, 'archives');
+    registry = new ProjectRegistry(join(rootDir, 'projects.json'));
+    removed = [];
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('should only list projects whose TTL has elapsed', async () => {
+    await addProject('expired');
+    await addProject('long-ttl', { ttlSeconds: 48 * HOUR });
+
+    const manager = createManager();
+    const candidates = await manager.preview(new Date('2024-01-02T12:00:00.000Z'));
+
+    expect(candidates.map(c => c.projectId)).toEqual(['expired']);
+    expect(candidates[0].expiresAt).toBe('2024-01-02T00:00:00.000Z');
+  });
+
+  test('should never list pinned projects or projects with ttlSeconds 0', async () => {
+    await addProject('pinned', { pinned: true });
+    await addProject('forever', { ttlSeconds: 0 });
+
+    const manager = createManager();
+    expect(await manager.preview(new Date('2030-01-01T00:00:00.000Z'))).toEqual([]);
+  });
+
+  test('should keep everything when default TTL is 0', async () => {
+    await addProject('a');
+
+    const manager = createManager({ defaultTtlSeconds: 0 });
+    expect(await manager.preview(new Date('2030-01-01T00:00:00.000Z'))).toEqual([]);
+  });
+
+  test('should skip records without a valid project directory', async () => {
+    await addProject('a');
+    await rm(join(dataDir, 'a', 'package.json'));
+
+    const manager = createManager();
+    expect(await manager.preview(new Date('2030-01-01T00:00:00.000Z'))).toEqual([]);
+  });
+
+  test('preview should not delete anything', async () => {
+    await addProject('a');
+
+    const manager = createManager();
+    await manager.preview(new Date('2030-01-01T00:00:00.000Z'));
+
+    expect(removed).toEqual([]);
+    expect(await registry.get('a')).not.toBeNull();
+  });
+
+  test('run should archive expired projects before removing them', async () => {
+    await addProject('a');
+    await mkdir(join(dataDir, 'a', 'node_modules', 'pkg'), { recursive: true });
+    await addProject('b', { pinned: true });
+
+    const manager = createManager({ archive: true });
+    const result = await manager.run(new Date('2030-01-01T00:00:00.000Z'));
+
+    expect(result.removed.map(c => c.projectId)).toEqual(['a']);
+    expect(result.failed).toEqual([]);
+    expect(removed).toEqual(['a']);
+
+    const archives = await readdir(archiveDir);
+    expect(archives).toHaveLength(1);
+    expect(archives[0]).toMatch(/^a-.*\.tar\.gz$/);
+
+    const listing = Bun.spawnSync(['tar', '-tzf', join(archiveDir, archives[0])]).stdout.toString();
+    expect(listing).toContain('a/src/App.tsx');
+    expect(listing).not.toContain('node_modules');
+  });
+
+  test('run should not remove a project when archiving fails', async () => {
+    await addProject('a');
+    await writeFile(archiveDir, 'not a directory');
+
+    const manager = createManager({ archive: true });
+    const result = await manager.run(new Date('2030-01-01T00:00:00.000Z'));
+
+    expect(result.removed).toEqual([]);
+    expect(result.failed.map(f => f.projectId)).toEqual(['a']);
+    expect(removed).toEqual([]);
+  });
+});
@@ -2,9 +2,13 @@
  * API 路由测试
  */
 
-import { describe, test, expect } from 'bun:test';
+import { describe, test, expect, spyOn, mock, afterEach } from 'bun:test';
 import { Hono } from 'hono';
 import healthRoutes from '../src/routes/health';
+import adminRoutes from '../src/routes/admin';
+import projectRoutes from '../src/routes/projects';
+import { projectManager } from '../src/services/project-manager';
+import { PoolExhaustedError } from '../src/services/vite-manager';
 
 describe('Health Routes', () => {
   const app = new Hono();
@@ -61,3 +65,80 @@ describe('Health Routes', () => {
     expect(Array.isArray(body.data.instances)).toBe(true);
   });
 });
+
+describe('Admin Routes', () => {
+  const app = new Hono();
+  app.route('/health', healthRoutes);
+  app.route('/admin', adminRoutes);
+
+  test('template maintenance should only be served under /admin', async () => {
+    expect((await app.request('/health/admin/template-status')).status).toBe(404);
+    expect((await app.request('/health/admin/rebuild-template', { method: 'POST' })).status).toBe(404);
+
+    const res = await app.request('/admin/template-status');
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.templates).toBeDefined();
+  });
+});
+
+describe('Project Routes', () => {
+  const app = new Hono();
+  // Stands in for the auth middleware, which stores the verified body
+  app.use('*', async (c, next) => {
+    c.set('rawBody' as never, await c.req.text() as never);
+    await next();
+  });
+  app.route('/projects', projectRoutes);
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('should reject internal directories as project ids', async () => {
+    const requests: Array<[string, string]> = [
+      ['PUT', '/projects/_template/files'],
+      ['GET', '/projects/_runtime/files/instances.json'],
+      ['POST', '/projects/_template/preview/start'],
+      ['GET', '/projects/node_modules'],
+    ];
+
+    for (const [method, path] of requests) {
+      const res = await app.request(path, { method });
+      expect(res.status).toBe(400);
+      expect((await res.json()).code).toBe('INVALID_PROJECT_ID');
+    }
+  });
+
+  test('should answer 503 with Retry-After when creation times out waiting for a port', async () => {
+    const error = new PoolExhaustedError('No preview port became free', 15);
+    spyOn(projectManager, 'createProject').mockRejectedValue(error);
+    spyOn(projectManager, 'importProject').mockRejectedValue(error);
+    spyOn(projectManager, 'forkProject').mockRejectedValue(error);
+    spyOn(projectManager, 'getStatus').mockImplementation(async (id) => ({ exists: id === 'src' }) as never);
+
+    const requests: Array<[string, unknown]> = [
+      ['/projects', { projectId: 'p1', projectName: 'P1' }],
+      ['/projects/import', { projectId: 'p1', archive: 'eA==' }],
+      ['/projects/src/fork', { projectId: 'p1' }],
+    ];
+    for (const [path, body] of requests) {
+      const res = await app.request(path, { method: 'POST', body: JSON.stringify(body) });
+      expect(res.status).toBe(503);
+      expect(res.headers.get('Retry-After')).toBe('15');
+      expect((await res.json()).code).toBe('POOL_EXHAUSTED');
+    }
+  });
+
+  test('fork should answer 404 for an unknown source and 409 for an existing target', async () => {
+    spyOn(projectManager, 'getStatus').mockImplementation(async (id) => ({ exists: id !== 'missing' }) as never);
+    const fork = spyOn(projectManager, 'forkProject');
+
+    const fromMissing = await app.request('/projects/missing/fork', { method: 'POST', body: JSON.stringify({ projectId: 'copy' }) });
+    expect(fromMissing.status).toBe(404);
+
+    const ontoExisting = await app.request('/projects/src/fork', { method: 'POST', body: JSON.stringify({ projectId: 'taken' }) });
+    expect(ontoExisting.status).toBe(409);
+    expect(fork).not.toHaveBeenCalled();
+  });
+});
+
@@ -0,0 +1,70 @@
+/**
+ * RuntimeErrorStore 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { RuntimeErrorStore } from '../src/services/runtime-error-store';
+
+describe('RuntimeErrorStore', () => {
+  test('should fold identical errors into one entry', () => {
+    const store = new RuntimeErrorStore();
+    const report = { kind: 'error' as const, message: 'x is not defined', source: { file: 'src/App.tsx', line: 3 } };
+
+    store.record('p1', report);
+    const entry = store.record('p1', report);
+
+    expect(entry.count).toBe(2);
+    expect(store.list('p1')).toHaveLength(1);
+  });
+
+  test('should keep errors at different locations separate and list most recent first', () => {
+    const store = new RuntimeErrorStore();
+    store.record('p1', { kind: 'error', message: 'boom', source: { file: 'src/A.tsx', line: 1 } });
+    store.record('p1', { kind: 'error', message: 'boom', source: { file: 'src/B.tsx', line: 1 } });
+
+    const errors = store.list('p1');
+    expect(errors.map(e => e.source?.file)).toEqual(['src/B.tsx', 'src/A.tsx']);
+    expect(store.list('p2')).toEqual([]);
+  });
+
+  test('should filter by since and clear per project', () => {
+    const store = new RuntimeErrorStore();
+    store.record('p1', { kind: 'vite', message: 'Transform failed' });
+
+    expect(store.list('p1', '2000-01-01T00:00:00.000Z')).toHaveLength(1);
+    expect(store.list('p1', '2999-01-01T00:00:00.000Z')).toHaveLength(0);
+
+    store.clear('p1');
+    expect(store.list('p1')).toEqual([]);
+  });
+
+  test('should cap distinct errors per project', () => {
+    const store = new RuntimeErrorStore();
+    for (let i = 0; i < 150; i++) {
+      store.record('p1', { kind: 'error', message: `error ${i}` });
+    }
+
+    const errors = store.list('p1');
+    expect(errors).toHaveLength(100);
+    expect(errors[0].message).toBe('error 149');
+  });
+
+  test('parseReport should validate and truncate untrusted input', () => {
+    const store = new RuntimeErrorStore();
+
+    expect(store.parseReport(null)).toBeNull();
+    expect(store.parseReport({ kind: 'unknown', message: 'x' })).toBeNull();
+    expect(store.parseReport({ kind: 'error' })).toBeNull();
+
+    const report = store.parseReport({
+      kind: 'react',
+      message: 'm'.repeat(5000),
+      source: { file: 'src/App.tsx', line: 12, column: 'x' },
+      extra: 'ignored',
+    });
+
+    expect(report?.message).toHaveLength(2000);
+    expect(report?.source).toEqual({ file: 'src/App.tsx', line: 12, column: undefined });
+    expect(report).not.toHaveProperty('extra');
+  });
+});
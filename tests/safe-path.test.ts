@@ -0,0 +1,93 @@
+/**
+ * Safe path resolution 单元测试
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, symlink, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveProjectPath, PathSecurityError, isProjectId, InvalidProjectIdError } from '../src/lib/safe-path';
+import { projectManager } from '../src/services/project-manager';
+
+async function expectCode(promise: Promise<unknown>, code: string): Promise<void> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PathSecurityError);
+    expect((error as PathSecurityError).code).toBe(code as PathSecurityError['code']);
+    return;
+  }
+  throw new Error(`Expected ${code}`);
+}
+
+describe('resolveProjectPath', () => {
+  let rootDir: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'fly-paths-'));
+    projectPath = join(rootDir, 'project');
+    await mkdir(join(projectPath, 'src'), { recursive: true });
+    await writeFile(join(rootDir, 'secret.txt'), 'secret');
+    await symlink(join(rootDir, 'secret.txt'), join(projectPath, 'src', 'leak.txt'));
+    await symlink(rootDir, join(projectPath, 'outside'));
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('should resolve normal relative paths', async () => {
+    expect(await resolveProjectPath(projectPath, 'src/App.tsx', 'write')).toBe(join(projectPath, 'src', 'App.tsx'));
+    expect(await resolveProjectPath(projectPath, './src/../index.html', 'read')).toBe(join(projectPath, 'index.html'));
+  });
+
+  test('should reject traversal and absolute paths', async () => {
+    await expectCode(resolveProjectPath(projectPath, '../secret.txt', 'read'), 'PATH_TRAVERSAL');
+    await expectCode(resolveProjectPath(projectPath, 'src/../../secret.txt', 'write'), 'PATH_TRAVERSAL');
+    await expectCode(resolveProjectPath(projectPath, '/etc/passwd', 'read'), 'PATH_ABSOLUTE');
+    await expectCode(resolveProjectPath(projectPath, 'C:\\Windows\\win.ini', 'read'), 'PATH_ABSOLUTE');
+    await expectCode(resolveProjectPath(projectPath, '', 'read'), 'PATH_INVALID');
+    await expectCode(resolveProjectPath(projectPath, 'src/a\0.ts', 'write'), 'PATH_INVALID');
+  });
+
+  test('should reject symlinks pointing outside the project', async () => {
+    await expectCode(resolveProjectPath(projectPath, 'src/leak.txt', 'read'), 'PATH_SYMLINK_ESCAPE');
+    await expectCode(resolveProjectPath(projectPath, 'outside/new.txt', 'write'), 'PATH_SYMLINK_ESCAPE');
+  });
+
+  test('should reject writes into node_modules and .git', async () => {
+    await expectCode(resolveProjectPath(projectPath, 'node_modules/react/index.js', 'write'), 'PATH_PROTECTED');
+    await expectCode(resolveProjectPath(projectPath, 'src/.git/config', 'write'), 'PATH_PROTECTED');
+    expect(await resolveProjectPath(projectPath, 'node_modules/react/package.json', 'read')).toBeDefined();
+  });
+
+  test('should apply the write deny-list', async () => {
+    const denyList = ['vite.config.ts', 'public/**', '*.lock'];
+
+    await expectCode(resolveProjectPath(projectPath, 'vite.config.ts', 'write', denyList), 'PATH_DENIED');
+    await expectCode(resolveProjectPath(projectPath, 'public/img/logo.png', 'write', denyList), 'PATH_DENIED');
+    await expectCode(resolveProjectPath(projectPath, 'bun.lock', 'write', denyList), 'PATH_DENIED');
+    expect(await resolveProjectPath(projectPath, 'vite.config.ts', 'read', denyList)).toBeDefined();
+    expect(await resolveProjectPath(projectPath, 'src/vite.config.ts', 'write', denyList)).toBeDefined();
+  });
+});
+
+describe('isProjectId', () => {
+  test('should accept plain ids', () => {
+    expect(isProjectId('3f2b8c1e-0000-4000-8000-000000000000')).toBe(true);
+    expect(isProjectId('my_site-2')).toBe(true);
+  });
+
+  test('should reject internal and reserved directories', () => {
+    for (const id of ['_snapshots', '_builds', '_warm-1234', 'template', 'node_modules', '.git', '../etc', 'a/b', '']) {
+      expect(isProjectId(id)).toBe(false);
+    }
+  });
+
+  test('should keep project operations away from internal directories', async () => {
+    await expect(projectManager.createProject({ projectId: '_snapshots', projectName: 'x' })).rejects.toBeInstanceOf(InvalidProjectIdError);
+    await expect(projectManager.forkProject('p1', { projectId: '_runtime' })).rejects.toBeInstanceOf(InvalidProjectIdError);
+    await expect(projectManager.deleteProject('_builds')).rejects.toBeInstanceOf(InvalidProjectIdError);
+  });
+});
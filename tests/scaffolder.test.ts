@@ -3,7 +3,8 @@
  */
 
 import { describe, test, expect } from 'bun:test';
-import { generateScaffold, generateDefaultAppTsx } from '../src/services/scaffolder';
+import { generateScaffold, generateDefaultAppTsx, generateDefaultApp } from '../src/services/scaffolder';
+import { getTemplate } from '../src/services/template-registry';
 import type { ProjectConfig } from '../src/types';
 
 describe('generateScaffold', () => {
@@ -120,3 +121,69 @@ describe('generateDefaultAppTsx', () => {
     expect(appTsx).toContain('&lt;script&gt;');
   });
 });
+
+describe('generateScaffold with templates', () => {
+  test('should reject unknown templates', () => {
+    const result = generateScaffold({ projectId: 'p1', projectName: 'App', template: 'svelte' });
+
+    expect(result.success).toBe(false);
+    expect(result.files).toHaveLength(0);
+  });
+
+  test('should generate a Vue project without React tooling', () => {
+    const result = generateScaffold({ projectId: 'p1', projectName: 'Vue App', template: 'vue' });
+    const pkg = JSON.parse(result.files.find(f => f.path === 'package.json')!.content);
+    const viteConfig = result.files.find(f => f.path === 'vite.config.ts')!.content;
+
+    expect(result.success).toBe(true);
+    expect(pkg.dependencies).toHaveProperty('vue');
+    expect(pkg.dependencies).not.toHaveProperty('react');
+    expect(viteConfig).toContain('vue()');
+    expect(viteConfig).not.toContain('jsxTaggerPlugin');
+    expect(viteConfig).toContain("base: '/p/p1/'");
+    expect(result.files.find(f => f.path === 'src/main.ts')).toBeDefined();
+  });
+
+  test('should generate a vanilla project with a plain Vite config', () => {
+    const result = generateScaffold({ projectId: 'p1', projectName: 'Plain', template: 'vanilla-ts' });
+    const viteConfig = result.files.find(f => f.path === 'vite.config.ts')!.content;
+    const indexHtml = result.files.find(f => f.path === 'index.html')!.content;
+
+    expect(viteConfig).toContain('plugins: []');
+    expect(viteConfig).toContain("path: '/hmr/p1'");
+    expect(indexHtml).toContain('src="/src/main.ts"');
+  });
+
+  test('should keep the jsx-tagger for react-minimal', () => {
+    const result = generateScaffold({ projectId: 'p1', projectName: 'Mini', template: 'react-minimal' });
+    const pkg = JSON.parse(result.files.find(f => f.path === 'package.json')!.content);
+
+    expect(pkg.devDependencies).toHaveProperty('@lookfree0822/vite-plugin-jsx-tagger');
+    expect(pkg.dependencies).not.toHaveProperty('@radix-ui/react-dialog');
+    expect(result.files.find(f => f.path === 'vite.config.ts')!.content).toContain('jsxTaggerPlugin');
+  });
+});
+
+describe('generateDefaultApp', () => {
+  test('should write App.tsx for React templates', () => {
+    const app = generateDefaultApp(getTemplate('react-minimal')!, 'My App');
+
+    expect(app.path).toBe('src/App.tsx');
+    expect(app.content).toBe(generateDefaultAppTsx('My App'));
+  });
+
+  test('should escape template expressions in Vue', () => {
+    const app = generateDefaultApp(getTemplate('vue')!, '{{ secret }}');
+
+    expect(app.path).toBe('src/App.vue');
+    expect(app.content).not.toContain('{{');
+  });
+
+  test('should not break out of the template literal in vanilla', () => {
+    const app = generateDefaultApp(getTemplate('vanilla-ts')!, '`${alert(1)}`');
+
+    expect(app.path).toBe('src/main.ts');
+    expect(app.content).not.toContain('${alert');
+    expect(app.content.match(/`/g)).toHaveLength(2);
+  });
+});
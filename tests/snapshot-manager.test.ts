@@ -0,0 +1,81 @@
+/**
+ * SnapshotManager 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, readFile, rm, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SnapshotManager } from '../src/services/snapshot-manager';
+
+describe('SnapshotManager', () => {
+  let rootDir: string;
+  let projectPath: string;
+  let manager: SnapshotManager;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'fly-snapshots-'));
+    projectPath = join(rootDir, 'project');
+    await mkdir(join(projectPath, 'src'), { recursive: true });
+    await mkdir(join(projectPath, 'node_modules', 'react'), { recursive: true });
+    await writeFile(join(projectPath, 'package.json'), '{}');
+    await writeFile(join(projectPath, 'src', 'App.tsx'), 'export default 1;');
+    await writeFile(join(projectPath, 'node_modules', 'react', 'index.js'), '');
+
+    manager = new SnapshotManager(join(rootDir, '_snapshots'));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('should capture source files excluding node_modules', async () => {
+    const snapshot = await manager.capture('p1', projectPath, 'manual');
+
+    expect(snapshot.fileCount).toBe(2);
+    expect(await manager.list('p1')).toHaveLength(1);
+  });
+
+  test('should skip automatic snapshots when tree is unchanged', async () => {
+    const first = await manager.capture('p1', projectPath, 'files-update');
+    const second = await manager.capture('p1', projectPath, 'files-update');
+
+    expect(second.id).toBe(first.id);
+    expect(await manager.list('p1')).toHaveLength(1);
+  });
+
+  test('should diff two snapshots', async () => {
+    const before = await manager.capture('p1', projectPath, 'manual');
+    await writeFile(join(projectPath, 'src', 'App.tsx'), 'export default 2;');
+    await writeFile(join(projectPath, 'src', 'New.tsx'), 'new');
+    await rm(join(projectPath, 'package.json'));
+    const after = await manager.capture('p1', projectPath, 'manual');
+
+    const diff = await manager.diff('p1', before.id, after.id, true);
+
+    expect(diff.changes).toEqual([
+      { path: 'package.json', status: 'removed', before: '{}' },
+      { path: 'src/App.tsx', status: 'modified', before: 'export default 1;', after: 'export default 2;' },
+      { path: 'src/New.tsx', status: 'added', after: 'new' },
+    ]);
+  });
+
+  test('should restore files and remove files added later', async () => {
+    const snapshot = await manager.capture('p1', projectPath, 'manual');
+    await writeFile(join(projectPath, 'src', 'App.tsx'), 'broken');
+    await writeFile(join(projectPath, 'src', 'Extra.tsx'), 'extra');
+
+    const changed = await manager.restore('p1', projectPath, snapshot.id);
+
+    expect(changed.sort()).toEqual(['src/App.tsx', 'src/Extra.tsx']);
+    expect(await readFile(join(projectPath, 'src', 'App.tsx'), 'utf-8')).toBe('export default 1;');
+    await expect(access(join(projectPath, 'src', 'Extra.tsx'))).rejects.toThrow();
+    // node_modules is left untouched
+    await expect(access(join(projectPath, 'node_modules', 'react', 'index.js'))).resolves.toBeNull();
+  });
+
+  test('should reject unknown snapshots', async () => {
+    await expect(manager.restore('p1', projectPath, 'missing')).rejects.toThrow('Snapshot not found');
+    expect(await manager.get('p1', '../../etc')).toBeNull();
+  });
+});
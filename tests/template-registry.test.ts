@@ -0,0 +1,53 @@
+/**
+ * Template Registry 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  getTemplate,
+  listTemplates,
+  getCoreDependencies,
+  detectFramework,
+  renderViteConfig,
+  DEFAULT_TEMPLATE,
+} from '../src/services/template-registry';
+
+describe('template registry', () => {
+  test('should resolve the default template when no name is given', () => {
+    expect(getTemplate()?.name).toBe(DEFAULT_TEMPLATE);
+    expect(getTemplate(DEFAULT_TEMPLATE)?.dirName).toBe('_template');
+    expect(getTemplate('svelte')).toBeUndefined();
+  });
+
+  test('should give every template its own directories', () => {
+    const templates = listTemplates();
+
+    expect(new Set(templates.map(t => t.dirName)).size).toBe(templates.length);
+    expect(new Set(templates.map(t => t.prebuiltDir)).size).toBe(templates.length);
+  });
+
+  test('should list dependencies and devDependencies as core', () => {
+    const core = getCoreDependencies(getTemplate('vue')!);
+
+    expect(core.has('vue')).toBe(true);
+    expect(core.has('vite')).toBe(true);
+    expect(core.has('react')).toBe(false);
+  });
+
+  test('should detect the framework from package.json', () => {
+    expect(detectFramework({ dependencies: { vue: '^3.4.0' } })).toBe('vue');
+    expect(detectFramework({ dependencies: { react: '^18.2.0' } })).toBe('react');
+    expect(detectFramework({ devDependencies: { vite: '^5.0.0' } })).toBe('vanilla');
+    expect(detectFramework({})).toBe('vanilla');
+  });
+
+  test('should render per-project base and HMR path for every framework', () => {
+    for (const framework of ['react', 'vue', 'vanilla'] as const) {
+      const config = renderViteConfig(framework, 'abcdef123456');
+
+      expect(config).toContain("base: '/p/abcdef123456/'");
+      expect(config).toContain("path: '/hmr/abcdef123456'");
+    }
+    expect(renderViteConfig('react', 'abcdef123456')).toContain("idPrefix: 'abcdef12'");
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * TemplateUpgrader 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, rm, writeFile, readFile, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TemplateUpgrader } from '../src/services/template-upgrader';
+import { renderViteConfig, JSX_TAGGER_PACKAGE } from '../src/services/template-registry';
+
+const POSTCSS_V4 = "export default { plugins: { '@tailwindcss/postcss': {} } };\n";
+
+describe('TemplateUpgrader', () => {
+  let dir: string;
+  let templatePath: string;
+  let projectPath: string;
+  let upgrader: TemplateUpgrader;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'template-upgrade-'));
+    templatePath = join(dir, '_template');
+    projectPath = join(dir, 'p1');
+    await mkdir(templatePath, { recursive: true });
+    await mkdir(projectPath, { recursive: true });
+
+    await writeFile(join(templatePath, 'package.json'), JSON.stringify({
+      dependencies: { react: '^18.2.0' },
+      devDependencies: { tailwindcss: '^4.0.0', [JSX_TAGGER_PACKAGE]: '^0.2.0' },
+    }));
+    await writeFile(join(templatePath, 'bun.lock'), 'template lock');
+    await writeFile(join(templatePath, 'postcss.config.js'), POSTCSS_V4);
+
+    await writeFile(join(projectPath, 'package.json'), JSON.stringify({
+      dependencies: { react: '^18.2.0', dayjs: '^1.11.0' },
+      devDependencies: { tailwindcss: '^3.4.0', [JSX_TAGGER_PACKAGE]: '^0.1.0' },
+    }));
+    await writeFile(join(projectPath, 'bun.lock'), 'project lock');
+    await writeFile(join(projectPath, 'postcss.config.js'), "export default { plugins: { tailwindcss: {} } };\n");
+    await writeFile(join(projectPath, 'tailwind.config.js'), 'export default {};\n');
+    await writeFile(join(projectPath, 'vite.config.ts'), renderViteConfig('react', 'p1'));
+
+    upgrader = new TemplateUpgrader({
+      initialize: async () => {},
+      getTemplatePath: () => templatePath,
+      getVersion: () => 'v2',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should plan config, dependency and jsx-tagger changes', async () => {
+    const plan = await upgrader.plan('p1', projectPath, 'react-shadcn', 'v1');
+
+    expect(plan).toMatchObject({ template: 'react-shadcn', fromVersion: 'v1', toVersion: 'v2' });
+    expect(plan.files.map(f => [f.path, f.status])).toEqual([
+      ['postcss.config.js', 'modified'],
+      ['tailwind.config.js', 'removed'],
+      ['bun.lock', 'modified'],
+    ]);
+    expect(plan.dependencies).toEqual([
+      { name: 'tailwindcss', dev: true, from: '^3.4.0', to: '^4.0.0' },
+      { name: JSX_TAGGER_PACKAGE, dev: true, from: '^0.1.0', to: '^0.2.0' },
+    ]);
+    expect(plan.jsxTagger).toEqual({ from: '^0.1.0', to: '^0.2.0' });
+  });
+
+  test('should apply the plan and keep user dependencies', async () => {
+    const plan = await upgrader.plan('p1', projectPath, 'react-shadcn', 'v1');
+    await upgrader.apply(projectPath, plan);
+
+    const pkg = JSON.parse(await readFile(join(projectPath, 'package.json'), 'utf-8'));
+    expect(pkg.dependencies.dayjs).toBe('^1.11.0');
+    expect(pkg.devDependencies.tailwindcss).toBe('^4.0.0');
+    expect(await readFile(join(projectPath, 'postcss.config.js'), 'utf-8')).toBe(POSTCSS_V4);
+    expect(await readFile(join(projectPath, 'bun.lock'), 'utf-8')).toBe('template lock');
+    expect(await access(join(projectPath, 'tailwind.config.js')).then(() => true, () => false)).toBe(false);
+
+    // Nothing left to do afterwards
+    const again = await upgrader.plan('p1', projectPath, 'react-shadcn', 'v2');
+    expect(again.files).toEqual([]);
+    expect(again.dependencies).toEqual([]);
+  });
+
+  test('should leave the lockfile alone when the project is on the current version', async () => {
+    await writeFile(join(projectPath, 'package.json'), JSON.stringify({
+      dependencies: { react: '^18.2.0', dayjs: '^1.11.0' },
+      devDependencies: { tailwindcss: '^4.0.0', [JSX_TAGGER_PACKAGE]: '^0.2.0' },
+    }));
+
+    const plan = await upgrader.plan('p1', projectPath, 'react-shadcn', 'v2');
+
+    expect(plan.files.some(f => f.path === 'bun.lock')).toBe(false);
+    expect(plan.jsxTagger).toBeNull();
+  });
+
+  test('should reject unknown templates', async () => {
+    await expect(upgrader.plan('p1', projectPath, 'svelte', null)).rejects.toThrow('Unknown template: svelte');
+  });
+});
@@ -2,8 +2,14 @@
  * ViteDevServerManager 单元测试
  */
 
-import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test';
-import { ViteDevServerManager } from '../src/services/vite-manager';
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { createServer } from 'net';
+import { spawn } from 'child_process';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ViteDevServerManager, PoolExhaustedError } from '../src/services/vite-manager';
+import type { ViteInstance, ExitEvent } from '../src/types';
 
 describe('ViteDevServerManager', () => {
   let manager: ViteDevServerManager;
@@ -84,3 +90,329 @@ describe('ViteDevServerManager port allocation', () => {
     manager.destroy();
   });
 });
+
+describe('ViteDevServerManager start queue', () => {
+  // Port queue internals, exercised without spawning Vite
+  type PortQueue = {
+    acquirePort(projectId: string): Promise<number>;
+    releasePort(port: number): void;
+  };
+
+  const createManager = (queueTimeout = 1000, maxQueueLength = 10) => new ViteDevServerManager({
+    basePort: 17000,
+    maxInstances: 1,
+    idleTimeout: 60000,
+    startupTimeout: 5000,
+    queueTimeout,
+    maxQueueLength,
+  });
+
+  test('should hand released ports to queued starts in order', async () => {
+    const manager = createManager();
+    const pool = manager as unknown as PortQueue;
+    const exhausted: string[] = [];
+    manager.on('pool-exhausted', ({ projectId }) => exhausted.push(projectId));
+
+    const port = await pool.acquirePort('a');
+    const order: string[] = [];
+    const b = pool.acquirePort('b').then((p) => { order.push('b'); return p; });
+    const c = pool.acquirePort('c').then((p) => { order.push('c'); return p; });
+    await new Promise(r => setTimeout(r, 10));
+
+    expect(manager.getQueueLength()).toBe(2);
+    expect(exhausted).toEqual(['b', 'c']);
+
+    pool.releasePort(port);
+    expect(await b).toBe(port);
+    pool.releasePort(port);
+    expect(await c).toBe(port);
+    expect(order).toEqual(['b', 'c']);
+
+    await manager.destroy();
+  });
+
+  test('should reject with PoolExhaustedError after queueTimeout', async () => {
+    const manager = createManager(20);
+    const pool = manager as unknown as PortQueue;
+    await pool.acquirePort('a');
+
+    const error = await pool.acquirePort('b').catch(e => e);
+
+    expect(error).toBeInstanceOf(PoolExhaustedError);
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(manager.getQueueLength()).toBe(0);
+
+    await manager.destroy();
+  });
+
+  test('should reject immediately when the queue is full', async () => {
+    const manager = createManager(1000, 1);
+    const pool = manager as unknown as PortQueue;
+    await pool.acquirePort('a');
+    const queued = pool.acquirePort('b').catch(e => e);
+    await new Promise(r => setTimeout(r, 10));
+
+    await expect(pool.acquirePort('c')).rejects.toBeInstanceOf(PoolExhaustedError);
+
+    await manager.destroy();
+    expect(await queued).toBeInstanceOf(PoolExhaustedError);
+  });
+});
+
+describe('ViteDevServerManager port probing', () => {
+  test('should quarantine ports held by other processes and release them once free', async () => {
+    const blocker = createServer();
+    await new Promise<void>(resolve => blocker.listen(18000, '0.0.0.0', resolve));
+
+    const manager = new ViteDevServerManager({
+      basePort: 18000,
+      maxInstances: 2,
+      idleTimeout: 60000,
+      startupTimeout: 5000,
+    });
+    const pool = manager as unknown as { acquirePort(projectId: string): Promise<number> };
+
+    expect(await pool.acquirePort('a')).toBe(18001);
+    expect(manager.getQuarantinedPorts().map(q => q.port)).toEqual([18000]);
+
+    expect(await manager.recheckQuarantine()).toEqual([]);
+    await new Promise<void>(resolve => blocker.close(() => resolve()));
+    expect(await manager.recheckQuarantine()).toEqual([18000]);
+    expect(await pool.acquirePort('b')).toBe(18000);
+
+    await manager.destroy();
+  });
+});
+
+describe('ViteDevServerManager adoption', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'vite-adopt-'));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test.skipIf(process.platform !== 'linux')('should adopt a live process from the state file and detect its exit', async () => {
+    const projectPath = join(rootDir, 'p1');
+    const stateDir = join(rootDir, '_runtime');
+    await mkdir(projectPath, { recursive: true });
+    // Stands in for Vite: answers every request, cmdline contains "vite"
+    await writeFile(join(projectPath, 'vite-stub.js'),
+      "Bun.serve({ port: 18100, fetch: () => new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } }) });");
+    const child = spawn(process.execPath, ['vite-stub.js'], { cwd: projectPath, stdio: 'ignore', detached: true });
+
+    const manager = new ViteDevServerManager({
+      basePort: 18100,
+      maxInstances: 2,
+      idleTimeout: 60000,
+      startupTimeout: 5000,
+      stateDir,
+    });
+
+    try {
+      await new Promise(r => setTimeout(r, 300));
+      await mkdir(stateDir, { recursive: true });
+      await writeFile(join(stateDir, 'instances.json'), JSON.stringify([
+        { projectId: 'p1', projectPath, port: 18100, pid: child.pid, startedAt: new Date().toISOString() },
+        { projectId: 'gone', projectPath: join(rootDir, 'gone'), port: 18101, pid: 2 ** 22 + 1, startedAt: new Date().toISOString() },
+      ]));
+
+      expect(await manager.adoptInstances()).toEqual(['p1']);
+      expect(manager.getInstance('p1')).toMatchObject({ port: 18100, pid: child.pid, status: 'running', process: null });
+      expect(manager.getInstance('gone')).toBeUndefined();
+
+      const persisted = JSON.parse(await readFile(join(stateDir, 'instances.json'), 'utf-8'));
+      expect(persisted.map((r: { projectId: string }) => r.projectId)).toEqual(['p1']);
+
+      const exited = new Promise(resolve => manager.once('exit', resolve));
+      child.kill('SIGKILL');
+      expect(await exited).toEqual({ projectId: 'p1', projectPath, code: null, unexpected: true });
+      expect(manager.getInstance('p1')).toBeUndefined();
+    } finally {
+      child.kill('SIGKILL');
+      await manager.destroy();
+    }
+  });
+
+  test.skipIf(process.platform !== 'linux')('should rebase a running instance onto another project id', async () => {
+    const warmPath = join(rootDir, '_warm-a');
+    const projectPath = join(rootDir, 'p2');
+    const stateDir = join(rootDir, '_runtime');
+    await mkdir(warmPath, { recursive: true });
+    await writeFile(join(warmPath, 'vite-stub.js'),
+      "Bun.serve({ port: 18101, fetch: () => new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } }) });");
+    const child = spawn(process.execPath, ['vite-stub.js'], { cwd: warmPath, stdio: 'ignore', detached: true });
+
+    const manager = new ViteDevServerManager({
+      basePort: 18100,
+      maxInstances: 2,
+      idleTimeout: 60000,
+      startupTimeout: 5000,
+      stateDir,
+    });
+
+    try {
+      await new Promise(r => setTimeout(r, 300));
+      await mkdir(join(stateDir, 'logs'), { recursive: true });
+      await writeFile(join(stateDir, 'logs', '_warm-a.out.log'), '');
+      await writeFile(join(stateDir, 'logs', '_warm-a.err.log'), '');
+      await writeFile(join(stateDir, 'instances.json'), JSON.stringify([
+        { projectId: '_warm-a', projectPath: warmPath, port: 18101, pid: child.pid, startedAt: new Date().toISOString() },
+      ]));
+      expect(await manager.adoptInstances()).toEqual(['_warm-a']);
+
+      const started = new Promise(resolve => manager.once('started', resolve));
+      const instance = await manager.rebase('_warm-a', 'p2', projectPath);
+
+      expect(await started).toEqual({ projectId: 'p2', port: 18101 });
+      expect(instance).toMatchObject({ projectId: 'p2', projectPath, port: 18101, status: 'running' });
+      expect(manager.getInstance('_warm-a')).toBeUndefined();
+      expect(await readFile(join(stateDir, 'logs', 'p2.out.log'), 'utf-8')).toBe('');
+
+      const exited = new Promise(resolve => manager.once('exit', resolve));
+      child.kill('SIGKILL');
+      expect(await exited).toEqual({ projectId: 'p2', projectPath, code: null, unexpected: true });
+    } finally {
+      child.kill('SIGKILL');
+      await manager.destroy();
+    }
+  });
+});
+
+describe('ViteDevServerManager start failure', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'vite-fail-'));
+  });
+
+  afterEach(async () => {
+    mock.restore();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('should release the port once and not report a crash when Vite exits during startup', async () => {
+    const projectPath = join(rootDir, 'p1');
+    await mkdir(projectPath, { recursive: true });
+    // `bun run vite` exits right away
+    await writeFile(join(projectPath, 'package.json'), JSON.stringify({ scripts: { vite: 'false' } }));
+
+    const manager = new ViteDevServerManager({
+      basePort: 19000,
+      maxInstances: 1,
+      idleTimeout: 60000,
+      startupTimeout: 5000,
+      stateDir: join(rootDir, '_runtime'),
+    });
+    const internals = manager as unknown as {
+      acquirePort(projectId: string): Promise<number>;
+      detectProjectFramework(projectPath: string): Promise<string>;
+      ensureTemplateViteConfig(): Promise<void>;
+    };
+    internals.detectProjectFramework = async () => 'vue';
+    internals.ensureTemplateViteConfig = async () => {};
+    const { dependencyManager } = await import('../src/services/dependency-manager');
+    spyOn(dependencyManager, 'ensure').mockResolvedValue({ success: false, logs: [], duration: 0 } as never);
+
+    const exits: Array<{ unexpected: boolean }> = [];
+    manager.on('exit', (event) => exits.push(event));
+    const failures: Array<{ projectId: string }> = [];
+    manager.on('start-failed', (event) => failures.push(event));
+
+    try {
+      const starting = manager.start('p1', projectPath).catch(e => e);
+      await new Promise(r => setTimeout(r, 10));
+      // Two starts waiting for the only port
+      const waiters = ['a', 'b'].map(id => internals.acquirePort(id).then(() => id, () => null));
+
+      expect(await starting).toBeInstanceOf(Error);
+      const first = await Promise.race([...waiters, new Promise(r => setTimeout(() => r('none'), 500))]);
+      await new Promise(r => setTimeout(r, 100));
+
+      expect(first).toBe('a');
+      expect(manager.getQueueLength()).toBe(1);
+      expect(manager.getInstance('p1')).toBeUndefined();
+      expect(exits.length).toBeGreaterThan(0);
+      expect(exits.every(e => !e.unexpected)).toBe(true);
+      // The registry moves the project out of 'starting' on this instead
+      expect(failures.map(f => f.projectId)).toEqual(['p1']);
+    } finally {
+      await manager.destroy();
+    }
+  });
+});
+
+describe('ViteDevServerManager start retry', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'vite-retry-'));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('should keep following the retried process when the first one exits late', async () => {
+    const projectPath = join(rootDir, 'p1');
+    await mkdir(projectPath, { recursive: true });
+    // `bun run vite` stays alive without ever serving
+    await writeFile(join(projectPath, 'package.json'), JSON.stringify({ scripts: { vite: 'sleep 30; true' } }));
+
+    const manager = new ViteDevServerManager({
+      basePort: 19050,
+      maxInstances: 1,
+      idleTimeout: 60000,
+      startupTimeout: 5000,
+      stateDir: join(rootDir, '_runtime'),
+    });
+    const internals = manager as unknown as {
+      instances: Map<string, ViteInstance>;
+      outputs: Map<ViteInstance, unknown>;
+      startViteProcess(instance: ViteInstance, projectPath: string, port: number): Promise<void>;
+      waitForReadyWithExitCheck(): Promise<void>;
+    };
+    // First attempt times out with its process still running, the retry comes up
+    let attempts = 0;
+    internals.waitForReadyWithExitCheck = async () => {
+      if (attempts++ === 0) throw new Error('Vite startup timeout');
+    };
+
+    const instance: ViteInstance = {
+      projectId: 'p1',
+      projectPath,
+      port: 19050,
+      process: null,
+      startedAt: new Date(),
+      lastActive: new Date(),
+      status: 'starting',
+    };
+    internals.instances.set('p1', instance);
+    const exits: ExitEvent[] = [];
+    manager.on('exit', (event) => exits.push(event));
+
+    try {
+      await expect(internals.startViteProcess(instance, projectPath, 19050)).rejects.toThrow('timeout');
+      const first = instance.process!;
+      await internals.startViteProcess(instance, projectPath, 19050);
+      expect(instance.process).not.toBe(first);
+
+      // The SIGKILLed first attempt's exit arrives after the retry started
+      await new Promise<void>(resolve => first.exitCode !== null || first.signalCode !== null ? resolve() : first.once('exit', () => resolve()));
+      await new Promise(r => setTimeout(r, 50));
+      expect(exits).toEqual([]);
+      expect(internals.outputs.has(instance)).toBe(true);
+
+      // The retried process's crash is still detected
+      process.kill(-instance.pid!, 'SIGKILL');
+      await new Promise(r => setTimeout(r, 500));
+      expect(exits).toHaveLength(1);
+      expect(exits[0]).toMatchObject({ projectId: 'p1', unexpected: true });
+    } finally {
+      await manager.destroy();
+    }
+  }, 15000);
+});
@@ -0,0 +1,175 @@
+/**
+ * WarmPool 单元测试
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { EventEmitter } from 'events';
+import { mkdtemp, mkdir, rm, writeFile, readFile, readlink, lstat, symlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WarmPool } from '../src/services/warm-pool';
+import type { ViteStatus } from '../src/types';
+
+function createPool(dataDir: string, options: { size?: number; freePorts?: number } = {}) {
+  const instances = new Map<string, { projectId: string; status: ViteStatus }>();
+  const active = new Set<string>();
+  let freePorts = options.freePorts ?? 10;
+
+  const manager = Object.assign(new EventEmitter(), {
+    start: async (projectId: string) => {
+      freePorts--;
+      const instance = { projectId, status: 'running' as ViteStatus };
+      instances.set(projectId, instance);
+      return instance;
+    },
+    stop: async (projectId: string) => {
+      if (!instances.delete(projectId)) return;
+      freePorts++;
+      manager.emit('stopped', { projectId });
+    },
+    getInstance: (projectId: string) => instances.get(projectId),
+    getFreePortCount: () => freePorts,
+    getQueueLength: () => 0,
+    markActive: () => {},
+    markProjectActive: (projectId: string) => { active.add(projectId); },
+    unmarkProjectActive: (projectId: string) => { active.delete(projectId); },
+  });
+
+  const template = {
+    createFromTemplate: async (projectId: string) => {
+      const path = join(dataDir, projectId);
+      await mkdir(path, { recursive: true });
+      await writeFile(join(path, 'vite.config.ts'), `base: '/p/${projectId}/'`);
+      return path;
+    },
+    writeViteConfig: async (projectPath: string, projectId: string) => {
+      await writeFile(join(projectPath, 'vite.config.ts'), `base: '/p/${projectId}/'`);
+    },
+  };
+
+  // Fakes cover only what WarmPool uses
+  const pool = new WarmPool({ size: options.size ?? 2, dataDir }, manager as never, template);
+  return { pool, manager, instances, active };
+}
+
+describe('WarmPool', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'warm-pool-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test('should fill up to size and keep warm instances active', async () => {
+    const { pool, instances, active } = createPool(dataDir);
+
+    await pool.initialize();
+    await pool.fill();
+
+    expect(pool.getStatus()).toMatchObject({ size: 2, ready: 2, starting: 0 });
+    expect(instances.size).toBe(2);
+    expect([...active].every(id => id.startsWith('_warm-'))).toBe(true);
+    expect(active.size).toBe(2);
+    pool.destroy();
+  });
+
+  test('should leave a port free for regular starts', async () => {
+    const { pool } = createPool(dataDir, { freePorts: 2 });
+
+    await pool.initialize();
+    await pool.fill();
+
+    expect(pool.getStatus().ready).toBe(1);
+    pool.destroy();
+  });
+
+  test('should move a claimed instance into place and link its old path', async () => {
+    const { pool, manager, active } = createPool(dataDir, { size: 1 });
+    await pool.initialize();
+    await pool.fill();
+
+    const claim = await pool.claim('p1');
+    expect(claim).not.toBeNull();
+    const warmPath = join(dataDir, claim!.warmId);
+
+    expect(claim!.projectPath).toBe(join(dataDir, 'p1'));
+    expect(await readFile(join(dataDir, 'p1', 'vite.config.ts'), 'utf-8')).toBe("base: '/p/p1/'");
+    expect(await readlink(warmPath)).toBe(join(dataDir, 'p1'));
+    expect(active.has(claim!.warmId)).toBe(false);
+
+    // The link goes away once the process that still uses it stops
+    await manager.stop(claim!.warmId);
+    manager.emit('stopped', { projectId: 'p1' });
+    await new Promise(r => setTimeout(r, 20));
+    expect(await lstat(warmPath).catch(() => null)).toBeNull();
+    expect(pool.getStatus().claimed).toBe(0);
+    pool.destroy();
+  });
+
+  test('should stop an abandoned claim and remove its directory and link', async () => {
+    const { pool, instances } = createPool(dataDir, { size: 1 });
+    await pool.initialize();
+    await pool.fill();
+    pool.destroy();
+
+    const claim = (await pool.claim('p1'))!;
+    await pool.abandon('p1', claim);
+
+    expect(instances.has(claim.warmId)).toBe(false);
+    expect(await lstat(join(dataDir, 'p1')).catch(() => null)).toBeNull();
+    expect(await lstat(join(dataDir, claim.warmId)).catch(() => null)).toBeNull();
+    expect(pool.getStatus().claimed).toBe(0);
+  });
+
+  test('should return null when nothing is ready', async () => {
+    const { pool } = createPool(dataDir, { size: 0 });
+    await pool.initialize();
+
+    expect(await pool.claim('p1')).toBeNull();
+  });
+
+  test('should drop and replace a warm instance that exits', async () => {
+    const { pool, manager, instances } = createPool(dataDir, { size: 1 });
+    await pool.initialize();
+    await pool.fill();
+    const [warmId] = instances.keys();
+
+    instances.delete(warmId);
+    manager.emit('exit', { projectId: warmId, code: 1, unexpected: true });
+    await new Promise(r => setTimeout(r, 20));
+    await pool.fill();
+
+    expect(await lstat(join(dataDir, warmId)).catch(() => null)).toBeNull();
+    expect(pool.getStatus().ready).toBe(1);
+    expect(instances.has(warmId)).toBe(false);
+    pool.destroy();
+  });
+
+  test('should release one warm instance to free a port', async () => {
+    const { pool, instances } = createPool(dataDir, { size: 1 });
+    await pool.initialize();
+    await pool.fill();
+    pool.destroy();
+
+    expect(await pool.release()).toBe(true);
+    expect(instances.size).toBe(0);
+    expect(pool.getStatus().ready).toBe(0);
+    expect(await pool.release()).toBe(false);
+  });
+
+  test('should clean up stale warm directories and dangling links on initialize', async () => {
+    await mkdir(join(dataDir, '_warm-stale'), { recursive: true });
+    await symlink(join(dataDir, 'gone'), join(dataDir, '_warm-link'));
+    await mkdir(join(dataDir, 'project'), { recursive: true });
+
+    const { pool } = createPool(dataDir, { size: 0 });
+    await pool.initialize();
+
+    expect(await lstat(join(dataDir, '_warm-stale')).catch(() => null)).toBeNull();
+    expect(await lstat(join(dataDir, '_warm-link')).catch(() => null)).toBeNull();
+    expect(await lstat(join(dataDir, 'project'))).not.toBeNull();
+  });
+});
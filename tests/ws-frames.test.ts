@@ -0,0 +1,84 @@
+/**
+ * WebSocket Frames 单元测试
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { WebSocketFrameGate, encodeTextFrame } from '../src/lib/ws-frames';
+
+const UPGRADE = 'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n';
+
+function createGate() {
+  const chunks: Buffer[] = [];
+  const gate = new WebSocketFrameGate((chunk) => chunks.push(Buffer.from(chunk)));
+  return { gate, output: () => Buffer.concat(chunks) };
+}
+
+describe('encodeTextFrame', () => {
+  test('should use the short, 16-bit and 64-bit length forms', () => {
+    expect([...encodeTextFrame('hi')]).toEqual([0x81, 2, 0x68, 0x69]);
+
+    const medium = encodeTextFrame('x'.repeat(300));
+    expect(medium[1]).toBe(126);
+    expect(medium.readUInt16BE(2)).toBe(300);
+    expect(medium.length).toBe(4 + 300);
+
+    const large = encodeTextFrame('x'.repeat(70000));
+    expect(large[1]).toBe(127);
+    expect(Number(large.readBigUInt64BE(2))).toBe(70000);
+  });
+});
+
+describe('WebSocketFrameGate', () => {
+  test('should pass upstream bytes through unchanged', () => {
+    const { gate, output } = createGate();
+    const upstream = Buffer.concat([Buffer.from(UPGRADE), encodeTextFrame('{"type":"connected"}'), encodeTextFrame('x'.repeat(500))]);
+
+    // Split at awkward places: inside the response, a header and a payload
+    for (const [start, end] of [[0, 10], [10, UPGRADE.length + 1], [UPGRADE.length + 1, UPGRADE.length + 30], [UPGRADE.length + 30, upstream.length]]) {
+      gate.push(upstream.subarray(start, end));
+    }
+
+    expect(output().equals(upstream)).toBe(true);
+    expect(gate.isOpen()).toBe(true);
+  });
+
+  test('should inject frames only between upstream frames', () => {
+    const { gate, output } = createGate();
+    const frame = encodeTextFrame('y'.repeat(200));
+    const injected = encodeTextFrame('{"type":"full-reload","path":"*"}');
+
+    gate.push(Buffer.from(UPGRADE));
+    gate.push(frame.subarray(0, 50));
+    gate.inject(injected);
+    gate.push(frame.subarray(50));
+
+    expect(output().equals(Buffer.concat([Buffer.from(UPGRADE), frame, injected]))).toBe(true);
+
+    // At a boundary it is written right away
+    gate.inject(injected);
+    expect(output().equals(Buffer.concat([Buffer.from(UPGRADE), frame, injected, injected]))).toBe(true);
+  });
+
+  test('should hold injected frames until the upgrade completes', () => {
+    const { gate, output } = createGate();
+    const injected = encodeTextFrame('{"type":"custom"}');
+
+    gate.inject(injected);
+    expect(output().length).toBe(0);
+
+    gate.push(Buffer.from(UPGRADE));
+    expect(output().equals(Buffer.concat([Buffer.from(UPGRADE), injected]))).toBe(true);
+  });
+
+  test('should drop injected frames when the upgrade is refused', () => {
+    const { gate, output } = createGate();
+    const refused = 'HTTP/1.1 400 Bad Request\r\n\r\nbad';
+
+    gate.inject(encodeTextFrame('lost'));
+    gate.push(Buffer.from(refused));
+    gate.inject(encodeTextFrame('lost'));
+
+    expect(output().toString()).toBe(refused);
+    expect(gate.isOpen()).toBe(false);
+  });
+});